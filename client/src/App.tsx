@@ -9,12 +9,14 @@
  * - Setting up global providers (Query, Theme, Tooltip)
  * - Configuring application routing
  * - Rendering the main application layout
+ * - Tracking pending transactions across page reloads
  * - Organizing page components
  * 
- * The application uses wouter for routing, with three main routes:
+ * The application uses wouter for routing, with four main routes:
  * - / (Swap page): Main entry point for swapping between VUSD and stablecoins
  * - /analytics: Treasury analytics and visualizations
  * - /use-vusd: Usage opportunities and educational information
+ * - /history: Mint and redeem history for the connected wallet
  * 
  * Global UI elements like header, footer, and mobile navigation
  * are rendered outside the route switch for consistent display.
@@ -33,6 +35,8 @@ import NotFound from "@/pages/not-found";
 import Swap from "@/pages/Swap";
 import Analytics from "@/pages/Analytics";
 import UseVUSD from "@/pages/UseVUSD";
+import History from "@/pages/History";
+import { usePendingTransactions } from "@/hooks/usePendingTransactions";
 
 function Router() {
   return (
@@ -40,11 +44,19 @@ function Router() {
       <Route path="/" component={Swap} />
       <Route path="/analytics" component={Analytics} />
       <Route path="/use-vusd" component={UseVUSD} />
+      <Route path="/history" component={History} />
       <Route component={NotFound} />
     </Switch>
   );
 }
 
+// Watches pending swaps (including ones resumed after a reload) and toasts their outcome.
+// Kept in its own component so store updates don't re-render the whole app.
+function PendingTransactionWatcher() {
+  usePendingTransactions();
+  return null;
+}
+
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
@@ -59,6 +71,7 @@ function App() {
             <Footer />
           </div>
           <Toaster />
+          <PendingTransactionWatcher />
         </TooltipProvider>
       </ThemeProvider>
     </QueryClientProvider>
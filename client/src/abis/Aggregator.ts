@@ -0,0 +1,10 @@
+/**
+ * Copyright 2025 Hemi Labs. All rights reserved.
+ */
+
+export const AGGREGATOR_V3_ABI = [
+  // Chainlink AggregatorV3Interface
+  "function decimals() view returns (uint8)",
+  "function description() view returns (string)",
+  "function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)"
+];
@@ -0,0 +1,15 @@
+/**
+ * Copyright 2025 Hemi Labs. All rights reserved.
+ */
+
+export const CTOKEN_ABI = [
+  // Compound v2 cToken
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)",
+  "function underlying() view returns (address)",
+  "function balanceOf(address owner) view returns (uint256)",
+  "function exchangeRateStored() view returns (uint256)",
+
+  // Accrues interest first; only ever called with staticCall to read the up-to-date rate
+  "function exchangeRateCurrent() returns (uint256)"
+];
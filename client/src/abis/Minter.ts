@@ -23,5 +23,8 @@ export const MINTER_ABI = [
   // Minting functions
   "function mint(address token, uint256 amountIn) external",
   "function mint(address token, uint256 amountIn, address receiver) external",
-  "function calculateMintage(address token, uint256 amountIn) external view returns (uint256)"
+  "function calculateMintage(address token, uint256 amountIn) external view returns (uint256)",
+
+  // Events
+  "event Mint(address indexed tokenIn, uint256 amountIn, uint256 amountInAfterTransferFee, uint256 mintage, address receiver)"
 ];
@@ -0,0 +1,17 @@
+/**
+ * Copyright 2025 Hemi Labs. All rights reserved.
+ */
+
+export const PERMIT_ABI = [
+  // EIP-712 domain
+  "function name() view returns (string)",
+  "function version() view returns (string)",
+  "function DOMAIN_SEPARATOR() view returns (bytes32)",
+  "function nonces(address owner) view returns (uint256)",
+
+  // EIP-2612 (USDC and most permit-enabled tokens)
+  "function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)",
+
+  // DAI's pre-EIP-2612 variant: all-or-nothing allowance keyed by nonce
+  "function permit(address holder, address spender, uint256 nonce, uint256 expiry, bool allowed, uint8 v, bytes32 r, bytes32 s)"
+];
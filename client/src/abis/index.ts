@@ -7,3 +7,7 @@ export * from './VUSD';
 export * from './Minter';
 export * from './Redeemer';
 export * from './Treasury';
+export * from './Permit';
+export * from './Aggregator';
+export * from './CToken';
+export * from './UniswapV3';
@@ -0,0 +1,230 @@
+/**
+ * Copyright 2025 Hemi Labs. All rights reserved.
+ */
+
+/**
+ * CollateralizationHistoryChart.tsx - Treasury history over time
+ *
+ * This component charts the snapshots stored by the server's treasury indexer:
+ * - T1 and T2 value as stacked areas, whose top is the total treasury value
+ * - VUSD circulating supply as a line on the same USD axis
+ * - The collateralization ratio as a line on a percentage axis
+ * - Governance events (whitelist changes, fee updates) as dashed markers,
+ *   also listed under the chart
+ *
+ * The range can be switched between 24h, 7d, 30d and all stored history.
+ */
+
+import { useState } from "react";
+import { format } from "date-fns";
+import {
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+  TooltipProps
+} from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useTreasuryHistory, HistoryRange } from "@/hooks/useTreasuryHistory";
+import { formatCurrency } from "@/lib/utils";
+import type { TreasurySnapshot } from "@shared/schema";
+
+const RANGES: HistoryRange[] = ["24h", "7d", "30d", "all"];
+
+// Same colors as the composition charts on the Analytics page
+const T1_COLOR = "#3B82F6";
+const T2_COLOR = "#10B981";
+const SUPPLY_COLOR = "#A855F7";
+const RATIO_COLOR = "#F59E0B";
+const EVENT_COLOR = "#EAB308";
+
+/**
+ * Formats a USD amount compactly for axis ticks, e.g. $1.2M.
+ */
+const formatCompactUsd = (value: number) =>
+  `$${new Intl.NumberFormat("en-US", { notation: "compact", maximumFractionDigits: 1 }).format(value)}`;
+
+/**
+ * Tooltip listing every figure of the hovered snapshot.
+ */
+const HistoryTooltip = ({ active, payload }: TooltipProps<number, string>) => {
+  if (!active || !payload?.length) return null;
+  const snapshot = payload[0].payload as TreasurySnapshot;
+
+  const rows: [string, string, string][] = [
+    ["Collateralization", `${(snapshot.collateralizationRatio * 100).toFixed(2)}%`, RATIO_COLOR],
+    ["Total value", formatCurrency(snapshot.totalValue), "#fff"],
+    ["T1 value", formatCurrency(snapshot.t1Value), T1_COLOR],
+    ["T2 value", formatCurrency(snapshot.t2Value), T2_COLOR],
+    ["Circulating supply", formatCurrency(snapshot.circulatingSupply), SUPPLY_COLOR],
+  ];
+
+  return (
+    <div className="rounded-lg bg-black/80 p-3 text-xs space-y-1">
+      <div className="text-gray-400 mb-1">
+        {format(new Date(snapshot.timestamp * 1000), "MMM dd, yyyy HH:mm")} · block {snapshot.blockNumber.toLocaleString()}
+      </div>
+      {rows.map(([label, value, color]) => (
+        <div key={label} className="flex justify-between gap-4">
+          <span style={{ color }}>{label}</span>
+          <span className="font-medium">{value}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+/**
+ * Card with the collateralization history chart and its range selector.
+ *
+ * @returns {JSX.Element} The history card
+ */
+const CollateralizationHistoryChart = () => {
+  const [range, setRange] = useState<HistoryRange>("7d");
+  const { data, loading, error } = useTreasuryHistory(range);
+
+  const snapshots = data?.snapshots ?? [];
+  const events = data?.events ?? [];
+  const tickFormat = range === "24h" ? "HH:mm" : "MMM dd";
+
+  return (
+    <Card className="w-full mb-6">
+      <CardHeader>
+        <div className="flex flex-wrap justify-between items-start gap-3">
+          <div>
+            <CardTitle>Collateralization History</CardTitle>
+            <CardDescription>Treasury value, VUSD supply and collateralization ratio over time</CardDescription>
+          </div>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            variant="outline"
+            value={range}
+            onValueChange={value => value && setRange(value as HistoryRange)}
+          >
+            {RANGES.map(r => (
+              <ToggleGroupItem key={r} value={r} aria-label={`Show ${r}`}>
+                {r === "all" ? "All" : r}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <Skeleton className="h-[350px] w-full" />
+        ) : error ? (
+          <div className="h-[350px] flex items-center justify-center text-red-500">
+            Error loading treasury history: {error}
+          </div>
+        ) : snapshots.length < 2 ? (
+          <div className="h-[350px] flex items-center justify-center text-gray-400">
+            Not enough snapshots in this range yet
+          </div>
+        ) : (
+          <>
+            <ResponsiveContainer width="100%" height={350}>
+              <ComposedChart data={snapshots}>
+                <XAxis
+                  dataKey="timestamp"
+                  type="number"
+                  scale="time"
+                  domain={["dataMin", "dataMax"]}
+                  tickFormatter={value => format(new Date(value * 1000), tickFormat)}
+                  stroke="#6B7280"
+                  fontSize={12}
+                />
+                <YAxis
+                  yAxisId="usd"
+                  tickFormatter={formatCompactUsd}
+                  stroke="#6B7280"
+                  fontSize={12}
+                  width={70}
+                />
+                <YAxis
+                  yAxisId="ratio"
+                  orientation="right"
+                  domain={["auto", "auto"]}
+                  tickFormatter={value => `${(value * 100).toFixed(0)}%`}
+                  stroke="#6B7280"
+                  fontSize={12}
+                />
+                <Tooltip content={<HistoryTooltip />} />
+                <Legend wrapperStyle={{ paddingTop: 10 }} />
+                <Area
+                  yAxisId="usd"
+                  type="monotone"
+                  dataKey="t1Value"
+                  name="T1 value"
+                  stackId="value"
+                  stroke={T1_COLOR}
+                  fill={T1_COLOR}
+                  fillOpacity={0.3}
+                />
+                <Area
+                  yAxisId="usd"
+                  type="monotone"
+                  dataKey="t2Value"
+                  name="T2 value"
+                  stackId="value"
+                  stroke={T2_COLOR}
+                  fill={T2_COLOR}
+                  fillOpacity={0.3}
+                />
+                <Line
+                  yAxisId="usd"
+                  type="monotone"
+                  dataKey="circulatingSupply"
+                  name="Circulating supply"
+                  stroke={SUPPLY_COLOR}
+                  dot={false}
+                />
+                <Line
+                  yAxisId="ratio"
+                  type="monotone"
+                  dataKey="collateralizationRatio"
+                  name="Collateralization ratio"
+                  stroke={RATIO_COLOR}
+                  strokeWidth={2}
+                  dot={false}
+                />
+                {events.map(event => (
+                  <ReferenceLine
+                    key={event.id}
+                    yAxisId="usd"
+                    x={event.timestamp}
+                    stroke={EVENT_COLOR}
+                    strokeDasharray="4 4"
+                  />
+                ))}
+              </ComposedChart>
+            </ResponsiveContainer>
+
+            {events.length > 0 && (
+              <div className="mt-4 space-y-1 text-xs">
+                <div className="text-gray-400">Governance events</div>
+                {events.map(event => (
+                  <div key={event.id} className="flex gap-3">
+                    <span className="text-yellow-500 whitespace-nowrap">
+                      {format(new Date(event.timestamp * 1000), "MMM dd, yyyy HH:mm")}
+                    </span>
+                    <span>{event.description}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CollateralizationHistoryChart;
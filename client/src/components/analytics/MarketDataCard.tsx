@@ -5,21 +5,35 @@
 /**
  * MarketDataCard.tsx - VUSD Market Data Card Component
  * 
- * This component displays current market data for VUSD from CoinGecko, including:
+ * This component displays current market data for VUSD, including:
  * - Current price
  * - 24-hour price change (with colored indicator)
  * - Market capitalization
  * - 24-hour trading volume
  * - Last updated timestamp
+ * - A 7-day price sparkline that opens a full-size price and volume chart
  * 
+ * The data comes from CoinGecko unless the server failed over to another market
+ * data provider, which the card names. Providers without 24h history (the
+ * on-chain pools) leave the 24h change and volume blank.
+ *
  * The card also includes a link back to CoinGecko for more detailed information.
  */
 
+import { useState } from 'react';
 import { useVusdMarketData } from '@/hooks/useVusdMarketData';
+import { VusdPriceChartDialog, VusdPriceSparkline } from '@/components/analytics/VusdPriceChart';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { ExternalLink } from 'lucide-react';
 import { format } from 'date-fns';
 import { Skeleton } from '@/components/ui/skeleton';
+import type { MarketDataProviderName } from '@shared/schema';
+
+const PROVIDER_DESCRIPTIONS: Record<MarketDataProviderName, string> = {
+  coingecko: 'Market data from CoinGecko',
+  onchain: 'Market data from the VUSD pools on-chain (CoinGecko unavailable)',
+  fixture: 'Market data from a fixture file',
+};
 
 /**
  * Formats large numbers with commas and appropriate decimal places
@@ -37,11 +51,14 @@ const formatNumber = (value: number, decimals = 2): string => {
 
 export function MarketDataCard() {
   const { data, loading, error } = useVusdMarketData();
+  const [chartOpen, setChartOpen] = useState(false);
 
   // Format the price change with + or - sign and color coding
-  const formattedPriceChange = data?.price_change_24h 
-    ? `${data.price_change_24h > 0 ? '+' : ''}${formatNumber(data.price_change_24h, 3)}%` 
-    : '0.00%';
+  const formattedPriceChange = data?.price_change_24h === null
+    ? '—'
+    : data?.price_change_24h
+      ? `${data.price_change_24h > 0 ? '+' : ''}${formatNumber(data.price_change_24h, 3)}%`
+      : '0.00%';
     
   const priceChangeColorClass = !data?.price_change_24h 
     ? 'text-gray-500' 
@@ -62,7 +79,7 @@ export function MarketDataCard() {
         <div className="flex justify-between items-center">
           <div>
             <CardTitle className="text-xl">VUSD Price</CardTitle>
-            <CardDescription>Market data from CoinGecko</CardDescription>
+            <CardDescription>{PROVIDER_DESCRIPTIONS[data?.source ?? 'coingecko']}</CardDescription>
           </div>
           {data?.image && (
             <img 
@@ -99,6 +116,8 @@ export function MarketDataCard() {
               </span>
             </div>
             
+            <VusdPriceSparkline onClick={() => setChartOpen(true)} />
+            
             <div className="grid grid-cols-2 gap-4">
               <div>
                 <div className="text-sm text-muted-foreground">Market Cap</div>
@@ -106,7 +125,9 @@ export function MarketDataCard() {
               </div>
               <div>
                 <div className="text-sm text-muted-foreground">Volume (24h)</div>
-                <div className="font-medium">${formatNumber(data.volume_24h, 0)}</div>
+                <div className="font-medium">
+                  {data.volume_24h === null ? '—' : `$${formatNumber(data.volume_24h, 0)}`}
+                </div>
               </div>
             </div>
           </div>
@@ -119,6 +140,7 @@ export function MarketDataCard() {
       <CardFooter className="pt-2 text-xs text-muted-foreground flex justify-between items-center">
         <div>
           {data && `Last updated: ${formattedLastUpdated}`}
+          {data?.stale && ' · providers unreachable, showing cached data'}
         </div>
         <a 
           href="https://www.coingecko.com/en/coins/vesper-vdollar" 
@@ -129,6 +151,7 @@ export function MarketDataCard() {
           View on CoinGecko <ExternalLink size={12} />
         </a>
       </CardFooter>
+      <VusdPriceChartDialog open={chartOpen} onOpenChange={setChartOpen} />
     </Card>
   );
 }
\ No newline at end of file
@@ -0,0 +1,179 @@
+/**
+ * Copyright 2025 Hemi Labs. All rights reserved.
+ */
+
+/**
+ * PegMonitorCard.tsx - VUSD peg against the mint/redeem band
+ *
+ * This component shows where VUSD trades in each pool relative to the band
+ * set by the Minter and Redeemer:
+ * - The band: the mint price (top) and the redeem price (bottom)
+ * - Each pool's sell and buy price, flagged when outside the band
+ * - The most profitable arbitrage after fees and gas, when there is one
+ * - Each pool's share of the last 30 days spent inside the band, and the
+ *   peg events (periods outside the band) in that time
+ */
+
+import { format, formatDistanceStrict } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { VUSD_POOLS } from "@/constants/vusdPools";
+import { PEG_EVENT_DAYS, usePegMonitor } from "@/hooks/usePegMonitor";
+import { formatCurrency } from "@/lib/utils";
+import type { PegEvent, PegPosition } from "@shared/schema";
+
+const POSITION_LABELS: Record<PegPosition, string> = {
+  above: "Above band",
+  within: "In band",
+  below: "Below band",
+};
+
+const POSITION_CLASSES: Record<PegPosition, string> = {
+  above: "bg-yellow-500/10 text-yellow-500",
+  within: "bg-green-500/10 text-green-500",
+  below: "bg-red-500/10 text-red-500",
+};
+
+const poolName = (poolId: string) => VUSD_POOLS.find(pool => pool.id === poolId)?.name ?? poolId;
+
+/**
+ * Share of the last PEG_EVENT_DAYS days a pool spent inside the band,
+ * counting time outside it from its peg events.
+ */
+const inBandShare = (events: PegEvent[], poolId: string, now: number): number => {
+  const windowStart = now - PEG_EVENT_DAYS * 24 * 60 * 60;
+  const outside = events
+    .filter(event => event.poolId === poolId)
+    .reduce((total, event) => {
+      const start = Math.max(event.startedAt, windowStart);
+      const end = event.endedAt ?? now;
+      return total + Math.max(0, end - start);
+    }, 0);
+  return 1 - outside / (now - windowStart);
+};
+
+/**
+ * Card with the peg status of every VUSD pool.
+ *
+ * @returns {JSX.Element} The peg monitor card
+ */
+const PegMonitorCard = () => {
+  const { status, events, loading, error } = usePegMonitor();
+  const now = Math.floor(Date.now() / 1000);
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle>Peg Monitor</CardTitle>
+        <CardDescription>
+          Pool prices against the mint and redeem prices, which bound where VUSD should trade
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <Skeleton className="h-[200px] w-full" />
+        ) : error || !status ? (
+          <div className="text-red-500 py-4">
+            Error loading peg data: {error ?? "No data"}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-6 text-sm">
+              <div>
+                <div className="text-muted-foreground">Mint price (top of band)</div>
+                <div className="font-medium">${status.mintPrice.toFixed(4)}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Redeem price (bottom of band)</div>
+                <div className="font-medium">${status.redeemPrice.toFixed(4)}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Gas price</div>
+                <div className="font-medium">{status.gasPrice.toFixed(1)} gwei</div>
+              </div>
+            </div>
+
+            <div className="border border-gray-800 rounded-lg overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-800 text-muted-foreground">
+                    <th className="p-3 text-left font-medium">Pool</th>
+                    <th className="p-3 text-right font-medium">Sell</th>
+                    <th className="p-3 text-right font-medium">Buy</th>
+                    <th className="p-3 text-left font-medium">Status</th>
+                    <th className="p-3 text-left font-medium">Arbitrage</th>
+                    <th className="p-3 text-right font-medium">In band ({PEG_EVENT_DAYS}d)</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {status.pools.map(pool => (
+                    <tr key={pool.poolId} className="border-b border-gray-800 last:border-0">
+                      <td className="p-3">{pool.name}</td>
+                      {pool.error ? (
+                        <td colSpan={4} className="p-3 text-yellow-500" title={pool.error}>Unavailable</td>
+                      ) : (
+                        <>
+                          <td className="p-3 text-right">${pool.sellPrice.toFixed(4)}</td>
+                          <td className="p-3 text-right">${pool.buyPrice.toFixed(4)}</td>
+                          <td className="p-3">
+                            <Badge variant="outline" className={`border-0 ${POSITION_CLASSES[pool.position]}`}>
+                              {POSITION_LABELS[pool.position]}
+                            </Badge>
+                          </td>
+                          <td className="p-3 text-xs">
+                            {pool.arbitrage ? (
+                              <>
+                                {pool.arbitrage.action === "mint-and-sell" ? "Mint and sell" : "Buy and redeem"}{" "}
+                                {pool.arbitrage.size.toLocaleString("en-US", { maximumFractionDigits: 0 })} VUSD
+                                <div className="text-green-500">
+                                  {formatCurrency(pool.arbitrage.profit)} profit after {formatCurrency(pool.arbitrage.gasCost)} gas
+                                </div>
+                              </>
+                            ) : pool.position === "within" ? (
+                              <span className="text-muted-foreground">—</span>
+                            ) : (
+                              <span className="text-muted-foreground">Not profitable after fees and gas</span>
+                            )}
+                          </td>
+                        </>
+                      )}
+                      <td className="p-3 text-right">{(inBandShare(events, pool.poolId, now) * 100).toFixed(2)}%</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="space-y-1 text-xs">
+              <div className="text-gray-400">Peg events in the last {PEG_EVENT_DAYS} days</div>
+              {events.length === 0 ? (
+                <div className="text-muted-foreground">None recorded</div>
+              ) : (
+                [...events].reverse().map(event => (
+                  <div key={event.id} className="flex flex-wrap gap-3">
+                    <span className="text-yellow-500 whitespace-nowrap">
+                      {format(new Date(event.startedAt * 1000), "MMM dd, yyyy HH:mm")}
+                    </span>
+                    <span>
+                      {poolName(event.poolId)} {event.direction} band, peaking at ${event.peakPrice.toFixed(4)},{" "}
+                      {event.endedAt === null
+                        ? "ongoing"
+                        : `for ${formatDistanceStrict(new Date(event.startedAt * 1000), new Date(event.endedAt * 1000))}`}
+                    </span>
+                  </div>
+                ))
+              )}
+            </div>
+
+            <div className="text-xs text-muted-foreground">
+              As of block {status.blockNumber.toLocaleString()} · {format(new Date(status.timestamp * 1000), "MMM dd, yyyy HH:mm")}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PegMonitorCard;
@@ -0,0 +1,129 @@
+/**
+ * Copyright 2025 Hemi Labs. All rights reserved.
+ */
+
+/**
+ * PoolMarketCard.tsx - VUSD pool market data card
+ *
+ * This component displays the on-chain market data of one VUSD pool, next to
+ * the CoinGecko MarketDataCard:
+ * - Spot price of VUSD, colored by its distance from $1
+ * - Liquidity (TVL) and the reserves of each side
+ * - Price impact of selling 10k, 100k and 1M VUSD
+ *
+ * The card also links to the pool on its venue.
+ */
+
+import { ExternalLink } from 'lucide-react';
+import { useVusdPoolMarkets } from '@/hooks/useVusdPoolMarkets';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { VusdPool } from '@/constants/vusdPools';
+import { formatCurrency } from '@/lib/utils';
+
+const VENUE_LABELS: Record<VusdPool['venue'], string> = {
+  curve: 'Curve',
+  sushiswap: 'SushiSwap',
+};
+
+/**
+ * Formats a trade size compactly, e.g. 100K.
+ */
+const formatCompact = (value: number) =>
+  new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 1 }).format(value);
+
+/**
+ * Colors a price impact: green under 0.5%, yellow under 2%, red above.
+ */
+const impactColorClass = (impact: number) =>
+  impact < 0.005 ? 'text-green-500' : impact < 0.02 ? 'text-yellow-500' : 'text-red-500';
+
+interface PoolMarketCardProps {
+  pool: VusdPool;
+}
+
+/**
+ * Card with one pool's market data.
+ *
+ * @param {PoolMarketCardProps} props - Component properties
+ * @param {VusdPool} props.pool - The pool to show, from VUSD_POOLS
+ * @returns {JSX.Element} The pool card
+ */
+export function PoolMarketCard({ pool }: PoolMarketCardProps) {
+  const { data, loading, error } = useVusdPoolMarkets();
+  const market = data?.pools.find(p => p.id === pool.id);
+  const readError = error ?? market?.error ?? null;
+
+  const priceColorClass = !market
+    ? 'text-gray-500'
+    : Math.abs(market.spotPrice - 1) < 0.005
+      ? 'text-green-500'
+      : 'text-yellow-500';
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-xl">{pool.name}</CardTitle>
+        <CardDescription>{VENUE_LABELS[pool.venue]} pool</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-8 w-32" />
+            <Skeleton className="h-6 w-40" />
+            <Skeleton className="h-6 w-40" />
+          </div>
+        ) : readError ? (
+          <div className="text-red-500 py-4">
+            Error loading pool data: {readError}
+          </div>
+        ) : market ? (
+          <div className="space-y-3">
+            <div className="flex items-baseline gap-2">
+              <span className={`text-3xl font-bold ${priceColorClass}`}>${market.spotPrice.toFixed(4)}</span>
+              <span className="text-sm text-muted-foreground">spot</span>
+            </div>
+
+            <div>
+              <div className="text-sm text-muted-foreground">Liquidity</div>
+              <div className="font-medium">{formatCurrency(market.tvl)}</div>
+              <div className="text-xs text-muted-foreground">
+                {formatCompact(market.vusdReserve)} VUSD · {formatCompact(market.quoteReserve)} {market.quoteSymbol}
+              </div>
+            </div>
+
+            <div>
+              <div className="text-sm text-muted-foreground">Price impact (sell VUSD)</div>
+              <div className="grid grid-cols-3 gap-2 text-sm">
+                {market.priceImpact.map(({ amount, impact }) => (
+                  <div key={amount}>
+                    <div className="text-xs text-muted-foreground">{formatCompact(amount)}</div>
+                    <div className={`font-medium ${impactColorClass(impact)}`}>{(impact * 100).toFixed(2)}%</div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="text-muted-foreground py-4">
+            No pool data available
+          </div>
+        )}
+      </CardContent>
+      <CardFooter className="pt-2 text-xs text-muted-foreground flex justify-between items-center">
+        <div>
+          {data && `Block ${data.blockNumber.toLocaleString()}`}
+          {data?.stale && ' · pools unreachable, showing cached data'}
+        </div>
+        <a
+          href={pool.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-1 text-primary hover:underline"
+        >
+          View on {VENUE_LABELS[pool.venue]} <ExternalLink size={12} />
+        </a>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,68 @@
+/**
+ * Copyright 2025 Hemi Labs. All rights reserved.
+ */
+
+/**
+ * ReservesReportMenu.tsx - "Export reserves report" action
+ *
+ * This component offers the proof-of-reserves report for the latest treasury
+ * snapshot as a CSV or JSON download, or as a printable HTML page in a new tab.
+ * The report itself is built by the server (see server/report.ts).
+ */
+
+import { Download, FileJson, FileSpreadsheet, Printer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+
+const REPORT_URL = "/api/treasury/report";
+
+interface ReservesReportMenuProps {
+  disabled?: boolean;
+}
+
+/**
+ * Dropdown button with the report formats.
+ *
+ * @param {ReservesReportMenuProps} props - Component properties
+ * @param {boolean} [props.disabled] - Disables the button, e.g. before the first snapshot exists
+ * @returns {JSX.Element} The export menu
+ */
+const ReservesReportMenu = ({ disabled = false }: ReservesReportMenuProps) => {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled}>
+          <Download className="h-4 w-4 mr-2" />
+          Export reserves report
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem asChild>
+          <a href={`${REPORT_URL}?format=csv`} download>
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            CSV
+          </a>
+        </DropdownMenuItem>
+        <DropdownMenuItem asChild>
+          <a href={`${REPORT_URL}?format=json`} download>
+            <FileJson className="h-4 w-4 mr-2" />
+            JSON
+          </a>
+        </DropdownMenuItem>
+        <DropdownMenuItem asChild>
+          <a href={`${REPORT_URL}?format=html`} target="_blank" rel="noopener noreferrer">
+            <Printer className="h-4 w-4 mr-2" />
+            Printable report
+          </a>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ReservesReportMenu;
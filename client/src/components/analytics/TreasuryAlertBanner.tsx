@@ -0,0 +1,55 @@
+/**
+ * Copyright 2025 Hemi Labs. All rights reserved.
+ */
+
+/**
+ * TreasuryAlertBanner.tsx - Active treasury health alerts
+ *
+ * This component shows the alerts raised by the server's treasury monitor at
+ * the top of the Treasury section, in red for critical alerts and yellow for
+ * warnings, with how long each has been active. It renders nothing when the
+ * treasury is healthy.
+ */
+
+import { formatDistanceToNow } from "date-fns";
+import { AlertOctagon, AlertTriangle } from "lucide-react";
+import { useTreasuryAlerts } from "@/hooks/useTreasuryAlerts";
+
+/**
+ * Banner listing the active treasury alerts.
+ *
+ * @returns {JSX.Element | null} The banner, or null when there are no alerts
+ */
+const TreasuryAlertBanner = () => {
+  const { alerts } = useTreasuryAlerts();
+
+  if (alerts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2 mb-4" role="alert">
+      {alerts.map(alert => {
+        const critical = alert.severity === "critical";
+        const Icon = critical ? AlertOctagon : AlertTriangle;
+
+        return (
+          <div
+            key={alert.key}
+            className={`flex items-start gap-2 p-3 rounded-lg text-sm ${
+              critical ? "bg-red-500/10 text-red-500" : "bg-yellow-500/10 text-yellow-500"
+            }`}
+          >
+            <Icon className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <div className="flex-1">{alert.message}</div>
+            <div className="text-xs opacity-75 whitespace-nowrap">
+              since {formatDistanceToNow(new Date(alert.since * 1000), { addSuffix: true })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default TreasuryAlertBanner;
@@ -7,22 +7,27 @@
  * 
  * This component displays a concise summary of the VUSD treasury's key metrics:
  * - Total treasury value with collateralization ratio
- * - T1 stablecoin assets breakdown (USDC, DAI, USDT)
+ * - T1 stablecoin assets breakdown (USDC, DAI, USDT), each expandable to show the
+ *   Compound cToken it is deployed in, the exchange rate, underlying amount and accrued interest
  * - T2 alternative assets breakdown (stETH, LP tokens)
  * 
  * The component has two display modes:
  * - Preview mode: Compact version for display on the main swap page with "View All" link
  * - Full mode: Complete version shown on the analytics page
  * 
- * Real-time data is fetched via the useTreasury hook with proper loading states.
+ * Data comes from the latest server snapshot via the useTreasury hook. Skeletons are shown until the
+ * first read completes, and failed reads show an error with a retry button
+ * (see TreasuryStatusNotice); assets that could not be valued are marked as such.
  */
 
-import { useState, useEffect } from "react";
+import { ReactNode, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
 import { Link } from "wouter";
-import { useTreasury } from "@/hooks/useTreasury";
+import { useTreasury, TreasuryAsset, CTokenPosition } from "@/hooks/useTreasury";
 import { formatCurrency } from "@/lib/utils";
-import { Shield, Coins, ArrowUpCircle } from "lucide-react";
+import { Shield, Coins, ArrowUpCircle, ChevronDown } from "lucide-react";
+import TreasuryStatusNotice from "./TreasuryStatusNotice";
 
 interface TreasuryCardProps {
   previewMode?: boolean;
@@ -49,7 +54,20 @@ interface TreasuryCardProps {
  * All monetary values are formatted consistently using the formatCurrency utility.
  */
 const TreasuryCard = ({ previewMode = false }: TreasuryCardProps) => {
-  const { treasuryData, loading } = useTreasury();
+  const { treasuryData, loading, refreshTreasuryData } = useTreasury();
+  const pending = treasuryData.status === "loading";
+  // An error before any successful read leaves nothing to show
+  const hasData = treasuryData.blockNumber !== null;
+  const [expandedAsset, setExpandedAsset] = useState<string | null>(null);
+  
+  /**
+   * Renders a figure, a skeleton while the first read is running, or a dash
+   * when no data could be read.
+   */
+  const figure = (content: ReactNode, skeletonClass = "h-7 w-28") => {
+    if (pending) return <Skeleton className={skeletonClass} />;
+    return hasData ? content : "—";
+  };
   
   /**
    * Returns the appropriate CSS class for token icons based on token symbol.
@@ -69,6 +87,99 @@ const TreasuryCard = ({ previewMode = false }: TreasuryCardProps) => {
     }
   };
   
+  /**
+   * Formats an amount of tokens for the deployment details.
+   */
+  const formatTokens = (amount: number, maxFractionDigits = 2) =>
+    amount.toLocaleString(undefined, { maximumFractionDigits: maxFractionDigits });
+  
+  /**
+   * Renders where a T1 asset is deployed.
+   */
+  const renderDeployment = (asset: TreasuryAsset, position: CTokenPosition) => (
+    <div key={position.address} className="mt-2 pt-2 border-t border-gray-800 text-xs space-y-1">
+      {position.error ? (
+        <div className="text-yellow-500" title={position.error}>Compound position unavailable</div>
+      ) : (
+        <>
+          <div className="flex justify-between">
+            <span className="text-gray-400">Compound {position.symbol}</span>
+            <span>{formatTokens(position.balance)} {position.symbol}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-400">Exchange rate</span>
+            <span>1 {position.symbol} = {position.exchangeRate.toPrecision(6)} {asset.symbol}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-400">Underlying</span>
+            <span>{formatTokens(position.underlyingAmount)} {asset.symbol}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-400">Accrued interest</span>
+            {position.accruedInterest === null ? (
+              <span className="text-gray-500">Calculating...</span>
+            ) : (
+              <span className="text-green-500">+{formatTokens(position.accruedInterest, 6)} {asset.symbol}</span>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+  
+  /**
+   * Renders the asset rows of a tranche, or skeleton rows while loading.
+   * Assets with cToken positions can be expanded to show them.
+   */
+  const renderAssets = (assets: TreasuryAsset[]) => {
+    if (pending) {
+      return (
+        <div className="flex flex-col space-y-1.5">
+          {[0, 1, 2].map(i => <Skeleton key={i} className="h-9 w-full rounded-lg" />)}
+        </div>
+      );
+    }
+    
+    if (!hasData) {
+      return <div className="text-center py-4 text-gray-400 text-xs">No data</div>;
+    }
+    
+    return (
+      <div className="flex flex-col space-y-1.5">
+        {assets.map((asset) => {
+          const expandable = asset.deployments.length > 0;
+          const expanded = expandable && expandedAsset === asset.symbol;
+          
+          return (
+            <div key={asset.symbol} className="bg-background-light p-2.5 rounded-lg">
+              <div
+                className={`flex items-center justify-between ${expandable ? "cursor-pointer" : ""}`}
+                onClick={expandable ? () => setExpandedAsset(expanded ? null : asset.symbol) : undefined}
+                aria-expanded={expandable ? expanded : undefined}
+              >
+                <div className="flex items-center">
+                  <div className={`w-4 h-4 rounded-full overflow-hidden ${getTokenIconClass(asset.symbol)} mr-2`}></div>
+                  <span className="text-xs font-medium">{asset.symbol}</span>
+                  {expandable && (
+                    <ChevronDown className={`w-3 h-3 ml-1 text-gray-400 transition-transform ${expanded ? "rotate-180" : ""}`} />
+                  )}
+                </div>
+                {asset.error ? (
+                  <div className="text-xs text-yellow-500" title={asset.error}>Unavailable</div>
+                ) : asset.unpriced ? (
+                  <div className="text-xs text-gray-400" title="No price source for this token">Unpriced</div>
+                ) : (
+                  <div className="text-xs font-medium">{formatCurrency(asset.value)}</div>
+                )}
+              </div>
+              {expanded && asset.deployments.map(position => renderDeployment(asset, position))}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+  
   return (
     <Card className="bg-card rounded-xl overflow-hidden h-full">
       <CardHeader className="px-5 py-4 border-b border-gray-800 flex justify-between items-center">
@@ -81,6 +192,8 @@ const TreasuryCard = ({ previewMode = false }: TreasuryCardProps) => {
       </CardHeader>
       <CardContent className="p-5">
         <div className="flex flex-col space-y-6">
+          <TreasuryStatusNotice data={treasuryData} loading={loading} onRetry={refreshTreasuryData} />
+          
           {/* Treasury Stats */}
           <div className="grid grid-cols-1 gap-4">
             <div className="bg-background-light p-4 rounded-lg">
@@ -89,7 +202,7 @@ const TreasuryCard = ({ previewMode = false }: TreasuryCardProps) => {
                 <div className="text-gray-400 text-sm">Excess Value</div>
               </div>
               <div className="text-xl font-medium">
-                {loading ? "Loading..." : formatCurrency(treasuryData.excessValue)}
+                {figure(formatCurrency(treasuryData.excessValue))}
               </div>
               <div className="text-xs text-gray-400 mt-1">
                 Treasury value in excess of VUSD supply
@@ -105,11 +218,11 @@ const TreasuryCard = ({ previewMode = false }: TreasuryCardProps) => {
             </div>
             <div className="flex items-end">
               <div className="text-xl font-medium">
-                {loading ? "Loading..." : `${(treasuryData.collateralizationRatio * 100).toFixed(2)}%`}
+                {figure(`${(treasuryData.collateralizationRatio * 100).toFixed(2)}%`)}
               </div>
             </div>
             
-            {!loading && (
+            {hasData && (
               <div className="w-full bg-background h-2 rounded-full mt-2 overflow-hidden">
                 <div 
                   className={`h-full rounded-full ${
@@ -124,13 +237,13 @@ const TreasuryCard = ({ previewMode = false }: TreasuryCardProps) => {
               <div>
                 <div className="text-xs text-gray-400">Treasury Value</div>
                 <div className="text-sm font-medium">
-                  {loading ? "Loading..." : formatCurrency(treasuryData.totalValue)}
+                  {figure(formatCurrency(treasuryData.totalValue), "h-5 w-20")}
                 </div>
               </div>
               <div>
                 <div className="text-xs text-gray-400">VUSD Supply</div>
                 <div className="text-sm font-medium">
-                  {loading ? "Loading..." : formatCurrency(treasuryData.circulatingSupply)}
+                  {figure(formatCurrency(treasuryData.circulatingSupply), "h-5 w-20")}
                 </div>
               </div>
             </div>
@@ -141,25 +254,9 @@ const TreasuryCard = ({ previewMode = false }: TreasuryCardProps) => {
             <div className="flex items-center mb-2">
               <Coins className="w-4 h-4 text-blue-400 mr-2" />
               <div className="text-gray-300 text-sm font-medium">T1: Stablecoins</div>
-              <div className="ml-auto text-sm">{loading ? "..." : formatCurrency(treasuryData.t1Value)}</div>
+              <div className="ml-auto text-sm">{figure(formatCurrency(treasuryData.t1Value), "h-4 w-16")}</div>
             </div>
-            {loading ? (
-              <div className="text-center py-4 text-gray-400">Loading...</div>
-            ) : (
-              <div className="flex flex-col space-y-1.5">
-                {treasuryData.t1Assets.map((asset) => (
-                  <div key={asset.symbol} className="bg-background-light p-2.5 rounded-lg">
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center">
-                        <div className={`w-4 h-4 rounded-full overflow-hidden ${getTokenIconClass(asset.symbol)} mr-2`}></div>
-                        <span className="text-xs font-medium">{asset.symbol}</span>
-                      </div>
-                      <div className="text-xs font-medium">{formatCurrency(asset.value)}</div>
-                    </div>
-                  </div>
-                ))}
-              </div>
-            )}
+            {renderAssets(treasuryData.t1Assets)}
           </div>
           
           {/* T2 Assets - Other Assets */}
@@ -167,25 +264,9 @@ const TreasuryCard = ({ previewMode = false }: TreasuryCardProps) => {
             <div className="flex items-center mb-2">
               <Coins className="w-4 h-4 text-purple-400 mr-2" />
               <div className="text-gray-300 text-sm font-medium">T2: Other Assets</div>
-              <div className="ml-auto text-sm">{loading ? "..." : formatCurrency(treasuryData.t2Value)}</div>
+              <div className="ml-auto text-sm">{figure(formatCurrency(treasuryData.t2Value), "h-4 w-16")}</div>
             </div>
-            {loading ? (
-              <div className="text-center py-4 text-gray-400">Loading...</div>
-            ) : (
-              <div className="flex flex-col space-y-1.5">
-                {treasuryData.t2Assets.map((asset) => (
-                  <div key={asset.symbol} className="bg-background-light p-2.5 rounded-lg">
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center">
-                        <div className={`w-4 h-4 rounded-full overflow-hidden ${getTokenIconClass(asset.symbol)} mr-2`}></div>
-                        <span className="text-xs font-medium">{asset.symbol}</span>
-                      </div>
-                      <div className="text-xs font-medium">{formatCurrency(asset.value)}</div>
-                    </div>
-                  </div>
-                ))}
-              </div>
-            )}
+            {renderAssets(treasuryData.t2Assets)}
           </div>
         </div>
       </CardContent>
@@ -0,0 +1,94 @@
+/**
+ * Copyright 2025 Hemi Labs. All rights reserved.
+ */
+
+/**
+ * TreasuryStatusNotice.tsx - Freshness and error notice for treasury data
+ *
+ * This component tells the user how far to trust the treasury figures:
+ * - The block and time the figures were read at
+ * - A warning listing assets that could not be valued (partial data)
+ * - A note listing held tokens that no price source knows (unpriced)
+ * - An error message with a retry button when the treasury could not be read
+ *
+ * It is shared by TreasuryCard and the Analytics page.
+ */
+
+import { format } from "date-fns";
+import { AlertTriangle, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { TreasuryData } from "@/hooks/useTreasury";
+
+interface TreasuryStatusNoticeProps {
+  data: TreasuryData;
+  loading: boolean;
+  onRetry: () => void;
+}
+
+/**
+ * Notice describing the status of the treasury data.
+ *
+ * @param {TreasuryStatusNoticeProps} props - Component properties
+ * @param {TreasuryData} props.data - Treasury data from useTreasury
+ * @param {boolean} props.loading - Whether a fetch is in progress
+ * @param {() => void} props.onRetry - Function to fetch the data again
+ * @returns {JSX.Element | null} The notice, or null while the first fetch is running
+ */
+const TreasuryStatusNotice = ({ data, loading, onRetry }: TreasuryStatusNoticeProps) => {
+  if (data.status === "loading") {
+    return null;
+  }
+
+  if (data.status === "error") {
+    return (
+      <div className="flex items-center justify-between gap-3 p-3 rounded-lg bg-red-500/10 text-red-500 text-sm">
+        <div className="flex items-center">
+          <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0" />
+          <span>{data.error ?? "Failed to fetch treasury data"}</span>
+        </div>
+        <Button variant="outline" size="sm" onClick={onRetry} disabled={loading}>
+          <RefreshCw className={`h-3 w-3 mr-1 ${loading ? "animate-spin" : ""}`} />
+          Retry
+        </Button>
+      </div>
+    );
+  }
+
+  const failedAssets = [...data.t1Assets, ...data.t2Assets].filter(asset => asset.error !== null);
+  const unpricedAssets = data.t2Assets.filter(asset => asset.unpriced);
+
+  return (
+    <div className="space-y-2">
+      {data.status === "partial" && (
+        <div className="flex items-center justify-between gap-3 p-3 rounded-lg bg-yellow-500/10 text-yellow-500 text-sm">
+          <div className="flex items-start">
+            <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+            <span>
+              {failedAssets.map(asset => asset.symbol).join(", ")} could not be valued and{" "}
+              {failedAssets.length === 1 ? "is" : "are"} left out of the totals.
+            </span>
+          </div>
+          <Button variant="outline" size="sm" onClick={onRetry} disabled={loading}>
+            <RefreshCw className={`h-3 w-3 mr-1 ${loading ? "animate-spin" : ""}`} />
+            Retry
+          </Button>
+        </div>
+      )}
+      {unpricedAssets.length > 0 && (
+        <div className="text-xs text-gray-400">
+          {unpricedAssets.map(asset => asset.symbol).join(", ")}{" "}
+          {unpricedAssets.length === 1 ? "has" : "have"} no price and{" "}
+          {unpricedAssets.length === 1 ? "is" : "are"} left out of the totals.
+        </div>
+      )}
+      {data.blockNumber !== null && (
+        <div className="text-xs text-gray-400">
+          As of block {data.blockNumber.toLocaleString()}
+          {data.timestamp !== null && ` · ${format(new Date(data.timestamp * 1000), "MMM dd, yyyy HH:mm")}`}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TreasuryStatusNotice;
@@ -0,0 +1,216 @@
+/**
+ * Copyright 2025 Hemi Labs. All rights reserved.
+ */
+
+/**
+ * VusdPriceChart.tsx - VUSD price history charts
+ *
+ * This module provides the two views of VUSD's price history used by
+ * MarketDataCard:
+ * - VusdPriceSparkline: a small 7-day price line that opens the full chart
+ * - VusdPriceChartDialog: price as a line and 24h volume as bars, with a
+ *   range selector from 24h to 1 year
+ *
+ * Intervals filled from the previous price (no provider data) are counted
+ * under the chart so flat stretches are not mistaken for a stable price.
+ */
+
+import { useState } from "react";
+import { format } from "date-fns";
+import {
+  Bar,
+  ComposedChart,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  TooltipProps,
+  XAxis,
+  YAxis
+} from "recharts";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useVusdPriceHistory, VusdPricePoint } from "@/hooks/useVusdPriceHistory";
+import { formatCurrency } from "@/lib/utils";
+
+const PRICE_COLOR = "#A855F7";
+const VOLUME_COLOR = "#6366F1";
+
+// Selectable ranges, in days
+const RANGES: [number, string][] = [
+  [1, "24h"],
+  [7, "7d"],
+  [30, "30d"],
+  [90, "90d"],
+  [365, "1y"],
+];
+
+const SPARKLINE_DAYS = 7;
+
+/**
+ * Formats a USD amount compactly for axis ticks, e.g. $1.2M.
+ */
+const formatCompactUsd = (value: number) =>
+  `$${new Intl.NumberFormat("en-US", { notation: "compact", maximumFractionDigits: 1 }).format(value)}`;
+
+/**
+ * Tooltip with the hovered point's price and volume.
+ */
+const PriceTooltip = ({ active, payload }: TooltipProps<number, string>) => {
+  if (!active || !payload?.length) return null;
+  const point = payload[0].payload as VusdPricePoint;
+
+  return (
+    <div className="rounded-lg bg-black/80 p-3 text-xs space-y-1">
+      <div className="text-gray-400">{format(new Date(point.timestamp * 1000), "MMM dd, yyyy HH:mm")}</div>
+      <div style={{ color: PRICE_COLOR }}>Price ${point.price.toFixed(4)}</div>
+      <div style={{ color: VOLUME_COLOR }}>Volume (24h) {formatCurrency(point.volume)}</div>
+      {point.filled && <div className="text-yellow-500">No data, previous price shown</div>}
+    </div>
+  );
+};
+
+interface VusdPriceChartDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Dialog with the full-size price and volume chart.
+ *
+ * @param {VusdPriceChartDialogProps} props - Component properties
+ * @param {boolean} props.open - Whether the dialog is shown
+ * @param {(open: boolean) => void} props.onOpenChange - Called when the dialog opens or closes
+ * @returns {JSX.Element} The chart dialog
+ */
+export function VusdPriceChartDialog({ open, onOpenChange }: VusdPriceChartDialogProps) {
+  const [days, setDays] = useState(30);
+  const { points, loading, error } = useVusdPriceHistory(days);
+  const filled = points.filter(point => point.filled).length;
+  const tickFormat = days === 1 ? "HH:mm" : "MMM dd";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl w-full">
+        <DialogHeader>
+          <DialogTitle>VUSD Price History</DialogTitle>
+          <DialogDescription>Price and 24h trading volume, from CoinGecko unless it was unavailable</DialogDescription>
+        </DialogHeader>
+
+        <ToggleGroup
+          type="single"
+          size="sm"
+          variant="outline"
+          value={String(days)}
+          onValueChange={value => value && setDays(Number(value))}
+          className="justify-start"
+        >
+          {RANGES.map(([rangeDays, label]) => (
+            <ToggleGroupItem key={rangeDays} value={String(rangeDays)} aria-label={`Show ${label}`}>
+              {label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+
+        {loading ? (
+          <Skeleton className="h-[350px] w-full" />
+        ) : error ? (
+          <div className="h-[350px] flex items-center justify-center text-red-500">
+            Error loading price history: {error}
+          </div>
+        ) : points.length < 2 ? (
+          <div className="h-[350px] flex items-center justify-center text-gray-400">
+            No price history for this range
+          </div>
+        ) : (
+          <>
+            <ResponsiveContainer width="100%" height={350}>
+              <ComposedChart data={points}>
+                <XAxis
+                  dataKey="timestamp"
+                  type="number"
+                  scale="time"
+                  domain={["dataMin", "dataMax"]}
+                  tickFormatter={value => format(new Date(value * 1000), tickFormat)}
+                  stroke="#6B7280"
+                  fontSize={12}
+                />
+                <YAxis
+                  yAxisId="price"
+                  domain={["auto", "auto"]}
+                  tickFormatter={value => `$${value.toFixed(3)}`}
+                  stroke="#6B7280"
+                  fontSize={12}
+                  width={60}
+                />
+                <YAxis
+                  yAxisId="volume"
+                  orientation="right"
+                  tickFormatter={formatCompactUsd}
+                  stroke="#6B7280"
+                  fontSize={12}
+                />
+                <Tooltip content={<PriceTooltip />} />
+                <Bar yAxisId="volume" dataKey="volume" name="Volume (24h)" fill={VOLUME_COLOR} fillOpacity={0.3} />
+                <Line
+                  yAxisId="price"
+                  type="monotone"
+                  dataKey="price"
+                  name="Price"
+                  stroke={PRICE_COLOR}
+                  strokeWidth={2}
+                  dot={false}
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+            {filled > 0 && (
+              <div className="text-xs text-gray-400">
+                {filled} of {points.length} points had no data and repeat the previous price.
+              </div>
+            )}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface VusdPriceSparklineProps {
+  onClick: () => void;
+}
+
+/**
+ * Small 7-day price line, as a button that opens the full chart.
+ *
+ * @param {VusdPriceSparklineProps} props - Component properties
+ * @param {() => void} props.onClick - Called when the sparkline is clicked
+ * @returns {JSX.Element | null} The sparkline, or null without enough history
+ */
+export function VusdPriceSparkline({ onClick }: VusdPriceSparklineProps) {
+  const { points, loading } = useVusdPriceHistory(SPARKLINE_DAYS);
+
+  if (loading) {
+    return <Skeleton className="h-12 w-full" />;
+  }
+  if (points.length < 2) {
+    return null;
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className="block w-full h-12 rounded hover:bg-white/5"
+      aria-label="Open VUSD price chart"
+      title="Open price chart"
+    >
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={points}>
+          <YAxis hide domain={["dataMin", "dataMax"]} />
+          <Line type="monotone" dataKey="price" stroke={PRICE_COLOR} strokeWidth={1.5} dot={false} isAnimationActive={false} />
+        </LineChart>
+      </ResponsiveContainer>
+    </button>
+  );
+}
@@ -0,0 +1,137 @@
+/**
+ * Copyright 2025 Hemi Labs. All rights reserved.
+ */
+
+/**
+ * TransactionHistory.tsx - Mint and redeem history list
+ *
+ * This component lists every mint and redeem sent by the connected wallet,
+ * using the useTransactionHistory hook. Each row shows:
+ * - The operation and the tokens swapped
+ * - Amounts in and out, and the fee paid
+ * - Block time (or submission time while pending) and status
+ * - A link to the transaction on the block explorer
+ */
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useTransactionHistory, HistoryEntry } from "@/hooks/useTransactionHistory";
+import { useWeb3 } from "@/hooks/useWeb3";
+import { formatAmount, shortenAddress } from "@/lib/utils";
+import { SUPPORTED_CHAINS } from "@/constants/contracts";
+import { ExternalLink, RefreshCw } from "lucide-react";
+
+const STATUS_STYLES: Record<HistoryEntry["status"], string> = {
+  pending: "bg-blue-500/10 text-blue-500",
+  confirmed: "bg-green-500/10 text-green-500",
+  failed: "bg-red-500/10 text-red-500",
+  cancelled: "bg-gray-500/10 text-gray-400",
+  replaced: "bg-yellow-500/10 text-yellow-500",
+};
+
+/**
+ * Transaction history card for the connected wallet.
+ *
+ * @returns {JSX.Element} The TransactionHistory component
+ */
+const TransactionHistory = () => {
+  const { address, isConnected } = useWeb3();
+  const { entries, loading, error, refresh } = useTransactionHistory();
+
+  const renderBody = () => {
+    if (!isConnected) {
+      return <div className="text-gray-400 text-sm">Connect your wallet to see your mints and redeems.</div>;
+    }
+
+    if (error) {
+      return (
+        <div className="text-sm">
+          <div className="text-red-500 mb-2">{error}</div>
+          <Button variant="outline" size="sm" onClick={() => refresh()}>Retry</Button>
+        </div>
+      );
+    }
+
+    if (loading && entries.length === 0) {
+      return (
+        <div className="space-y-2">
+          {[0, 1, 2].map(i => <Skeleton key={i} className="h-16 w-full rounded-xl" />)}
+        </div>
+      );
+    }
+
+    if (entries.length === 0) {
+      return <div className="text-gray-400 text-sm">No mints or redeems found for this wallet.</div>;
+    }
+
+    return (
+      <div className="space-y-2">
+        {entries.map(entry => (
+          <div key={entry.hash} className="p-3 bg-background-light rounded-xl text-sm">
+            <div className="flex justify-between items-center mb-1">
+              <div className="font-medium">
+                {entry.type === "mint" ? "Mint" : "Redeem"}{" "}
+                <span className="text-gray-400 font-normal">
+                  {entry.fromToken.symbol} → {entry.toToken.symbol}
+                </span>
+              </div>
+              <span className={`px-2 py-0.5 rounded-full text-xs capitalize ${STATUS_STYLES[entry.status]}`}>
+                {entry.status}
+              </span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span>
+                {formatAmount(entry.fromAmount, entry.fromToken.decimals)} {entry.fromToken.symbol}
+                {" → "}
+                {formatAmount(entry.toAmount, entry.toToken.decimals)} {entry.toToken.symbol}
+              </span>
+              <span className="text-gray-400">
+                Fee {entry.fee === null ? "—" : `${formatAmount(entry.fee, entry.feeToken.decimals)} ${entry.feeToken.symbol}`}
+              </span>
+            </div>
+            <div className="flex justify-between items-center mt-1 text-xs text-gray-400">
+              <span>
+                {new Date(entry.timestamp * 1000).toLocaleString()}
+                {entry.recipient && address && entry.recipient.toLowerCase() !== address.toLowerCase() &&
+                  ` · sent to ${shortenAddress(entry.recipient)}`}
+              </span>
+              <a
+                href={`${SUPPORTED_CHAINS.ethereum.blockExplorer}/tx/${entry.hash}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center text-primary hover:text-primary-light"
+              >
+                {shortenAddress(entry.hash)}
+                <ExternalLink className="h-3 w-3 ml-1" />
+              </a>
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <Card className="bg-card rounded-xl overflow-hidden">
+      <CardHeader className="px-5 py-4 border-b border-gray-800 flex flex-row justify-between items-center">
+        <CardTitle className="font-heading font-semibold">Transaction History</CardTitle>
+        {isConnected && (
+          <button
+            className="text-gray-400 hover:text-white"
+            onClick={() => refresh()}
+            disabled={loading}
+            aria-label="Refresh history"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+          </button>
+        )}
+      </CardHeader>
+      <CardContent className="p-5">
+        {renderBody()}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TransactionHistory;
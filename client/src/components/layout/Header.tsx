@@ -8,7 +8,7 @@
  * This component provides the main navigation header for the VUSD application.
  * Key features:
  * - VUSD logo and branding
- * - Main navigation links to key sections (Swap, Analytics, UseVUSD)
+ * - Main navigation links to key sections (Swap, Analytics, UseVUSD, History)
  * - Wallet connection button with connection status
  * - Responsive design with mobile-friendly menu
  * 
@@ -54,6 +54,11 @@ const Header = () => {
                 Use VUSD
               </a>
             </Link>
+            <Link href="/history">
+              <a className={`font-medium py-1 ${location === "/history" ? "text-white border-b-2 border-primary" : "text-gray-400 hover:text-white"}`}>
+                History
+              </a>
+            </Link>
           </nav>
         </div>
         
@@ -25,6 +25,11 @@ const MobileNav = () => {
             Use VUSD
           </a>
         </Link>
+        <Link href="/history">
+          <a className={`${location === "/history" ? "bg-background-light hover:bg-gray-700 text-white border-b-2 border-primary" : "text-gray-400"} py-1 px-3 rounded-lg text-sm font-medium`}>
+            History
+          </a>
+        </Link>
       </div>
     </div>
   );
@@ -0,0 +1,153 @@
+/**
+ * Copyright 2025 Hemi Labs. All rights reserved.
+ */
+
+/**
+ * AllowancesPanel.tsx - Approval settings and allowance management modal
+ *
+ * This component lets the user control how much the VUSD contracts may spend:
+ * - Approval mode setting: exact amount per swap (default) or unlimited
+ * - Current USDC/USDT/DAI/VUSD allowances to the Minter and Redeemer
+ * - A revoke action for every non-zero allowance
+ */
+
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { useAllowances, TokenAllowance } from "@/hooks/useAllowances";
+import { useWeb3 } from "@/hooks/useWeb3";
+import { useToast } from "@/hooks/use-toast";
+import { useSettingsStore } from "@/store/settingsStore";
+import { formatAmount } from "@/lib/utils";
+import { requiresZeroFirst } from "@/lib/approvals";
+import { errorToast } from "@/lib/errors";
+import { RefreshCw } from "lucide-react";
+
+interface AllowancesPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Modal component for approval settings and allowance revocation.
+ *
+ * @param {AllowancesPanelProps} props - Component properties
+ * @param {boolean} props.isOpen - Whether the modal is open
+ * @param {() => void} props.onClose - Function to call when the modal is closed
+ * @returns {JSX.Element} The AllowancesPanel modal
+ */
+const AllowancesPanel = ({ isOpen, onClose }: AllowancesPanelProps) => {
+  const { toast } = useToast();
+  const { isConnected } = useWeb3();
+  const { approvalMode, setApprovalMode } = useSettingsStore();
+  const { allowances, loading, error, revoking, refresh, revoke } = useAllowances();
+
+  const handleRevoke = async (allowance: TokenAllowance) => {
+    try {
+      await revoke(allowance);
+      toast({
+        title: "Allowance Revoked",
+        description: `${allowance.spenderName} can no longer spend your ${allowance.token.symbol}`,
+      });
+    } catch (err) {
+      console.error("Revoke error:", err);
+      toast(errorToast(err, "Revoke Failed", "Failed to revoke allowance"));
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="bg-background-card rounded-2xl max-w-md w-full overflow-hidden border-gray-800">
+        <DialogHeader>
+          <DialogTitle className="font-heading font-semibold text-lg">
+            Approvals
+          </DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Control how much the Minter and Redeemer contracts may spend from your wallet
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="p-3 bg-background-light rounded-xl text-sm">
+          <div className="flex justify-between items-center">
+            <div>
+              <div className="font-medium">Unlimited approvals</div>
+              <div className="text-gray-400 text-xs mt-1">
+                {approvalMode === "unlimited"
+                  ? "One approval per token covers all future swaps"
+                  : "Each swap approves only the amount being swapped"}
+              </div>
+            </div>
+            <Switch
+              checked={approvalMode === "unlimited"}
+              onCheckedChange={checked => setApprovalMode(checked ? "unlimited" : "exact")}
+            />
+          </div>
+        </div>
+
+        <div className="text-sm">
+          <div className="flex justify-between items-center mb-2">
+            <span className="text-gray-400">Current allowances</span>
+            {isConnected && (
+              <button
+                className="text-gray-400 hover:text-white"
+                onClick={() => refresh()}
+                disabled={loading}
+                aria-label="Refresh allowances"
+              >
+                <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+              </button>
+            )}
+          </div>
+
+          {!isConnected ? (
+            <div className="text-gray-400">Connect your wallet to view allowances</div>
+          ) : error ? (
+            <div className="text-red-500">{error}</div>
+          ) : (
+            <div className="space-y-2 max-h-72 overflow-y-auto">
+              {allowances.map(allowance => {
+                const key = `${allowance.token.symbol}:${allowance.spenderName}`;
+                const isZero = allowance.amount === BigInt(0);
+
+                return (
+                  <div key={key} className="flex justify-between items-center p-3 bg-background-light rounded-xl">
+                    <div>
+                      <div className="font-medium">
+                        {allowance.token.symbol} <span className="text-gray-400 font-normal">to {allowance.spenderName}</span>
+                      </div>
+                      <div className={allowance.unlimited ? "text-yellow-500 text-xs" : "text-gray-400 text-xs"}>
+                        {allowance.unlimited
+                          ? "Unlimited"
+                          : formatAmount(allowance.amount, allowance.token.decimals)}
+                      </div>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={isZero || revoking !== null}
+                      onClick={() => handleRevoke(allowance)}
+                    >
+                      {revoking === key ? "Revoking..." : "Revoke"}
+                    </Button>
+                  </div>
+                );
+              })}
+              {loading && allowances.length === 0 && (
+                <div className="text-gray-400">Loading allowances...</div>
+              )}
+            </div>
+          )}
+
+          {allowances.some(a => requiresZeroFirst(a.token.address) && a.amount > BigInt(0)) && (
+            <div className="text-gray-400 text-xs mt-2">
+              USDT requires its allowance to be reset to zero before it can be changed, so
+              approving a new USDT amount may ask for two signatures.
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AllowancesPanel;
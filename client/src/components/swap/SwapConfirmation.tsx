@@ -0,0 +1,184 @@
+/**
+ * Copyright 2025 Hemi Labs. All rights reserved.
+ */
+
+/**
+ * SwapConfirmation.tsx - Swap review modal component
+ *
+ * This component asks the user to review a swap before it is sent to the wallet.
+ * It summarizes:
+ * - The input and output tokens and amounts
+ * - The underlying operation (mint or redeem) and its fee
+ * - The recipient of the output tokens, highlighted when it is not the connected wallet
+ * - The result of simulating the swap: the amount the contracts would pay out,
+ *   the estimated network fee in ETH and USD, or why the swap would revert
+ *
+ * The swap is only submitted once the user presses the confirm button, which
+ * stays disabled until the simulation passes.
+ */
+
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { formatAmount, shortenAddress } from "@/lib/utils";
+import { ethers } from "ethers";
+import { AlertTriangle, Loader2 } from "lucide-react";
+import { Token } from "@/constants/tokens";
+import { SwapSimulation } from "@/hooks/useSwap";
+
+interface SwapConfirmationProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: () => void;
+  fromToken: Token;
+  toToken: Token;
+  fromAmount: bigint;
+  toAmount: bigint;
+  recipient: string | null;
+  recipientLabel?: string;
+  connectedAddress?: string;
+  simulation: SwapSimulation | null;
+  simulating: boolean;
+  onRetrySimulation: () => void;
+}
+
+/**
+ * Modal component for reviewing a swap before submission.
+ *
+ * @param {SwapConfirmationProps} props - Component properties
+ * @param {boolean} props.isOpen - Whether the modal is open
+ * @param {() => void} props.onClose - Function to call when the review is cancelled
+ * @param {() => void} props.onConfirm - Function to call when the user confirms the swap
+ * @param {string|null} props.recipient - Resolved recipient address, null when sending to self
+ * @param {string} [props.recipientLabel] - What the user typed (e.g., an ENS name), shown next to the address
+ * @param {SwapSimulation|null} props.simulation - Result of simulating the swap, null until it finishes
+ * @param {boolean} props.simulating - Whether the simulation is running
+ * @param {() => void} props.onRetrySimulation - Function to run the simulation again
+ * @returns {JSX.Element} The SwapConfirmation modal
+ *
+ * @remarks
+ * Sending to another address cannot be undone, so the full recipient address
+ * is shown rather than a shortened form.
+ *
+ * When the permit has not been signed yet the call cannot be simulated, so
+ * confirming is allowed with the quoted output and the wallet signs the permit
+ * and swap together.
+ */
+const SwapConfirmation = ({
+  isOpen,
+  onClose,
+  onConfirm,
+  fromToken,
+  toToken,
+  fromAmount,
+  toAmount,
+  recipient,
+  recipientLabel,
+  connectedAddress,
+  simulation,
+  simulating,
+  onRetrySimulation
+}: SwapConfirmationProps) => {
+  const isMint = toToken.symbol === "VUSD";
+  const simulationPassed = !simulating && simulation !== null && simulation.error === null;
+  const receiveAmount = simulation?.expectedOutput ?? toAmount;
+  const showLabel = recipientLabel && recipient && recipientLabel.toLowerCase() !== recipient.toLowerCase();
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="bg-background-card rounded-2xl max-w-md w-full overflow-hidden border-gray-800">
+        <DialogHeader>
+          <DialogTitle className="font-heading font-semibold text-lg">
+            Review Swap
+          </DialogTitle>
+          <DialogDescription className="text-gray-400">
+            {isMint ? "Mint VUSD with the Minter contract (0.01% fee)" : "Redeem VUSD with the Redeemer contract (0.1% fee)"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 text-sm">
+          <div className="p-3 bg-background-light rounded-xl">
+            <div className="flex justify-between items-center mb-1">
+              <span className="text-gray-400">You pay</span>
+              <span className="font-medium">{formatAmount(fromAmount, fromToken.decimals, fromToken.decimals)} {fromToken.symbol}</span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-gray-400">Recipient receives</span>
+              <span className="font-medium">{formatAmount(receiveAmount, toToken.decimals, toToken.decimals)} {toToken.symbol}</span>
+            </div>
+          </div>
+
+          <div className="p-3 bg-background-light rounded-xl">
+            {simulating || !simulation ? (
+              <div className="flex items-center text-gray-400">
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Simulating swap...
+              </div>
+            ) : simulation.error ? (
+              <div className="text-red-500">
+                <div className="flex items-start font-medium">
+                  <AlertTriangle className="h-4 w-4 mr-1 mt-0.5 flex-shrink-0" />
+                  <span>This swap would fail: {simulation.error.title}</span>
+                </div>
+                <div className="text-xs mt-1">{simulation.error.message}</div>
+                {simulation.error.suggestion && (
+                  <div className="text-xs text-gray-400 mt-1">{simulation.error.suggestion}</div>
+                )}
+                {simulation.error.reason && (
+                  <div className="text-xs text-gray-400 mt-1 font-mono break-all">Revert reason: {simulation.error.reason}</div>
+                )}
+                <Button variant="outline" size="sm" className="mt-2" onClick={onRetrySimulation}>
+                  Simulate again
+                </Button>
+              </div>
+            ) : simulation.awaitingPermit ? (
+              <div className="text-gray-400">
+                The swap will be simulated by your wallet after you sign the permit.
+              </div>
+            ) : (
+              <div className="flex justify-between items-center">
+                <span className="text-gray-400">Network fee</span>
+                <span className="font-medium">
+                  {simulation.gasCostWei !== null
+                    ? `${parseFloat(ethers.formatEther(simulation.gasCostWei)).toFixed(5)} ETH`
+                    : "—"}
+                  {simulation.gasCostUsd !== null && (
+                    <span className="text-gray-400 font-normal"> (~${simulation.gasCostUsd.toFixed(2)})</span>
+                  )}
+                </span>
+              </div>
+            )}
+          </div>
+
+          <div className="p-3 bg-background-light rounded-xl">
+            <div className="text-gray-400 mb-1">Recipient</div>
+            {recipient ? (
+              <>
+                {showLabel && <div className="font-medium">{recipientLabel}</div>}
+                <div className="font-mono text-xs break-all">{recipient}</div>
+                <div className="flex items-start mt-2 text-yellow-500 text-xs">
+                  <AlertTriangle className="h-4 w-4 mr-1 flex-shrink-0" />
+                  <span>{toToken.symbol} will be sent to this address, not your connected wallet. Transfers to the wrong address cannot be reversed.</span>
+                </div>
+              </>
+            ) : (
+              <div className="font-medium">
+                Your wallet{connectedAddress ? ` (${shortenAddress(connectedAddress)})` : ""}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex gap-2 mt-2">
+          <Button variant="outline" className="flex-1" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button className="flex-1" onClick={onConfirm} disabled={!simulationPassed}>
+            Confirm Swap
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SwapConfirmation;
@@ -11,23 +11,36 @@
  * - Amount input with real-time price quotes
  * - Token swap direction toggle
  * - Exchange rate and fee display
+ * - Optional "send to another address" recipient with ENS and checksum validation
  * - Swap execution button with appropriate error handling
+ * - Review step that simulates the swap and shows the expected output, gas cost and
+ *   any revert reason before the swap is sent; confirming requires a passing simulation
+ * - Approval settings (exact or unlimited) and allowance revocation panel
+ * - Which approval path is used: a permit signature batched with the swap, or an approve transaction
  * - Transaction status modal showing pending/success/error states
+ * - Notice for pending transactions still tracked from earlier sessions
  * 
  * The interface abstracts the underlying mint/redeem contract operations to present a unified "swap" experience.
  */
 
 import { useState, useEffect, useMemo } from "react";
-import { ArrowDown } from "lucide-react";
+import { ArrowDown, Settings } from "lucide-react";
 import TokenSelector from "./TokenSelector";
 import TransactionStatus from "./TransactionStatus";
+import SwapConfirmation from "./SwapConfirmation";
+import AllowancesPanel from "./AllowancesPanel";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { useSwap } from "@/hooks/useSwap";
+import { useSwap, SwapSimulation } from "@/hooks/useSwap";
 import { useWeb3 } from "@/hooks/useWeb3";
 import { useToast } from "@/hooks/use-toast";
-import { formatAmount, calculateExchangeRate, parseInputAmount } from "@/lib/utils";
+import { formatAmount, calculateExchangeRate, shortenAddress, tokenUnit } from "@/lib/utils";
 import { SUPPORTED_TOKENS, Token } from "@/constants/tokens";
+import { useTransactionStore } from "@/store/transactionStore";
+import { DecodedError, decodeError, errorToast } from "@/lib/errors";
+import { Link } from "wouter";
+
+const ZERO = BigInt(0);
 
 /**
  * Main token swap interface component for exchanging between VUSD and stablecoins.
@@ -62,35 +75,75 @@ const SwapInterface = () => {
     inputAmount,
     outputAmount,
     fee,
+    exactSide,
     swapTokens,
     setInputToken,
     setOutputToken,
-    setInputAmount,
-    setOutputAmount,
+    inputValue,
+    outputValue,
+    setInputValue,
+    setOutputValue,
+    setMaxInput,
     executeSwap,
+    simulateSwap,
     approveTokens,
     loading,
     checkingApproval,
     needsApproval,
-    estimateSwap
+    approvalPath,
+    limits,
+    applyMaxAllowed,
+    estimateSwap,
+    estimateSwapReverse,
+    recipientInput,
+    recipient,
+    recipientError,
+    resolvingRecipient,
+    setRecipientInput
   } = useSwap();
 
   const [showTokenSelector, setShowTokenSelector] = useState(false);
   const [selectingFor, setSelectingFor] = useState<"input" | "output">("input");
   const [txStatus, setTxStatus] = useState<"none" | "pending" | "success" | "error">("none");
   const [txHash, setTxHash] = useState("");
+  const [txError, setTxError] = useState<DecodedError | null>(null);
+  const [showRecipient, setShowRecipient] = useState(false);
+  const [showConfirmation, setShowConfirmation] = useState(false);
+  const [simulation, setSimulation] = useState<SwapSimulation | null>(null);
+  const [simulating, setSimulating] = useState(false);
+  const [showAllowances, setShowAllowances] = useState(false);
+  const pendingCount = useTransactionStore(state =>
+    address
+      ? state.transactions.filter(tx => tx.account === address.toLowerCase() && tx.status === "pending").length
+      : 0
+  );
+  
+  // Helper function to get token decimals - memoized to prevent redundant lookups
+  const getTokenDecimals = useMemo(() => {
+    return (symbol: string): number => {
+      const token = SUPPORTED_TOKENS.find((t) => t.symbol === symbol);
+      return token?.decimals || 18; // Default to 18 if not found
+    };
+  }, []);
+  
+  // Smallest swappable amount (0.0001 tokens) in the input token's base units
+  const minInputAmount = tokenUnit(getTokenDecimals(inputToken)) / BigInt(10000);
   
   /**
-   * Automatically updates the expected output amount when swap parameters change.
+   * Automatically updates the quoted field when swap parameters change.
    * 
-   * This effect triggers a new swap estimation whenever the input amount or
-   * either token selection changes, keeping the output value in sync.
+   * This effect triggers a new swap estimation whenever the exact amount or
+   * either token selection changes, keeping the other field in sync:
+   * - Exact input: quotes the output with estimateSwap
+   * - Exact output: solves for the required input with estimateSwapReverse
    */
   // Use a separate useEffect for estimating swap amounts with debounce to prevent rapid re-renders
   useEffect(() => {
-    // Skip estimate if any required values are missing
-    if (!inputAmount || inputAmount <= 0 || !inputToken || !outputToken) {
-      setOutputAmount(0);
+    if (exactSide !== "input") return;
+    
+    // Clear the quote immediately if any required values are missing
+    if (inputAmount <= ZERO || !inputToken || !outputToken) {
+      estimateSwap(ZERO, inputToken, outputToken);
       return;
     }
     
@@ -101,37 +154,52 @@ const SwapInterface = () => {
     
     // Clear timeout on cleanup
     return () => clearTimeout(debouncedEstimate);
-  }, [inputAmount, inputToken, outputToken, estimateSwap, setOutputAmount]);
-
-  // Use state to track the raw input string for better input experience
-  const [rawInputValue, setRawInputValue] = useState("");
+  }, [exactSide, inputAmount, inputToken, outputToken, estimateSwap]);
+  
+  useEffect(() => {
+    if (exactSide !== "output") return;
+    
+    if (outputAmount <= ZERO || !inputToken || !outputToken) {
+      estimateSwapReverse(ZERO, inputToken, outputToken);
+      return;
+    }
+    
+    const debouncedEstimate = setTimeout(() => {
+      estimateSwapReverse(outputAmount, inputToken, outputToken);
+    }, 500);
+    
+    return () => clearTimeout(debouncedEstimate);
+  }, [exactSide, outputAmount, inputToken, outputToken, estimateSwapReverse]);
+  
+  /**
+   * Checks whether a typed amount is an acceptable partial or complete decimal.
+   * Allows empty input, a single decimal point, and leading zeros ("0.", ".01").
+   * Precision beyond the token's decimals is rejected by the hook setters.
+   */
+  const isValidAmountInput = (value: string) => (
+    value === "" || 
+    value === "." || 
+    /^(0|[1-9]\d*)(\.\d*)?$/.test(value) ||  // handles "0", "0.", "0.1", "0.01", etc.
+    /^\.\d*$/.test(value)                     // handles ".1", ".01", etc.
+  );
   
   // Handle input change with proper decimal and leading zero support
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
     
-    // Allow empty input, single decimal point, or valid number patterns including leading zeros
-    if (
-      value === "" || 
-      value === "." || 
-      value === "0" || 
-      value === "0." ||
-      /^(0|[1-9]\d*)(\.\d*)?$/.test(value) ||  // handles "0", "0.", "0.1", "0.01", etc.
-      /^\.\d*$/.test(value)                     // handles ".1", ".01", etc.
-    ) {
-      // Store the raw value for display purposes
-      setRawInputValue(value);
-      
-      // Convert to number for calculations (0 if empty or just decimal point)
-      const numericValue = value === "" || value === "." ? 0 : parseFloat(value);
-      setInputAmount(numericValue);
+    if (isValidAmountInput(value)) {
+      // The hook keeps the raw text for display and parses it into base units
+      setInputValue(value);
     }
   };
 
+  // Typing into the output field makes it the exact side and quotes the input in reverse
   const handleOutputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
-    setOutputAmount(parseInputAmount(value));
-    // In a real implementation, we would estimate the input based on the output
+    
+    if (isValidAmountInput(value)) {
+      setOutputValue(value);
+    }
   };
 
   /**
@@ -146,8 +214,9 @@ const SwapInterface = () => {
    * This follows a cascading flow of actions:
    * 1. Connect wallet if not connected
    * 2. Switch to Ethereum if on a different network
-   * 3. Approve token spending if needed
-   * 4. Execute the swap if all requirements are met
+   * 3. Block amounts over the mint cap or the redeemable liquidity
+   * 4. Approve token spending if needed
+   * 5. Execute the swap if all requirements are met
    */
   // Determine button state outside of render cycle
   // This avoids the constant recalculation that's happening
@@ -183,24 +252,40 @@ const SwapInterface = () => {
       newText = "Switch to Ethereum";
       newDisabled = false;
     }
-    // Case 3: No amount entered or below minimum threshold for executing swap
-    else if (!inputAmount || inputAmount < 0.0001) {
+    // Case 3: Amount breaks the Minter's cap or the Redeemer's liquidity for this token
+    else if (limits.exceeded === "mintCap") {
+      newText = "Exceeds mint cap";
+      newDisabled = true;
+    }
+    else if (limits.exceeded === "redeemLiquidity") {
+      newText = `Only ${formatAmount(limits.redeemable ?? ZERO, getTokenDecimals(outputToken), 2)} ${outputToken} redeemable`;
+      newDisabled = true;
+    }
+    // Case 4: No amount entered or below minimum threshold for executing swap
+    else if (inputAmount < minInputAmount) {
       newText = "Enter amount (min 0.0001)";
       newDisabled = true;
     }
-    // Case 4: Insufficient balance (only check if input amount is valid)
-    else if (inputAmount > 0 && balances[inputToken] < inputAmount) {
+    // Case 5: Insufficient balance (only check if input amount is valid)
+    else if ((balances[inputToken] ?? ZERO) < inputAmount) {
       newText = `Insufficient ${inputToken} balance`;
       newDisabled = true;
     }
-    // Case 5: Needs approval (only relevant for non-zero amounts)
-    else if (needsApproval) {
+    // Case 6: Recipient entered but not yet valid
+    else if (showRecipient && recipientInput.trim() && (resolvingRecipient || recipientError)) {
+      newText = resolvingRecipient ? "Resolving recipient..." : "Invalid recipient";
+      newDisabled = true;
+    }
+    // Case 7: Needs approval (only relevant for non-zero amounts); the permit
+    // path signs the approval as part of the swap instead of a separate transaction
+    else if (needsApproval && approvalPath === "approve") {
       newText = "Approve";
       newDisabled = false;
     }
-    // Case 6: Ready to swap
+    // Case 8: Ready to swap
     else {
-      newText = "Swap";
+      const action = recipient ? "Swap and Send" : "Swap";
+      newText = needsApproval ? `Sign and ${action}` : action;
       newDisabled = false;
     }
     
@@ -220,10 +305,19 @@ const SwapInterface = () => {
     isMainnet,
     // Using a memo pattern to only update when significant changes occur
     // Boolean flags to minimize dependency changes
-    Boolean(inputAmount > 0), 
+    Boolean(inputAmount < minInputAmount), 
     inputToken,
-    Boolean(balances[inputToken] < inputAmount),
+    outputToken,
+    limits.exceeded,
+    limits.redeemable,
+    Boolean((balances[inputToken] ?? ZERO) < inputAmount),
+    showRecipient,
+    Boolean(recipientInput.trim()),
+    recipient,
+    recipientError,
+    resolvingRecipient,
     needsApproval,
+    approvalPath,
     loading,
     checkingApproval,
     isUpdatingButton
@@ -256,50 +350,66 @@ const SwapInterface = () => {
       return;
     }
     
-    // Step 3: Approve tokens if needed
-    if (needsApproval) {
+    // Step 3: Approve tokens if needed (the permit path approves within the swap)
+    if (needsApproval && approvalPath === "approve") {
       try {
         setTxStatus("pending");
         const tx = await approveTokens();
-        setTxHash(tx.hash);
+        if (tx) setTxHash(tx.hash);
         toast({
           title: "Approval Successful",
           description: "You can now proceed with the swap",
         });
       } catch (error) {
         console.error("Approval error:", error);
-        toast({
-          title: "Approval Failed",
-          description: (error as Error).message || "Failed to approve token spending",
-          variant: "destructive"
-        });
+        toast(errorToast(error, "Approval Failed", "Failed to approve token spending"));
       } finally {
         setTxStatus("none");
       }
       return;
     }
     
-    // Step 4: Execute the swap
+    // Step 4: Review the simulated swap; it is sent from the review modal
+    setShowConfirmation(true);
+    await runSimulation();
+  };
+
+  /**
+   * Dry-runs the swap for the review modal.
+   */
+  const runSimulation = async () => {
+    setSimulation(null);
+    setSimulating(true);
+    try {
+      setSimulation(await simulateSwap());
+    } finally {
+      setSimulating(false);
+    }
+  };
+
+  /**
+   * Sends the swap transaction and drives the transaction status modal.
+   */
+  const submitSwap = async () => {
+    setShowConfirmation(false);
     setTxStatus("pending");
+    setTxError(null);
     try {
       const tx = await executeSwap();
       setTxHash(tx.hash);
       setTxStatus("success");
     } catch (error) {
       console.error("Swap error:", error);
+      setTxError(decodeError(error));
       setTxStatus("error");
-      toast({
-        title: "Transaction Failed",
-        description: (error as Error).message || "An error occurred during the swap",
-        variant: "destructive"
-      });
+      // Reverts of mined transactions are reported by the pending transaction tracker
+      if ((error as { receipt?: unknown }).receipt) return;
+      toast(errorToast(error, undefined, "An error occurred during the swap"));
     }
   };
 
   const switchTokens = () => {
-    setInputToken(outputToken);
-    setOutputToken(inputToken);
-    setInputAmount(outputAmount);
+    swapTokens();
   };
 
   const openTokenSelector = (type: "input" | "output") => {
@@ -337,9 +447,21 @@ const SwapInterface = () => {
     setShowTokenSelector(false);
   };
 
+  /**
+   * Shows or hides the recipient field. Hiding it clears the recipient so
+   * swaps go back to the connected wallet.
+   */
+  const toggleRecipient = () => {
+    if (showRecipient) {
+      setRecipientInput("");
+    }
+    setShowRecipient(!showRecipient);
+  };
+
   const closeTransactionModal = () => {
     setTxStatus("none");
     setTxHash("");
+    setTxError(null);
   };
 
   // Get appropriate token colors - memoized to prevent repeated switch evaluations
@@ -360,22 +482,15 @@ const SwapInterface = () => {
     return (symbol: string) => SUPPORTED_TOKENS.find(t => t.symbol === symbol) || SUPPORTED_TOKENS[0];
   }, []);
   
-  // Helper function to get token decimals - memoized to prevent redundant lookups
-  const getTokenDecimals = useMemo(() => {
-    return (symbol: string): number => {
-      const token = SUPPORTED_TOKENS.find((t) => t.symbol === symbol);
-      return token?.decimals || 18; // Default to 18 if not found
-    };
-  }, []);
-  
   // Memoize exchange rate calculation to prevent recalculation on every render
   const exchangeRateDisplay = useMemo(() => {
     return calculateExchangeRate(
-      inputAmount || 0,
-      outputAmount || 0,
+      inputAmount,
+      outputAmount,
       inputToken,
       outputToken,
-      Math.max(getTokenDecimals(inputToken), getTokenDecimals(outputToken))
+      getTokenDecimals(inputToken),
+      getTokenDecimals(outputToken)
     );
   }, [inputAmount, outputAmount, inputToken, outputToken, getTokenDecimals]);
 
@@ -383,7 +498,16 @@ const SwapInterface = () => {
     <>
       <div className="swap-container mb-8">
         <div className="px-6 py-4 border-b border-gray-800">
-          <h2 className="font-heading font-semibold text-xl">Swap</h2>
+          <div className="flex justify-between items-center">
+            <h2 className="font-heading font-semibold text-xl">Swap</h2>
+            <button
+              className="text-gray-400 hover:text-white"
+              onClick={() => setShowAllowances(true)}
+              aria-label="Approval settings"
+            >
+              <Settings className="h-5 w-5" />
+            </button>
+          </div>
           <p className="text-gray-400 text-sm mt-1">
             {outputToken === 'VUSD' 
               ? 'Swap stablecoins for VUSD (0.01% fee)' 
@@ -395,17 +519,15 @@ const SwapInterface = () => {
           {/* From Token Input */}
           <div className="bg-background-light rounded-xl p-4 mb-2">
             <div className="flex justify-between items-center mb-2">
-              <label className="text-sm text-gray-400">From</label>
+              <label className="text-sm text-gray-400">
+                From{exactSide === "output" && <span className="ml-1 text-xs text-gray-500">(estimated)</span>}
+              </label>
               <div className="flex items-center text-sm text-gray-400">
                 <span>Balance: </span>
-                <span className="mr-2">{isConnected ? formatAmount(balances[inputToken] || 0, getTokenDecimals(inputToken)) : "-"}</span>
-                {isConnected && balances[inputToken] > 0 && (
+                <span className="mr-2">{isConnected ? formatAmount(balances[inputToken] ?? ZERO, getTokenDecimals(inputToken)) : "-"}</span>
+                {isConnected && (balances[inputToken] ?? ZERO) > ZERO && (
                   <button 
-                    onClick={() => {
-                      // Update both raw input value and numeric amount
-                      setRawInputValue(balances[inputToken].toString());
-                      setInputAmount(balances[inputToken]);
-                    }}
+                    onClick={setMaxInput}
                     className="bg-background hover:bg-primary/10 text-primary text-xs font-medium px-2 py-0.5 rounded"
                   >
                     MAX
@@ -420,7 +542,7 @@ const SwapInterface = () => {
                 inputMode="decimal"
                 placeholder="0.0"
                 className="bg-transparent text-xl font-medium w-full border-none focus-visible:ring-0 focus-visible:ring-offset-0"
-                value={rawInputValue}
+                value={inputValue}
                 onChange={handleInputChange}
               />
               
@@ -454,20 +576,22 @@ const SwapInterface = () => {
           {/* To Token Input */}
           <div className="bg-background-light rounded-xl p-4 mt-2 mb-4">
             <div className="flex justify-between items-center mb-2">
-              <label className="text-sm text-gray-400">To</label>
+              <label className="text-sm text-gray-400">
+                To{exactSide === "output" && <span className="ml-1 text-xs text-primary">(exact)</span>}
+              </label>
               <div className="text-sm text-gray-400">
-                Balance: <span>{isConnected ? formatAmount(balances[outputToken] || 0, getTokenDecimals(outputToken)) : "-"}</span>
+                Balance: <span>{isConnected ? formatAmount(balances[outputToken] ?? ZERO, getTokenDecimals(outputToken)) : "-"}</span>
               </div>
             </div>
             
             <div className="flex items-center">
               <Input
-                type="number"
+                type="text"
+                inputMode="decimal"
                 placeholder="0.0"
                 className="bg-transparent text-xl font-medium w-full border-none focus-visible:ring-0 focus-visible:ring-offset-0"
-                value={outputAmount || ""}
+                value={outputValue}
                 onChange={handleOutputChange}
-                readOnly={true}
               />
               
               <button 
@@ -487,6 +611,42 @@ const SwapInterface = () => {
             </div>
           </div>
           
+          {/* Optional Recipient */}
+          <div className="mb-4">
+            <button
+              className="text-primary hover:text-primary-light text-sm font-medium"
+              onClick={toggleRecipient}
+            >
+              {showRecipient ? "Send to my wallet" : "Send to another address"}
+            </button>
+            
+            {showRecipient && (
+              <div className="bg-background-light rounded-xl p-4 mt-2">
+                <label className="text-sm text-gray-400">Recipient</label>
+                <Input
+                  type="text"
+                  placeholder="0x... or ENS name"
+                  spellCheck={false}
+                  autoComplete="off"
+                  className="bg-transparent font-mono text-sm w-full border-none px-0 focus-visible:ring-0 focus-visible:ring-offset-0"
+                  value={recipientInput}
+                  onChange={(e) => setRecipientInput(e.target.value)}
+                />
+                <div className="text-xs mt-1">
+                  {resolvingRecipient ? (
+                    <span className="text-gray-400">Resolving...</span>
+                  ) : recipientError ? (
+                    <span className="text-red-500">{recipientError}</span>
+                  ) : recipient ? (
+                    <span className="text-green-500">{outputToken} will be sent to {shortenAddress(recipient)}</span>
+                  ) : recipientInput.trim() ? (
+                    <span className="text-gray-400">This is your connected wallet</span>
+                  ) : null}
+                </div>
+              </div>
+            )}
+          </div>
+          
           {/* Exchange Rate & Fee Info */}
           <div className="text-sm mb-4">
             <div className="flex justify-between items-center mb-1">
@@ -508,8 +668,64 @@ const SwapInterface = () => {
               <span className="text-gray-400">Slippage</span>
               <span className="text-gray-300">0% (Zero slippage)</span>
             </div>
+            {needsApproval && (
+              <div className="flex justify-between items-center mt-1">
+                <span className="text-gray-400">Approval</span>
+                <span className="text-gray-300">
+                  {approvalPath === "permit"
+                    ? "Permit signature (batched with swap)"
+                    : "Separate approve transaction"}
+                </span>
+              </div>
+            )}
+            {outputToken === 'VUSD' && limits.availableMintage !== null && (
+              <div className="flex justify-between items-center mt-1">
+                <span className="text-gray-400">Mint capacity</span>
+                <span className={limits.exceeded === "mintCap" ? "text-yellow-500" : "text-gray-300"}>
+                  {formatAmount(limits.availableMintage, 18, 0)}
+                  {limits.maxMintLimit !== null && ` of ${formatAmount(limits.maxMintLimit, 18, 0)}`} VUSD
+                </span>
+              </div>
+            )}
+            {outputToken !== 'VUSD' && limits.redeemable !== null && (
+              <div className="flex justify-between items-center mt-1">
+                <span className="text-gray-400">Redeemable liquidity</span>
+                <span className={limits.exceeded === "redeemLiquidity" ? "text-yellow-500" : "text-gray-300"}>
+                  {formatAmount(limits.redeemable, getTokenDecimals(outputToken), 2)} {outputToken}
+                </span>
+              </div>
+            )}
           </div>
           
+          {/* Offer the largest amount the caps allow when the entered amount is too large */}
+          {limits.exceeded && (
+            <div className="flex justify-between items-center text-sm mb-4 p-3 rounded-xl bg-yellow-500/10 text-yellow-500">
+              <span>
+                {limits.exceeded === "mintCap"
+                  ? "This amount would exceed the VUSD mint cap."
+                  : `The treasury cannot cover this much ${outputToken} right now.`}
+              </span>
+              <button
+                className="ml-2 text-primary hover:text-primary-light font-medium whitespace-nowrap"
+                onClick={applyMaxAllowed}
+              >
+                Use max allowed
+              </button>
+            </div>
+          )}
+          
+          {/* Pending swaps from earlier (possibly before a reload) are still being tracked */}
+          {pendingCount > 0 && txStatus === "none" && (
+            <div className="flex justify-between items-center text-sm mb-4 p-3 rounded-xl bg-blue-500/10 text-blue-500">
+              <span>
+                {pendingCount === 1 ? "1 transaction is" : `${pendingCount} transactions are`} pending
+              </span>
+              <Link href="/history">
+                <a className="text-primary hover:text-primary-light font-medium">View history</a>
+              </Link>
+            </div>
+          )}
+          
           {/* Smart Cascading Swap Button - separate display logic from state */}
           <Button
             className="w-full font-medium rounded-xl py-6 text-base"
@@ -543,6 +759,31 @@ const SwapInterface = () => {
         excludeToken={selectingFor === "input" ? outputToken : inputToken}
       />
       
+      {/* Swap Review Modal */}
+      <SwapConfirmation
+        isOpen={showConfirmation}
+        onClose={() => setShowConfirmation(false)}
+        onConfirm={submitSwap}
+        simulation={simulation}
+        simulating={simulating}
+        onRetrySimulation={runSimulation}
+        fromToken={getTokenData(inputToken)}
+        toToken={getTokenData(outputToken)}
+        fromAmount={inputAmount}
+        toAmount={outputAmount}
+        recipient={recipient}
+        recipientLabel={recipientInput.trim()}
+        connectedAddress={address}
+      />
+      
+      {/* Approval Settings Modal - mounted only while open so allowances are read on demand */}
+      {showAllowances && (
+        <AllowancesPanel
+          isOpen={showAllowances}
+          onClose={() => setShowAllowances(false)}
+        />
+      )}
+      
       {/* Transaction Status Modal */}
       <TransactionStatus
         isOpen={txStatus !== "none"}
@@ -551,8 +792,9 @@ const SwapInterface = () => {
         txHash={txHash}
         fromToken={getTokenData(inputToken)}
         toToken={getTokenData(outputToken)}
-        fromAmount={inputAmount || 0}
-        toAmount={outputAmount || 0}
+        fromAmount={inputAmount}
+        toAmount={outputAmount}
+        error={txError}
       />
     </>
   );
@@ -27,7 +27,7 @@ interface TokenSelectorProps {
   isOpen: boolean;
   onClose: () => void;
   onSelectToken: (token: Token) => void;
-  balances: Record<string, number>;
+  balances: Record<string, bigint>;
   excludeToken?: string;
 }
 
@@ -38,7 +38,7 @@ interface TokenSelectorProps {
  * @param {boolean} props.isOpen - Whether the modal is open
  * @param {() => void} props.onClose - Function to call when closing the modal
  * @param {(token: Token) => void} props.onSelectToken - Callback for when a token is selected
- * @param {Record<string, number>} props.balances - Current token balances for the connected wallet
+ * @param {Record<string, bigint>} props.balances - Current token balances for the connected wallet, in base units
  * @param {string} [props.excludeToken] - Token symbol to exclude from the selection list
  * @returns {JSX.Element} The TokenSelector modal
  * 
@@ -129,7 +129,7 @@ const TokenSelector = ({
                   </div>
                 </div>
                 <div className="text-right text-sm text-gray-400">
-                  Balance: {isConnected ? formatAmount(balances[token.symbol] || 0) : "-"}
+                  Balance: {isConnected ? formatAmount(balances[token.symbol] ?? BigInt(0), token.decimals) : "-"}
                 </div>
               </button>
             ))}
@@ -9,7 +9,7 @@
  * It provides visual feedback for:
  * - Pending transactions with a loading spinner
  * - Successful transactions with a confirmation message and details
- * - Failed transactions with error information
+ * - Failed transactions with the decoded error and a suggested fix
  * 
  * The modal includes:
  * - Transaction summary (from token, to token, amounts)
@@ -23,6 +23,8 @@ import { Button } from "@/components/ui/button";
 import { formatAmount } from "@/lib/utils";
 import { CheckCircle, XCircle, Loader2 } from "lucide-react";
 import { Token } from "@/constants/tokens";
+import { SUPPORTED_CHAINS } from "@/constants/contracts";
+import { DecodedError } from "@/lib/errors";
 
 interface TransactionStatusProps {
   isOpen: boolean;
@@ -31,8 +33,9 @@ interface TransactionStatusProps {
   txHash: string;
   fromToken: Token;
   toToken: Token;
-  fromAmount: number;
-  toAmount: number;
+  fromAmount: bigint;
+  toAmount: bigint;
+  error?: DecodedError | null;
 }
 
 const TransactionStatus = ({
@@ -43,7 +46,8 @@ const TransactionStatus = ({
   fromToken,
   toToken,
   fromAmount,
-  toAmount
+  toAmount,
+  error
 }: TransactionStatusProps) => {
   const getStatusIcon = () => {
     switch (status) {
@@ -77,7 +81,7 @@ const TransactionStatus = ({
       case "success":
         return `Swap Transaction Successful`;
       case "error":
-        return `Swap Transaction Failed`;
+        return error?.kind === "rejected" ? "Swap Cancelled" : `Swap Transaction Failed`;
       default:
         return "";
     }
@@ -88,9 +92,9 @@ const TransactionStatus = ({
       case "pending":
         return "Your transaction is awaiting confirmation on the Ethereum blockchain. This may take a few minutes.";
       case "success":
-        return `You've successfully swapped ${formatAmount(fromAmount, fromToken.decimals, true)} ${fromToken.symbol} for ${formatAmount(toAmount, toToken.decimals, true)} ${toToken.symbol}`;
+        return `You've successfully swapped ${formatAmount(fromAmount, fromToken.decimals, fromToken.decimals)} ${fromToken.symbol} for ${formatAmount(toAmount, toToken.decimals, toToken.decimals)} ${toToken.symbol}`;
       case "error":
-        return `There was an error processing your swap`;
+        return error ? error.message : `There was an error processing your swap`;
       default:
         return "";
     }
@@ -124,6 +128,13 @@ const TransactionStatus = ({
           <h4 className="font-heading font-semibold text-xl mb-2">{getStatusTitle()}</h4>
           <p className="text-gray-400 mb-6">{getStatusDescription()}</p>
           
+          {status === "error" && error?.suggestion && (
+            <div className="p-3 bg-background-light rounded-xl mb-4 text-sm text-left">
+              <div className="font-medium mb-1">{error.title}</div>
+              <div className="text-gray-400">{error.suggestion}</div>
+            </div>
+          )}
+          
           {status !== "pending" && (
             <div className="p-3 bg-background-light rounded-xl mb-4">
               <div className="flex flex-col sm:flex-row justify-between items-center">
@@ -135,7 +146,7 @@ const TransactionStatus = ({
                     </span>
                   </div>
                   <div>
-                    <div className="font-medium">{formatAmount(fromAmount, fromToken.decimals, true)} {fromToken.symbol}</div>
+                    <div className="font-medium">{formatAmount(fromAmount, fromToken.decimals, fromToken.decimals)} {fromToken.symbol}</div>
                   </div>
                 </div>
                 
@@ -149,7 +160,7 @@ const TransactionStatus = ({
                 {/* To Token */}
                 <div className="flex items-center">
                   <div>
-                    <div className="font-medium">{formatAmount(toAmount, toToken.decimals, true)} {toToken.symbol}</div>
+                    <div className="font-medium">{formatAmount(toAmount, toToken.decimals, toToken.decimals)} {toToken.symbol}</div>
                   </div>
                   <div className={`w-8 h-8 rounded-full overflow-hidden ${getTokenIconClass(toToken.symbol)} ml-3 flex items-center justify-center`}>
                     <span className="font-bold text-white">
@@ -164,7 +175,7 @@ const TransactionStatus = ({
           <div className="flex flex-col space-y-2">
             {txHash && (
               <a 
-                href={`https://etherscan.io/tx/${txHash}`} 
+                href={`${SUPPORTED_CHAINS.ethereum.blockExplorer}/tx/${txHash}`} 
                 target="_blank" 
                 rel="noopener noreferrer" 
                 className="text-primary hover:text-primary-light text-sm font-medium flex items-center justify-center mb-2"
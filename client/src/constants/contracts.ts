@@ -7,6 +7,20 @@ export const VUSD_ADDRESS = '0x677ddbd918637E5F2c79e164D402454dE7dA8619'; // VUS
 export const MINTER_ADDRESS = '0xFd22Bcf90d63748288913336Cd38BBC0e681e298'; // Minter contract address
 export const REDEEMER_ADDRESS = '0xA860fe124fDABD43672EAD85183daE6f2df0421d'; // Redeemer contract address
 export const TREASURY_ADDRESS = '0x239A4bF81759774bdC3D0a0244E56A667fdB81bf'; // Treasury contract address
+export const ETH_USD_FEED_ADDRESS = '0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419'; // Chainlink ETH/USD price feed
+export const WETH_ADDRESS = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2'; // Wrapped ETH, used to price ETH
+export const UNISWAP_V3_POSITION_MANAGER_ADDRESS = '0xC36442b4a4522E871399CD717aBDD847Ab11FE88'; // Uniswap V3 position NFTs
+export const UNISWAP_V3_FACTORY_ADDRESS = '0x1F98431c8aD98523631AE4a59f267346ea31F984'; // Uniswap V3 pool factory
+export const CURVE_STABLESWAP_NG_FACTORY_ADDRESS = '0x6A8cbed756804B16E05E741eDaBd5cB544AE21bf'; // Curve stable-swap NG pool factory
+
+// Chainlink USD feeds for assets the Treasury has no oracle for, keyed by lowercase token address
+export const CHAINLINK_USD_FEEDS: Record<string, string> = {
+  [WETH_ADDRESS.toLowerCase()]: ETH_USD_FEED_ADDRESS,
+  '0xae7ab96520de3a18e5e111b5eaab095312d7fe84': '0xCfE54B5cD566aB89272946F602D76Ea879CAb4a8', // stETH/USD
+};
+
+// Earliest block scanned when rebuilding history from event logs (predates the VUSD deployment)
+export const HISTORY_START_BLOCK = 12000000;
 
 // Network configurations
 export const SUPPORTED_CHAINS = {
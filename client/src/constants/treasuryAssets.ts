@@ -11,20 +11,53 @@
  * - T1 Assets: High-quality stablecoins (USDC, USDT, DAI) that are directly 1:1 convertible with VUSD
  * - T2 Assets: Secondary assets that require special valuation methods:
  *   - Staked ETH (Lido's stETH) with exchange rate conversion
- *   - LP tokens with complex valuation based on reserve ratios
+ *   - Uniswap-V2-style LP tokens (SushiSwap) with valuation based on reserve ratios
+ *   - Curve stable-swap LP tokens, valued from the virtual price and pool balances
+ *   - Uniswap V3 positions (NFTs), valued from the position's liquidity and ticks
  *   - Generic ERC20 tokens
+ *   - Tokens that could not be read as ERC20s, which are listed as unpriced
+ * 
+ * T2 assets are discovered by the server from Transfer logs into the Treasury
+ * (server/assetDiscovery.ts). The assets listed here are known in advance: they are
+ * always checked, even if discovery fails, and keep the names given here.
  * 
  * Each asset type includes the necessary ABI fragments for blockchain interaction and valuation.
  * The module also provides helper functions to look up assets by address or symbol.
  */
 
-// Types of assets in the treasury
+// Types of assets in the treasury; the values are stored with discovered tokens
 export enum AssetType {
-  STAKED_ETH,
-  LP_TOKEN,
-  GENERIC_ERC20
+  STAKED_ETH = 'staked-eth',
+  LP_TOKEN = 'lp-token', // Uniswap V2 and SushiSwap pairs
+  CURVE_LP = 'curve-lp',
+  UNISWAP_V3_POSITION = 'uniswap-v3-position', // Listed from the position manager, not discovered
+  GENERIC_ERC20 = 'generic-erc20',
+  UNPRICED = 'unpriced'
 }
 
+// Lido's exchange rate function
+export const STAKED_ETH_ABI = [
+  'function getPooledEthByShares(uint256 _sharesAmount) external view returns (uint256)'
+];
+
+// Uniswap V2 / SushiSwap pair functions
+export const UNISWAP_V2_PAIR_ABI = [
+  'function getReserves() external view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)',
+  'function token0() external view returns (address)',
+  'function token1() external view returns (address)',
+  'function totalSupply() external view returns (uint256)'
+];
+
+// Curve pool functions; in older pools the LP token is a separate contract whose minter() is the pool.
+// Older pools index coins with int128, newer ones with uint256.
+export const CURVE_POOL_ABI = [
+  'function get_virtual_price() external view returns (uint256)',
+  'function coins(uint256 i) external view returns (address)',
+  'function balances(uint256 i) external view returns (uint256)',
+  'function coins(int128 i) external view returns (address)',
+  'function balances(int128 i) external view returns (uint256)'
+];
+
 // Interface for T2 assets in the treasury
 export interface T2Asset {
   address: string;
@@ -33,6 +66,8 @@ export interface T2Asset {
   decimals: number;
   assetType: AssetType;
   extraAbi: string[];
+  pool?: string; // Curve pool of a CURVE_LP token
+  tokenId?: string; // Position NFT id of a UNISWAP_V3_POSITION
 }
 
 // T2 assets that we know are in the treasury but not in the whitelisted tokens list
@@ -44,10 +79,7 @@ export const T2_ASSETS: T2Asset[] = [
     decimals: 18,
     assetType: AssetType.STAKED_ETH,
     // ABI for stETH specific functions
-    extraAbi: [
-      // Lido's exchange rate function
-      'function getPooledEthByShares(uint256 _sharesAmount) external view returns (uint256)'
-    ]
+    extraAbi: STAKED_ETH_ABI
   },
   {
     address: '0xb90047676cC13e68632c55cB5b7cBd8A4C5A0A8E',
@@ -56,12 +88,7 @@ export const T2_ASSETS: T2Asset[] = [
     decimals: 18,
     assetType: AssetType.LP_TOKEN,
     // ABI for SushiSwap LP specific functions
-    extraAbi: [
-      'function getReserves() external view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)',
-      'function token0() external view returns (address)',
-      'function token1() external view returns (address)',
-      'function totalSupply() external view returns (uint256)'
-    ]
+    extraAbi: UNISWAP_V2_PAIR_ABI
   },
   {
     address: '0xBf97b59b0DFA5F6A27BfD861e661d6E22E6544de',
@@ -70,12 +97,7 @@ export const T2_ASSETS: T2Asset[] = [
     decimals: 18,
     assetType: AssetType.LP_TOKEN,
     // ABI for SushiSwap LP specific functions (same as other LP tokens)
-    extraAbi: [
-      'function getReserves() external view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)',
-      'function token0() external view returns (address)',
-      'function token1() external view returns (address)',
-      'function totalSupply() external view returns (uint256)'
-    ]
+    extraAbi: UNISWAP_V2_PAIR_ABI
   }
 ];
 
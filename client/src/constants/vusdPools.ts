@@ -0,0 +1,53 @@
+/**
+ * Copyright 2025 Hemi Labs. All rights reserved.
+ */
+
+/**
+ * vusdPools.ts - VUSD liquidity pools tracked for market data
+ *
+ * These are the pools linked from externalLinks.ts and held by the Treasury
+ * (see T2_ASSETS). The server reads their on-chain state for spot price,
+ * liquidity and price impact.
+ *
+ * Curve factory pools are identified by their index in the stable-swap NG
+ * factory, as in the Curve UI's URL, and resolved to an address on the server.
+ */
+
+import type { MarketVenue } from '@shared/schema';
+
+export interface VusdPool {
+  id: string;
+  venue: MarketVenue;
+  name: string;
+  address: string | null; // Pool or pair address; null when resolved from curveFactoryIndex
+  curveFactoryIndex?: number; // Index in the Curve stable-swap NG factory's pool_list
+  url: string; // Pool page on the venue
+}
+
+export const VUSD_POOLS: VusdPool[] = [
+  {
+    id: 'curve-crvusd-vusd',
+    venue: 'curve',
+    name: 'crvUSD/VUSD',
+    address: null,
+    curveFactoryIndex: 212,
+    url: 'https://curve.fi/dex/ethereum/pools/factory-stable-ng-212/deposit/'
+  },
+  {
+    id: 'sushiswap-vusd-eth',
+    venue: 'sushiswap',
+    name: 'VUSD/ETH',
+    address: '0xb90047676cC13e68632c55cB5b7cBd8A4C5A0A8E',
+    url: 'https://www.sushi.com/ethereum/pool/v2/0xb90047676cc13e68632c55cb5b7cbd8a4c5a0a8e'
+  },
+  {
+    id: 'sushiswap-vusd-usdc',
+    venue: 'sushiswap',
+    name: 'VUSD/USDC',
+    address: '0xBf97b59b0DFA5F6A27BfD861e661d6E22E6544de',
+    url: 'https://www.sushi.com/ethereum/pool/v2/0xbf97b59b0dfa5f6a27bfd861e661d6e22e6544de'
+  }
+];
+
+// Amounts of VUSD sold when measuring price impact
+export const PRICE_IMPACT_SIZES = [10000, 100000, 1000000];
@@ -0,0 +1,140 @@
+/**
+ * Copyright 2025 Hemi Labs. All rights reserved.
+ */
+
+/**
+ * useAllowances.ts - Token allowance overview hook
+ *
+ * This hook lists the connected wallet's current ERC20 allowances to the
+ * VUSD protocol contracts and lets the user revoke them:
+ * - Reads allowances of USDC, USDT, DAI and VUSD to both the Minter and the Redeemer
+ * - Flags unlimited (MaxUint256) allowances
+ * - Revokes an allowance by approving zero, then refreshes the list
+ *
+ * Allowances are loaded when the wallet connects and can be refreshed manually.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { ethers } from 'ethers';
+import { useWeb3 } from './useWeb3';
+import { useEthersContracts } from './useEthersContracts';
+import { SUPPORTED_TOKENS, Token } from '@/constants/tokens';
+import { MINTER_ADDRESS, REDEEMER_ADDRESS } from '@/constants/contracts';
+import { setAllowance } from '@/lib/approvals';
+
+const SPENDERS = [
+  { name: 'Minter', address: MINTER_ADDRESS },
+  { name: 'Redeemer', address: REDEEMER_ADDRESS },
+];
+
+// Anything at or above half of MaxUint256 is treated as unlimited, since some
+// tokens decrement even "infinite" allowances as they are spent
+const UNLIMITED_THRESHOLD = ethers.MaxUint256 / BigInt(2);
+
+export interface TokenAllowance {
+  token: Token;
+  spenderName: string;
+  spender: string;
+  amount: bigint;
+  unlimited: boolean;
+}
+
+/**
+ * Custom hook for reading and revoking allowances to the Minter and Redeemer
+ *
+ * @returns {Object} Allowance list and actions
+ * @property {TokenAllowance[]} allowances - One entry per token/spender pair
+ * @property {boolean} loading - Whether allowances are being read
+ * @property {string | null} error - Error message if the read failed
+ * @property {string | null} revoking - Key (`token:spender`) of the allowance being revoked
+ * @property {Function} refresh - Re-reads all allowances
+ * @property {Function} revoke - Sets one allowance to zero
+ */
+export function useAllowances() {
+  const { address, isConnected } = useWeb3();
+  const { contracts, getConnectedContracts } = useEthersContracts();
+
+  const [allowances, setAllowances] = useState<TokenAllowance[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [revoking, setRevoking] = useState<string | null>(null);
+
+  /**
+   * Reads every token/spender allowance for the connected wallet in parallel.
+   */
+  const refresh = useCallback(async () => {
+    if (!isConnected || !address) {
+      setAllowances([]);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const pairs = SUPPORTED_TOKENS.flatMap(token =>
+        SPENDERS.map(spender => ({ token, spender }))
+      );
+
+      const results = await Promise.all(pairs.map(async ({ token, spender }) => {
+        const tokenContract = contracts.getERC20Contract(token.address);
+        if (!tokenContract) {
+          throw new Error('Contracts not initialized');
+        }
+
+        const amount: bigint = await tokenContract.allowance(address, spender.address);
+        return {
+          token,
+          spenderName: spender.name,
+          spender: spender.address,
+          amount,
+          unlimited: amount >= UNLIMITED_THRESHOLD,
+        };
+      }));
+
+      setAllowances(results);
+    } catch (err) {
+      console.error('Error fetching allowances:', err);
+      setError((err as Error).message || 'Failed to load allowances');
+    } finally {
+      setLoading(false);
+    }
+  }, [address, isConnected, contracts]);
+
+  /**
+   * Revokes an allowance by approving zero for the given token and spender.
+   *
+   * @param {TokenAllowance} allowance - The allowance to revoke
+   * @returns {Promise<ethers.ContractTransactionResponse | null>} The revoke transaction
+   */
+  const revoke = useCallback(async (allowance: TokenAllowance) => {
+    if (!isConnected || !address) {
+      throw new Error('Wallet not connected');
+    }
+
+    try {
+      setRevoking(`${allowance.token.symbol}:${allowance.spenderName}`);
+      const connectedContracts = await getConnectedContracts();
+      const tokenContract = connectedContracts.getERC20Contract(allowance.token.address);
+
+      const tx = await setAllowance(tokenContract, address, allowance.spender, BigInt(0));
+      await refresh();
+      return tx;
+    } finally {
+      setRevoking(null);
+    }
+  }, [address, isConnected, getConnectedContracts, refresh]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    allowances,
+    loading,
+    error,
+    revoking,
+    refresh,
+    revoke,
+  };
+}
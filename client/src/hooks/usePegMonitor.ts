@@ -0,0 +1,68 @@
+/**
+ * Copyright 2025 Hemi Labs. All rights reserved.
+ */
+
+/**
+ * usePegMonitor.ts - Hook for the VUSD peg monitor
+ *
+ * This hook provides the server's latest comparison of the VUSD pools with
+ * the mint/redeem band, including arbitrage hints, and the peg events (periods
+ * a pool spent outside the band) of the last PEG_EVENT_DAYS days.
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import type { PegEvent, PegStatusResponse } from '@shared/schema';
+
+// How far back peg events are shown and stability is measured
+export const PEG_EVENT_DAYS = 30;
+
+// The monitor checks the pools every 10 minutes
+const REFRESH_INTERVAL = 5 * 60 * 1000; // 5 minutes in milliseconds
+
+/**
+ * Fetches the peg events of the last PEG_EVENT_DAYS days.
+ */
+const fetchPegEvents = async (): Promise<PegEvent[]> => {
+  const from = Math.floor(Date.now() / 1000) - PEG_EVENT_DAYS * 24 * 60 * 60;
+  const res = await apiRequest('GET', `/api/market/peg/events?from=${from}`);
+  return res.json();
+};
+
+/**
+ * Custom hook providing the peg status and recent peg events.
+ *
+ * @returns {Object} The peg data and its status
+ * @property {PegStatusResponse | null} status - The latest comparison with the band
+ * @property {PegEvent[]} events - Peg events of the last PEG_EVENT_DAYS days, oldest first
+ * @property {boolean} loading - Whether the status is being fetched for the first time
+ * @property {string | null} error - Error message if the status could not be fetched
+ *
+ * @example
+ * const { status, events } = usePegMonitor();
+ */
+export function usePegMonitor() {
+  const statusQuery = useQuery<PegStatusResponse>({
+    queryKey: ['/api/market/peg'],
+    refetchInterval: REFRESH_INTERVAL,
+    refetchOnWindowFocus: false
+  });
+
+  const eventsQuery = useQuery<PegEvent[]>({
+    queryKey: ['/api/market/peg/events', PEG_EVENT_DAYS],
+    queryFn: fetchPegEvents,
+    refetchInterval: REFRESH_INTERVAL,
+    refetchOnWindowFocus: false
+  });
+
+  const error = statusQuery.error
+    ? (statusQuery.error instanceof Error ? statusQuery.error.message : 'Failed to fetch peg status')
+    : null;
+
+  return {
+    status: statusQuery.data || null,
+    events: eventsQuery.data ?? [],
+    loading: statusQuery.isLoading,
+    error
+  };
+}
@@ -0,0 +1,221 @@
+/**
+ * Copyright 2025 Hemi Labs. All rights reserved.
+ */
+
+/**
+ * usePendingTransactions.ts - Pending transaction tracker
+ *
+ * This hook watches the connected wallet's pending swaps recorded in the
+ * transaction store, and keeps watching them after a page reload:
+ * - Polls for receipts and marks each transaction confirmed or failed
+ * - Detects replacement: once the account's confirmed nonce passes a pending
+ *   transaction's nonce without a receipt, it finds the block that used the
+ *   nonce by binary search over the account's nonce, and classifies the
+ *   transaction in it as sped up, cancelled or replaced. If none is found the
+ *   transaction stays pending rather than being reported as replaced
+ * - Shows a toast for every outcome
+ *
+ * It should be mounted once, near the application root.
+ */
+
+import { useEffect, useMemo, useRef } from 'react';
+import { ethers } from 'ethers';
+import { useWeb3 } from './useWeb3';
+import { useEthersContracts } from './useEthersContracts';
+import { useToast } from './use-toast';
+import { LocalTransaction, useTransactionStore } from '@/store/transactionStore';
+
+const POLL_INTERVAL = 5000;
+
+// Blocks searched for the transaction that took over a pending nonce, when the
+// block the transaction was sent at is not recorded
+const MAX_REPLACEMENT_SCAN = 500;
+
+type ReplacementKind = 'repriced' | 'cancelled' | 'replaced';
+
+/**
+ * Finds the first block in a range at which an account's nonce is past
+ * `nonce`, i.e. the block that mined the transaction using it.
+ *
+ * @remarks
+ * Binary search over getTransactionCount, so only about log2(range) calls are
+ * made instead of fetching every block.
+ */
+async function findNonceBlock(
+  provider: ethers.Provider,
+  account: string,
+  nonce: number,
+  fromBlock: number,
+  toBlock: number
+): Promise<number | null> {
+  if (await provider.getTransactionCount(account, toBlock) <= nonce) return null;
+
+  let low = fromBlock;
+  let high = toBlock;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (await provider.getTransactionCount(account, mid) > nonce) {
+      high = mid;
+    } else {
+      low = mid + 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * Finds the mined transaction that used a recorded transaction's nonce.
+ *
+ * @returns The replacement and how it relates to the original, or null if it
+ *          could not be found
+ *
+ * @remarks
+ * Classification follows ethers' TransactionResponse.wait(): same destination
+ * and calldata means the wallet sped it up; an empty zero-value transaction to
+ * self means it was cancelled; anything else is a different transaction.
+ */
+async function findReplacement(
+  provider: ethers.Provider,
+  record: LocalTransaction
+): Promise<{ tx: ethers.TransactionResponse; kind: ReplacementKind } | null> {
+  if (record.nonce === null) return null;
+
+  const latestBlock = await provider.getBlockNumber();
+  const fromBlock = Math.min(record.startBlock ?? Math.max(0, latestBlock - MAX_REPLACEMENT_SCAN), latestBlock);
+  const blockNumber = await findNonceBlock(provider, record.account, record.nonce, fromBlock, latestBlock);
+  if (blockNumber === null) return null;
+
+  const block = await provider.getBlock(blockNumber, true);
+  const tx = block?.prefetchedTransactions.find(candidate =>
+    candidate.from.toLowerCase() === record.account && candidate.nonce === record.nonce
+  );
+  if (!tx) return null;
+
+  const sameCall = record.to !== null &&
+    tx.to?.toLowerCase() === record.to.toLowerCase() &&
+    tx.data === record.data;
+  const cancelled = tx.data === '0x' &&
+    tx.to?.toLowerCase() === record.account &&
+    tx.value === BigInt(0);
+
+  return { tx, kind: sameCall ? 'repriced' : cancelled ? 'cancelled' : 'replaced' };
+}
+
+/**
+ * Custom hook that tracks the connected wallet's pending swaps until they resolve
+ *
+ * @returns {Object} Pending transaction summary
+ * @property {LocalTransaction[]} pending - Pending transactions of the connected wallet
+ */
+export function usePendingTransactions() {
+  const { address, isConnected } = useWeb3();
+  const { contracts } = useEthersContracts();
+  const { toast } = useToast();
+  const transactions = useTransactionStore(state => state.transactions);
+  const updateTransaction = useTransactionStore(state => state.updateTransaction);
+  // Transactions whose replacement could not be found; they stay pending and are not searched again
+  const unresolved = useRef(new Set<string>());
+
+  const pending = useMemo(
+    () => address
+      ? transactions.filter(tx => tx.account === address.toLowerCase() && tx.status === 'pending')
+      : [],
+    [transactions, address]
+  );
+
+  useEffect(() => {
+    const provider = contracts.vusd?.runner?.provider;
+    if (!isConnected || !address || !provider || pending.length === 0) {
+      return;
+    }
+
+    let isActive = true;
+    let checking = false;
+
+    const describe = (record: LocalTransaction) =>
+      `${record.type === 'mint' ? 'Mint' : 'Redeem'} of ${record.fromToken} to ${record.toToken}`;
+
+    const checkPending = async () => {
+      if (checking) return;
+      checking = true;
+
+      try {
+        // Fetch the nonce before the receipts: if it has moved past a transaction
+        // that still has no receipt, a different transaction took its place
+        const confirmedNonce = await provider.getTransactionCount(address, 'latest');
+
+        for (const record of pending) {
+          if (!isActive) return;
+
+          const receipt = await provider.getTransactionReceipt(record.hash);
+          if (receipt) {
+            const succeeded = receipt.status === 1;
+            updateTransaction(record.hash, {
+              status: succeeded ? 'confirmed' : 'failed',
+              blockNumber: receipt.blockNumber,
+            });
+            toast({
+              title: succeeded ? 'Transaction Confirmed' : 'Transaction Reverted',
+              description: succeeded
+                ? `${describe(record)} confirmed in block ${receipt.blockNumber}`
+                : `${describe(record)} was reverted by the contract`,
+              variant: succeeded ? 'default' : 'destructive',
+            });
+            continue;
+          }
+
+          if (record.nonce === null || confirmedNonce <= record.nonce || unresolved.current.has(record.hash)) {
+            continue;
+          }
+
+          const replacement = await findReplacement(provider, record);
+          if (!isActive) return;
+
+          if (!replacement) {
+            // Its nonce was used but the transaction using it was not found, so
+            // whether the swap executed is unknown: leave it pending
+            console.warn(`Could not find the transaction that used the nonce of ${record.hash}`);
+            unresolved.current.add(record.hash);
+          } else if (replacement.kind === 'repriced') {
+            // Same swap at a higher gas price: follow the new hash
+            updateTransaction(record.hash, {
+              hash: replacement.tx.hash,
+              replacedHash: record.hash,
+            });
+            toast({
+              title: 'Transaction Sped Up',
+              description: `${describe(record)} was resubmitted by your wallet; tracking the new transaction`,
+            });
+          } else {
+            updateTransaction(record.hash, {
+              status: replacement.kind === 'cancelled' ? 'cancelled' : 'replaced',
+            });
+            toast({
+              title: replacement.kind === 'cancelled' ? 'Transaction Cancelled' : 'Transaction Replaced',
+              description: replacement.kind === 'cancelled'
+                ? `${describe(record)} was cancelled in your wallet`
+                : `${describe(record)} was replaced by another transaction and will not be executed`,
+              variant: 'destructive',
+            });
+          }
+        }
+      } catch (error) {
+        console.error('Error checking pending transactions:', error);
+      } finally {
+        checking = false;
+      }
+    };
+
+    checkPending();
+    const interval = setInterval(checkPending, POLL_INTERVAL);
+
+    return () => {
+      isActive = false;
+      clearInterval(interval);
+    };
+  }, [isConnected, address, contracts, pending, toast, updateTransaction]);
+
+  return {
+    pending,
+  };
+}
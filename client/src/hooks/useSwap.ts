@@ -13,8 +13,15 @@
  * Key features:
  * - Real-time balance updates for the connected wallet
  * - Token approval management for ERC20 allowances
+ * - Local record of submitted swaps for the transaction history
  * - Slippage-free swap execution with fixed fees
- * - Transaction status tracking and error handling
+ * - Swap simulation (eth_call + gas estimate) before the user confirms
+ * - Exact-input quotes (forward) and exact-output quotes (reverse) for either field
+ * - Pre-flight checks against the Minter's mint cap and the Redeemer's per-token liquidity
+ * - Amounts carried as bigint base units with a matching display string, so
+ *   18-decimal DAI/VUSD values never lose precision and "Max" leaves no dust
+ * - Optional recipient (address or ENS name) for minted VUSD or redeemed stablecoins
+ * - Transaction status tracking, with contract and wallet errors decoded by lib/errors
  * 
  * Only whitelisted stablecoins (USDC, USDT, DAI) can be swapped with VUSD.
  */
@@ -25,51 +32,209 @@ import { useWeb3 } from './useWeb3';
 import { useEthersContracts } from './useEthersContracts';
 import { useToast } from './use-toast';
 import { SUPPORTED_TOKENS } from '@/constants/tokens';
-import { parseUnits } from 'ethers/lib/utils';
+import { VUSD_ADDRESS } from '@/constants/contracts';
+import { parseInputAmount, toDecimalString, tokenUnit } from '@/lib/utils';
+import { getApprovalAmount, setAllowance } from '@/lib/approvals';
+import {
+  BatchSubmittedError,
+  PermitSupport,
+  buildPermitCall,
+  detectPermitSupport,
+  sendAtomicBatch,
+  supportsAtomicBatch,
+} from '@/lib/permit';
+import {
+  DecodedError,
+  decodeError,
+  decodeRevertReason,
+  errorToast,
+  getRevertReason,
+  isUserRejection,
+} from '@/lib/errors';
+import { getEthUsdPrice } from '@/lib/pricing';
+import { useSettingsStore } from '@/store/settingsStore';
+import { LocalTransactionStatus, useTransactionStore } from '@/store/transactionStore';
 
-type TokenBalances = Record<string, number>;
+type TokenBalances = Record<string, bigint>;
 type SwapDirection = 'toVUSD' | 'fromVUSD';
+type ExactSide = 'input' | 'output';
+
+/**
+ * How an insufficient allowance is handled: a signed permit sent in the same
+ * wallet batch as the swap, or a separate approve transaction.
+ */
+export type ApprovalPath = 'permit' | 'approve';
+
+/**
+ * Result of dry-running a swap with staticCall and estimateGas.
+ */
+export interface SwapSimulation {
+  /** Output the contracts quote for this input, in the output token's base units */
+  expectedOutput: bigint | null;
+  gasLimit: bigint | null;
+  /** Gas limit times the current max fee per gas */
+  gasCostWei: bigint | null;
+  gasCostUsd: number | null;
+  /** The permit is not signed yet, so the call itself could not be simulated */
+  awaitingPermit: boolean;
+  /** Why the swap would fail; null when the simulation passed */
+  error: DecodedError | null;
+}
+
+/**
+ * On-chain caps that apply to the current swap, fetched together with the quote.
+ * 
+ * - availableMintage / maxMintLimit: Minter caps in VUSD base units (mint only)
+ * - redeemable: Redeemer liquidity for the output token in its base units (redeem only)
+ * - exceeded: Which cap the current amount would break, if any
+ */
+export interface SwapLimits {
+  availableMintage: bigint | null;
+  maxMintLimit: bigint | null;
+  redeemable: bigint | null;
+  exceeded: 'mintCap' | 'redeemLiquidity' | null;
+}
+
+const EMPTY_LIMITS: SwapLimits = {
+  availableMintage: null,
+  maxMintLimit: null,
+  redeemable: null,
+  exceeded: null,
+};
+
+const ZERO = BigInt(0);
+
+// Fee denominator used by both the Minter (MAX_BPS) and the Redeemer (MAX_REDEEM_FEE)
+const FEE_DENOMINATOR = BigInt(10000);
+
+/**
+ * Integer division rounding up, used so reverse quotes never undershoot.
+ */
+const ceilDiv = (a: bigint, b: bigint): bigint => (a + b - BigInt(1)) / b;
+
+/**
+ * Drops typed fraction digits beyond a token's precision.
+ */
+const truncateFraction = (value: string, decimals: number): string => {
+  const [whole, fraction] = value.split('.');
+  return fraction !== undefined && fraction.length > decimals
+    ? `${whole}.${fraction.slice(0, decimals)}`
+    : value;
+};
+
+/**
+ * Searches for the smallest input whose forward quote reaches a target output.
+ * 
+ * @async
+ * @param target - Desired output amount in the output token's base units
+ * @param initialGuess - Starting input estimate derived from fees and decimals
+ * @param quote - Forward quote function returning the output for a given input
+ * @returns {Promise<bigint>} Input amount in base units whose quote is at least target
+ * 
+ * @remarks
+ * The contracts only expose forward quotes, and the oracle price is applied
+ * on-chain, so the initial guess (which assumes a $1 price) is refined by
+ * scaling it with the ratio between the target and the quoted output.
+ * A few iterations are enough because the quote is linear apart from rounding.
+ * 
+ * @throws {Error} If no input produces the target (e.g. not enough liquidity)
+ */
+const solveExactInput = async (
+  target: bigint,
+  initialGuess: bigint,
+  quote: (amountIn: bigint) => Promise<bigint>
+): Promise<bigint> => {
+  const one = BigInt(1);
+  let amountIn = initialGuess > one ? initialGuess : one;
+  let best: bigint | null = null;
+  
+  for (let i = 0; i < 4; i++) {
+    const out = await quote(amountIn);
+    if (out <= BigInt(0)) break;
+    
+    if (out >= target && (best === null || amountIn < best)) {
+      best = amountIn;
+    }
+    
+    const next = ceilDiv(amountIn * target, out);
+    if (next === amountIn) break;
+    amountIn = out < target && next <= amountIn ? amountIn + one : next;
+  }
+  
+  if (best === null) {
+    throw new Error('Unable to quote the requested output amount');
+  }
+  return best;
+};
 
 /**
  * Custom hook providing token swap functionality between VUSD and stablecoins.
  * 
  * @returns {Object} Swap state and functions
- * @property {Object} balances - Current token balances for the connected wallet
+ * @property {Object} balances - Current token balances for the connected wallet, in base units
  * @property {string} inputToken - Selected input token symbol
  * @property {string} outputToken - Selected output token symbol
- * @property {number} inputAmount - Amount to swap in human-readable format
- * @property {number} outputAmount - Expected output amount in human-readable format
+ * @property {bigint} inputAmount - Amount to swap in the input token's base units
+ * @property {bigint} outputAmount - Expected output amount in the output token's base units
+ * @property {string} inputValue - Display string for the input field
+ * @property {string} outputValue - Display string for the output field
  * @property {number} fee - Current fee percentage for the selected swap
+ * @property {ExactSide} exactSide - Which field the user typed ('input' or 'output'); the other is quoted
+ * @property {SwapLimits} limits - Mint cap and redeem liquidity for the current swap
  * @property {boolean} loading - Whether a swap operation is in progress
+ * @property {string} recipientInput - Raw recipient text (address or ENS name), empty for self
+ * @property {string|null} recipient - Resolved checksummed recipient address, null for self
+ * @property {string|null} recipientError - Validation error for the recipient input
+ * @property {boolean} resolvingRecipient - Whether an ENS lookup is in progress
  * @property {Function} setInputToken - Function to change the input token
  * @property {Function} setOutputToken - Function to change the output token
- * @property {Function} setInputAmount - Function to update the input amount
- * @property {Function} setOutputAmount - Function to update the output amount
+ * @property {Function} setInputValue - Function to update the input field from typed text
+ * @property {Function} setOutputValue - Function to update the output field from typed text
+ * @property {Function} setMaxInput - Function to set the input to the full wallet balance
+ * @property {Function} applyMaxAllowed - Function to set the input to the largest amount the caps allow
+ * @property {Function} setRecipientInput - Function to update the recipient text
  * @property {Function} swapTokens - Function to reverse the swap direction
  * @property {Function} executeSwap - Function to perform the swap transaction
+ * @property {Function} simulateSwap - Function to dry-run the swap and estimate its gas cost
+ * @property {Function} setExactSide - Function to mark which field is exact
  * @property {Function} estimateSwap - Function to calculate expected output amount
+ * @property {Function} estimateSwapReverse - Function to calculate the input needed for an exact output
  * @property {Function} refreshBalances - Function to refresh token balances
  */
 export const useSwap = () => {
   const { toast } = useToast();
   const { address, isConnected } = useWeb3();
   const { contracts, getConnectedContracts } = useEthersContracts();
+  const approvalMode = useSettingsStore(state => state.approvalMode);
+  const addTransaction = useTransactionStore(state => state.addTransaction);
   
   const [balances, setBalances] = useState<TokenBalances>({
-    VUSD: 0,
-    USDC: 0,
-    USDT: 0,
-    DAI: 0,
+    VUSD: ZERO,
+    USDC: ZERO,
+    USDT: ZERO,
+    DAI: ZERO,
   });
   
   const [inputToken, setInputToken] = useState<string>('USDC');
   const [outputToken, setOutputToken] = useState<string>('VUSD');
-  const [inputAmount, setInputAmount] = useState<number>(0);
-  const [outputAmount, setOutputAmount] = useState<number>(0);
+  const [inputAmount, setInputAmount] = useState<bigint>(ZERO);
+  const [outputAmount, setOutputAmount] = useState<bigint>(ZERO);
+  const [inputValue, setInputValueState] = useState<string>('');
+  const [outputValue, setOutputValueState] = useState<string>('');
   const [fee, setFee] = useState<number>(0.003); // Default 0.3% fee
+  const [exactSide, setExactSide] = useState<ExactSide>('input');
+  const [limits, setLimits] = useState<SwapLimits>(EMPTY_LIMITS);
   const [loading, setLoading] = useState<boolean>(false);
   const [needsApproval, setNeedsApproval] = useState<boolean>(false);
   const [checkingApproval, setCheckingApproval] = useState<boolean>(false);
+  const [approvalPath, setApprovalPath] = useState<ApprovalPath>('approve');
+  const [permitSupport, setPermitSupport] = useState<PermitSupport | null>(null);
+  const [recipientInput, setRecipientInput] = useState<string>('');
+  const [recipient, setRecipient] = useState<string | null>(null);
+  const [recipientError, setRecipientError] = useState<string | null>(null);
+  // Whether the recipient input resolved to the connected wallet, leaving recipient null
+  const [recipientIsSelf, setRecipientIsSelf] = useState<boolean>(false);
+  const [resolvingRecipient, setResolvingRecipient] = useState<boolean>(false);
   
   /**
    * Retrieves the number of decimal places for a given token symbol.
@@ -115,6 +280,57 @@ export const useSwap = () => {
     return outputToken === 'VUSD' ? 'toVUSD' : 'fromVUSD';
   }, [outputToken]);
   
+  /**
+   * Resolves a recipient entered by the user into a checksummed address.
+   * 
+   * @async
+   * @param value - A hex address or an ENS name (e.g., "treasury.eth")
+   * @returns {Promise<string>} The checksummed recipient address
+   * 
+   * @remarks
+   * Hex addresses are validated with ethers.getAddress, which rejects
+   * mixed-case addresses with an invalid EIP-55 checksum. Anything containing
+   * a dot is treated as an ENS name and resolved through the read-only provider.
+   * The zero address and the VUSD token contract are rejected because funds
+   * sent there cannot be recovered.
+   * 
+   * @throws {Error} With a user-facing message when the recipient is invalid
+   */
+  const resolveRecipient = useCallback(async (value: string): Promise<string> => {
+    const trimmed = value.trim();
+    let resolved: string;
+    
+    if (/^0x[0-9a-fA-F]{40}$/.test(trimmed)) {
+      try {
+        resolved = ethers.getAddress(trimmed);
+      } catch {
+        throw new Error('Address checksum is invalid');
+      }
+    } else if (trimmed.includes('.')) {
+      const provider = contracts.vusd?.runner?.provider;
+      if (!provider) {
+        throw new Error('Provider not available to resolve ENS name');
+      }
+      
+      const ensAddress = await provider.resolveName(trimmed);
+      if (!ensAddress) {
+        throw new Error(`${trimmed} does not resolve to an address`);
+      }
+      resolved = ethers.getAddress(ensAddress);
+    } else {
+      throw new Error('Enter a valid address or ENS name');
+    }
+    
+    if (resolved === ethers.ZeroAddress) {
+      throw new Error('Cannot send to the zero address');
+    }
+    if (resolved.toLowerCase() === VUSD_ADDRESS.toLowerCase()) {
+      throw new Error('Cannot send to the VUSD token contract');
+    }
+    
+    return resolved;
+  }, [contracts]);
+  
   /**
    * Fetches token balances for all supported tokens from the blockchain.
    * 
@@ -123,8 +339,8 @@ export const useSwap = () => {
    * 
    * @remarks
    * This function retrieves balances for all supported tokens (VUSD, USDC, USDT, DAI)
-   * using the appropriate contract calls. It handles each token's specific decimal precision
-   * and updates the balances state with human-readable numeric values.
+   * using the appropriate contract calls. Balances are stored as raw base units so
+   * they can be compared against amounts and used for "Max" without rounding.
    * 
    * @throws Logs errors to console but doesn't propagate them to prevent UI disruption
    */
@@ -137,12 +353,12 @@ export const useSwap = () => {
       for (const token of SUPPORTED_TOKENS) {
         if (token.symbol === 'VUSD') {
           const balance = await contracts.vusd.balanceOf(address);
-          newBalances.VUSD = parseFloat(ethers.formatUnits(balance, token.decimals));
+          newBalances.VUSD = balance;
         } else {
           const erc20Contract = contracts.getERC20Contract(token.address);
           if (erc20Contract) {
             const balance = await erc20Contract.balanceOf(address);
-            newBalances[token.symbol] = parseFloat(ethers.formatUnits(balance, token.decimals));
+            newBalances[token.symbol] = balance;
           }
         }
       }
@@ -157,7 +373,7 @@ export const useSwap = () => {
    * Calculates the expected output amount for a given swap.
    * 
    * @async
-   * @param amount - The input amount to swap
+   * @param amount - The input amount to swap, in the input token's base units
    * @param fromToken - The token symbol being swapped from
    * @param toToken - The token symbol being swapped to
    * @returns {Promise<void>} - Updates state with output amount and fee
@@ -167,19 +383,23 @@ export const useSwap = () => {
    * - For toVUSD: Calls Minter.calculateMintage with 0.01% fee
    * - For fromVUSD: Calls Redeemer.redeemable with 0.1% fee
    * 
-   * The output amounts are converted to human-readable numbers with appropriate decimal
-   * precision for each token. Fees are retrieved from the contracts and stored as percentages.
+   * The quoted output is stored in base units together with its exact display string.
+   * Fees are retrieved from the contracts and stored as percentages.
    * 
    * @throws Displays a toast notification to the user on errors
    */
-  const estimateSwap = useCallback(async (amount: number, fromToken: string, toToken: string) => {
-    if (!amount || amount <= 0) {
-      setOutputAmount(0);
+  const estimateSwap = useCallback(async (amount: bigint, fromToken: string, toToken: string) => {
+    if (amount <= ZERO) {
+      setOutputAmount(ZERO);
+      setOutputValueState('');
+      setLimits(EMPTY_LIMITS);
       return;
     }
     
-    // Use a local loading variable to avoid triggering re-renders
-    let isEstimating = true;
+    const { minter, redeemer } = contracts;
+    if (!minter || !redeemer) return;
+    
+    const direction: SwapDirection = toToken === 'VUSD' ? 'toVUSD' : 'fromVUSD';
     
     try {
       // Only set the loading state if it's a user-initiated action, not an automatic calculation
@@ -187,46 +407,67 @@ export const useSwap = () => {
         setLoading(true);
       }
       
-      const direction: SwapDirection = toToken === 'VUSD' ? 'toVUSD' : 'fromVUSD';
-      
       if (direction === 'toVUSD') {
         // Minting VUSD
         const fromTokenAddress = getTokenAddress(fromToken);
-        const fromTokenDecimals = getTokenDecimals(fromToken);
-        const amountIn = ethers.parseUnits(amount.toString(), fromTokenDecimals);
-        
-        const mintage = await contracts.minter.calculateMintage(fromTokenAddress, amountIn);
-        setOutputAmount(parseFloat(ethers.formatUnits(mintage, 18)));
         
-        // Get minting fee
-        const mintingFee = await contracts.minter.mintingFee();
+        // Get minting fee and caps alongside the quote
+        const [mintingFee, availableMintage, maxMintLimit]: bigint[] = await Promise.all([
+          minter.mintingFee(),
+          minter.availableMintage(),
+          minter.maxMintLimit(),
+        ]);
         setFee(parseFloat(ethers.formatUnits(mintingFee, 4)) / 100);
+        
+        // calculateMintage reverts with "mint-limit-reached" past the cap, so check
+        // first using a $1 price (the oracle is held within a tight tolerance of it)
+        const approxMintage = amount * tokenUnit(18 - getTokenDecimals(fromToken)) * (FEE_DENOMINATOR - mintingFee) / FEE_DENOMINATOR;
+        const exceeded = approxMintage > availableMintage ? 'mintCap' : null;
+        setLimits({ availableMintage, maxMintLimit, redeemable: null, exceeded });
+        
+        if (exceeded) {
+          setOutputAmount(ZERO);
+          setOutputValueState('');
+          return;
+        }
+        
+        const mintage: bigint = await minter.calculateMintage(fromTokenAddress, amount);
+        setOutputAmount(mintage);
+        setOutputValueState(toDecimalString(mintage, 18));
       } else {
         // Redeeming VUSD
         const toTokenAddress = getTokenAddress(toToken);
-        const amountIn = ethers.parseUnits(amount.toString(), 18); // VUSD has 18 decimals
         
         // Use getFunction to disambiguate between overloaded functions
-        const redeemableFunc = contracts.redeemer.getFunction("redeemable(address,uint256)");
-        const redeemable = await redeemableFunc(toTokenAddress, amountIn);
-        const toTokenDecimals = getTokenDecimals(toToken);
-        setOutputAmount(parseFloat(ethers.formatUnits(redeemable, toTokenDecimals)));
-        
-        // Get redeem fee
-        const redeemFee = await contracts.redeemer.redeemFee();
+        const redeemableFunc = redeemer.getFunction("redeemable(address,uint256)");
+        const liquidityFunc = redeemer.getFunction("redeemable(address)");
+        const [redeemable, liquidity, redeemFee]: bigint[] = await Promise.all([
+          redeemableFunc(toTokenAddress, amount),
+          liquidityFunc(toTokenAddress),
+          redeemer.redeemFee(),
+        ]);
         setFee(parseFloat(ethers.formatUnits(redeemFee, 4)) / 100);
+        
+        // redeemable(token, amount) returns 0 when the amount is more than the treasury holds
+        const exceeded = redeemable === ZERO ? 'redeemLiquidity' : null;
+        setLimits({ availableMintage: null, maxMintLimit: null, redeemable: liquidity, exceeded });
+        
+        setOutputAmount(redeemable);
+        setOutputValueState(exceeded ? '' : toDecimalString(redeemable, getTokenDecimals(toToken)));
       }
     } catch (error) {
       console.error('Error estimating swap:', error);
-      setOutputAmount(0);
-      toast({
-        title: 'Estimation Error',
-        description: 'Failed to estimate swap amount',
-        variant: 'destructive',
-      });
-    } finally {
-      isEstimating = false;
+      setOutputAmount(ZERO);
+      setOutputValueState('');
+      
+      // The oracle price can put the real mintage over the cap even when the $1 estimate is under it
+      if (direction === 'toVUSD' && getRevertReason(error)?.includes('mint-limit-reached')) {
+        setLimits(prev => ({ ...prev, exceeded: 'mintCap' }));
+        return;
+      }
       
+      toast(errorToast(error, 'Estimation Error', 'Failed to estimate swap amount'));
+    } finally {
       // Only reset the loading state if it's a user-initiated action
       if (inputAmount === amount) {
         setLoading(false);
@@ -234,6 +475,231 @@ export const useSwap = () => {
     }
   }, [contracts, getTokenAddress, getTokenDecimals, toast, inputAmount]);
   
+  /**
+   * Calculates the input amount needed to receive an exact output amount.
+   * 
+   * @async
+   * @param amount - The exact output amount the user wants to receive, in the output token's base units
+   * @param fromToken - The token symbol being swapped from
+   * @param toToken - The token symbol being swapped to
+   * @returns {Promise<void>} - Updates state with the required input amount and fee
+   * 
+   * @remarks
+   * This is the reverse of estimateSwap:
+   * - For toVUSD: Solves Minter.calculateMintage for the stablecoin amount, starting
+   *   from amountOut / (1 - mintingFee) scaled from 18 to the token's decimals
+   * - For fromVUSD: Solves Redeemer.redeemable(token, vusdAmount) for the VUSD amount,
+   *   starting from amountOut / (1 - redeemFee) scaled from the token's decimals to 18
+   * 
+   * The oracle price is only known on-chain, so the initial guess is refined with
+   * forward quotes until the quoted output covers the requested amount.
+   * 
+   * @throws Displays a toast notification to the user on errors
+   */
+  const estimateSwapReverse = useCallback(async (amount: bigint, fromToken: string, toToken: string) => {
+    if (amount <= ZERO) {
+      setInputAmount(ZERO);
+      setInputValueState('');
+      setLimits(EMPTY_LIMITS);
+      return;
+    }
+    
+    const { minter, redeemer } = contracts;
+    if (!minter || !redeemer) return;
+    
+    try {
+      const direction: SwapDirection = toToken === 'VUSD' ? 'toVUSD' : 'fromVUSD';
+      
+      if (direction === 'toVUSD') {
+        // Minting VUSD: solve for the stablecoin amount
+        const fromTokenAddress = getTokenAddress(fromToken);
+        const fromTokenDecimals = getTokenDecimals(fromToken);
+        
+        const [mintingFee, availableMintage, maxMintLimit]: bigint[] = await Promise.all([
+          minter.mintingFee(),
+          minter.availableMintage(),
+          minter.maxMintLimit(),
+        ]);
+        setFee(parseFloat(ethers.formatUnits(mintingFee, 4)) / 100);
+        
+        const exceeded = amount > availableMintage ? 'mintCap' : null;
+        setLimits({ availableMintage, maxMintLimit, redeemable: null, exceeded });
+        if (exceeded) {
+          setInputAmount(ZERO);
+          setInputValueState('');
+          return;
+        }
+        
+        const scale = tokenUnit(18 - fromTokenDecimals);
+        const initialGuess = ceilDiv(ceilDiv(amount, scale) * FEE_DENOMINATOR, FEE_DENOMINATOR - mintingFee);
+        
+        const amountIn = await solveExactInput(amount, initialGuess, (value) =>
+          minter.calculateMintage(fromTokenAddress, value)
+        );
+        
+        setInputAmount(amountIn);
+        setInputValueState(toDecimalString(amountIn, fromTokenDecimals));
+      } else {
+        // Redeeming VUSD: solve for the VUSD amount
+        const toTokenAddress = getTokenAddress(toToken);
+        const toTokenDecimals = getTokenDecimals(toToken);
+        
+        const liquidityFunc = redeemer.getFunction("redeemable(address)");
+        const [redeemFee, liquidity]: bigint[] = await Promise.all([
+          redeemer.redeemFee(),
+          liquidityFunc(toTokenAddress),
+        ]);
+        setFee(parseFloat(ethers.formatUnits(redeemFee, 4)) / 100);
+        
+        const exceeded = amount > liquidity ? 'redeemLiquidity' : null;
+        setLimits({ availableMintage: null, maxMintLimit: null, redeemable: liquidity, exceeded });
+        if (exceeded) {
+          setInputAmount(ZERO);
+          setInputValueState('');
+          return;
+        }
+        
+        const scale = tokenUnit(18 - toTokenDecimals);
+        const initialGuess = ceilDiv(amount * scale * FEE_DENOMINATOR, FEE_DENOMINATOR - redeemFee);
+        
+        // Use getFunction to disambiguate between overloaded functions
+        const redeemableFunc = redeemer.getFunction("redeemable(address,uint256)");
+        const amountIn = await solveExactInput(amount, initialGuess, (value) =>
+          redeemableFunc(toTokenAddress, value)
+        );
+        
+        setInputAmount(amountIn);
+        setInputValueState(toDecimalString(amountIn, 18));
+      }
+    } catch (error) {
+      console.error('Error estimating swap input:', error);
+      setInputAmount(ZERO);
+      setInputValueState('');
+      toast(errorToast(error, 'Estimation Error', 'Failed to estimate the input needed for this amount'));
+    }
+  }, [contracts, getTokenAddress, getTokenDecimals, toast]);
+  
+  /**
+   * Builds the mint or redeem call for the current swap on signer-connected contracts.
+   * 
+   * @async
+   * @returns The swap direction, the contract and function to call with its
+   *          arguments, and the token and spender the allowance applies to
+   * 
+   * @remarks
+   * Shared by simulateSwap and executeSwap so the simulated call is exactly the
+   * one that is sent. When a recipient is set, the receiver overloads are used.
+   */
+  const prepareSwap = useCallback(async () => {
+    const direction = getSwapDirection();
+    const inputTokenAddress = getTokenAddress(inputToken);
+    const outputTokenAddress = getTokenAddress(outputToken);
+    const connectedContracts = await getConnectedContracts();
+    
+    // Minting pulls the input token into the Minter; redeeming burns VUSD through the Redeemer
+    const swapContract = direction === 'toVUSD' ? connectedContracts.minter : connectedContracts.redeemer;
+    const spendToken = direction === 'toVUSD'
+      ? connectedContracts.getERC20Contract(inputTokenAddress)
+      : connectedContracts.vusd;
+    const spender = await swapContract.getAddress();
+    
+    // Use the receiver overloads when sending the output to another address
+    const swapSignature = direction === 'toVUSD'
+      ? (recipient ? "mint(address,uint256,address)" : "mint(address,uint256)")
+      : (recipient ? "redeem(address,uint256,address)" : "redeem(address,uint256)");
+    const swapArgs: (string | bigint)[] = [direction === 'toVUSD' ? inputTokenAddress : outputTokenAddress, inputAmount];
+    if (recipient) swapArgs.push(recipient);
+    
+    return {
+      direction,
+      connectedContracts,
+      swapContract,
+      spendToken,
+      spender,
+      swapSignature,
+      swapArgs,
+      signer: swapContract.runner as ethers.JsonRpcSigner,
+    };
+  }, [inputAmount, inputToken, outputToken, recipient, getSwapDirection, getTokenAddress, getConnectedContracts]);
+  
+  /**
+   * Dry-runs the current swap before it is confirmed.
+   * 
+   * @async
+   * @returns {Promise<SwapSimulation>} Expected output, gas estimate and any revert
+   * 
+   * @remarks
+   * Runs the exact mint or redeem call with staticCall (eth_call) and
+   * estimateGas, so swaps that would revert - for example because the oracle
+   * price is outside the contract's tolerance or a cap is reached - are caught
+   * before the user pays gas. The gas cost uses the current max fee per gas and
+   * Chainlink's ETH/USD feed.
+   * 
+   * Without an allowance (permit path) the call cannot be simulated until the
+   * permit is signed; the expected output is still quoted and `awaitingPermit`
+   * is set. Errors are returned in the result rather than thrown.
+   */
+  const simulateSwap = useCallback(async (): Promise<SwapSimulation> => {
+    const simulation: SwapSimulation = {
+      expectedOutput: null,
+      gasLimit: null,
+      gasCostWei: null,
+      gasCostUsd: null,
+      awaitingPermit: false,
+      error: null,
+    };
+    
+    try {
+      if (!isConnected || !address) {
+        throw new Error('Wallet not connected');
+      }
+      if (inputAmount <= ZERO) {
+        throw new Error('Invalid amount');
+      }
+      
+      const { direction, connectedContracts, swapContract, spendToken, spender, swapSignature, swapArgs, signer } = await prepareSwap();
+      const swapFunction = swapContract.getFunction(swapSignature);
+      
+      // Quote the output from the contracts' own view functions
+      simulation.expectedOutput = direction === 'toVUSD'
+        ? await connectedContracts.minter.calculateMintage(swapArgs[0], inputAmount)
+        : await connectedContracts.redeemer.getFunction("redeemable(address,uint256)")(swapArgs[0], inputAmount);
+      
+      // redeemable() returns 0 instead of reverting when liquidity is short
+      if (direction === 'fromVUSD' && simulation.expectedOutput === ZERO) {
+        simulation.error = decodeRevertReason('redeem-underlying-failed');
+        return simulation;
+      }
+      
+      const allowance: bigint = await spendToken.allowance(address, spender);
+      if (allowance < inputAmount) {
+        simulation.awaitingPermit = true;
+        return simulation;
+      }
+      
+      await swapFunction.staticCall(...swapArgs);
+      simulation.gasLimit = await swapFunction.estimateGas(...swapArgs);
+      
+      const feeData = await signer.provider.getFeeData();
+      const gasPrice = feeData.maxFeePerGas ?? feeData.gasPrice;
+      if (gasPrice !== null) {
+        simulation.gasCostWei = simulation.gasLimit * gasPrice;
+        try {
+          const ethUsd = await getEthUsdPrice(signer.provider);
+          simulation.gasCostUsd = parseFloat(ethers.formatEther(simulation.gasCostWei)) * ethUsd;
+        } catch (error) {
+          // The USD figure is informational; keep the ETH cost if the feed is unavailable
+          console.error('Error fetching ETH price:', error);
+        }
+      }
+    } catch (error) {
+      console.error('Swap simulation failed:', error);
+      simulation.error = decodeError(error);
+    }
+    
+    return simulation;
+  }, [address, isConnected, inputAmount, prepareSwap]);
+  
   /**
    * Executes a token swap transaction, handling approvals and blockchain interactions.
    * 
@@ -242,15 +708,19 @@ export const useSwap = () => {
    * 
    * @remarks
    * This function handles the complete swap workflow:
-   * 1. Validates connection state and input amount
+   * 1. Validates connection state and input amount (for exact-output swaps this is
+   *    the input solved by estimateSwapReverse, so the output covers the requested amount)
    * 2. Determines swap direction (toVUSD or fromVUSD)
-   * 3. Checks token allowance and requests approval if needed
+   * 3. Checks token allowance; if it is too low, either signs a permit and sends
+   *    it batched with the swap (permit path), or sends an approval first
    * 4. Executes the appropriate contract call (mint or redeem)
    * 5. Waits for transaction confirmation
    * 6. Updates token balances after successful transaction
    * 
    * For toVUSD swaps, it calls the Minter.mint function.
    * For fromVUSD swaps, it calls the Redeemer.redeem function.
+   * When a recipient is set, the receiver overloads are used so the output
+   * is delivered straight to that address instead of the connected wallet.
    * 
    * @throws {Error} If wallet is not connected or amount is invalid
    * @throws Propagates any blockchain errors to the caller for handling
@@ -268,62 +738,119 @@ export const useSwap = () => {
       throw new Error('Wallet not connected');
     }
     
-    if (!inputAmount || inputAmount <= 0) {
+    if (inputAmount <= ZERO) {
       throw new Error('Invalid amount');
     }
     
-    const direction = getSwapDirection();
-    const inputTokenAddress = getTokenAddress(inputToken);
-    const outputTokenAddress = getTokenAddress(outputToken);
+    if (recipientInput.trim() && ((!recipient && !recipientIsSelf) || recipientError)) {
+      throw new Error(recipientError || 'Recipient address is not resolved');
+    }
     
     try {
       setLoading(true);
-      const connectedContracts = await getConnectedContracts();
+      const { direction, swapContract, spendToken, spender, swapSignature, swapArgs, signer } = await prepareSwap();
+      const amount = inputAmount;
       
-      if (direction === 'toVUSD') {
-        // Minting VUSD
-        const inputTokenContract = connectedContracts.getERC20Contract(inputTokenAddress);
-        const inputDecimals = getTokenDecimals(inputToken);
-        const amount = ethers.parseUnits(inputAmount.toString(), inputDecimals);
-        
-        // Check allowance
-        const allowance = await inputTokenContract.allowance(address, connectedContracts.minter.target);
-        
-        if (allowance < amount) {
-          // Approve minter to spend tokens
-          const approveTx = await inputTokenContract.approve(connectedContracts.minter.target, ethers.MaxUint256);
-          await approveTx.wait();
+      // Record the swap locally so the history shows it and the pending
+      // transaction tracker keeps watching it across reloads
+      const recordTransaction = (
+        tx: ethers.TransactionResponse,
+        status: LocalTransactionStatus,
+        startBlock: number | null
+      ) => addTransaction({
+        hash: tx.hash,
+        account: address,
+        status,
+        type: direction === 'toVUSD' ? 'mint' : 'redeem',
+        fromToken: inputToken,
+        toToken: outputToken,
+        fromAmount: amount.toString(),
+        toAmount: outputAmount.toString(),
+        recipient,
+        submittedAt: Date.now(),
+        nonce: status === 'pending' ? tx.nonce : null,
+        to: tx.to,
+        data: tx.data,
+        startBlock,
+        blockNumber: tx.blockNumber,
+      });
+      
+      // Check allowance
+      const allowance: bigint = await spendToken.allowance(address, spender);
+      
+      if (allowance < amount && approvalPath === 'permit' && permitSupport) {
+        // Sign a permit and send it together with the swap as one atomic batch
+        let batchMined = false;
+        try {
+          const { chainId } = await signer.provider.getNetwork();
+          const spendTokenAddress = await spendToken.getAddress();
+          
+          const permitCall = await buildPermitCall(
+            signer,
+            spendTokenAddress,
+            permitSupport,
+            spender,
+            getApprovalAmount(approvalMode, amount)
+          );
+          const swapCall = {
+            to: spender,
+            data: swapContract.interface.encodeFunctionData(swapSignature, swapArgs),
+          };
+          
+          // The batch is already mined when sendAtomicBatch returns
+          const txHash = await sendAtomicBatch(signer.provider, address, chainId, [permitCall, swapCall]);
+          batchMined = true;
+          const tx = await signer.provider.getTransaction(txHash);
+          if (!tx) {
+            throw new Error('Batched transaction not found');
+          }
+          recordTransaction(tx, 'confirmed', null);
+          
+          // Refresh balances
+          await fetchBalances();
+          return tx;
+        } catch (error) {
+          // Once the wallet has accepted the batch it may execute, so sending the
+          // swap again through the approve flow could swap twice
+          if (isUserRejection(error) || batchMined || error instanceof BatchSubmittedError) {
+            throw error;
+          }
+          // Signing or batching failed before the wallet accepted the batch:
+          // use the approve transaction for this and later swaps of this token
+          console.warn('Permit flow failed, falling back to approve:', error);
+          setApprovalPath('approve');
         }
-        
-        // Execute mint transaction
-        const tx = await connectedContracts.minter.mint(inputTokenAddress, amount);
+      }
+      
+      if (allowance < amount) {
+        // Approve the spender, sized by the user's approval mode
+        await setAllowance(spendToken, address, spender, getApprovalAmount(approvalMode, amount));
+      }
+      
+      // Execute the mint or redeem transaction - use the exact signature to avoid overload ambiguity
+      const startBlock = await signer.provider.getBlockNumber();
+      const tx: ethers.TransactionResponse = await swapContract.getFunction(swapSignature)(...swapArgs);
+      recordTransaction(tx, 'pending', startBlock);
+      
+      try {
         await tx.wait();
-        
-        // Refresh balances
-        await fetchBalances();
-        return tx;
-      } else {
-        // Redeeming VUSD
-        const amount = ethers.parseUnits(inputAmount.toString(), 18); // VUSD has 18 decimals
-        
-        // Check allowance
-        const allowance = await connectedContracts.vusd.allowance(address, connectedContracts.redeemer.target);
-        
-        if (allowance < amount) {
-          // Approve redeemer to spend VUSD
-          const approveTx = await connectedContracts.vusd.approve(connectedContracts.redeemer.target, ethers.MaxUint256);
-          await approveTx.wait();
+      } catch (error) {
+        // A sped-up transaction is the same swap under a new hash, not a failure
+        if (ethers.isError(error, 'TRANSACTION_REPLACED') && error.reason === 'repriced') {
+          await fetchBalances();
+          return error.replacement;
         }
-        
-        // Execute redeem transaction - use specific function signature to avoid ambiguity
-        const redeemFunc = connectedContracts.redeemer.getFunction("redeem(address,uint256)");
-        const tx = await redeemFunc(outputTokenAddress, amount);
-        await tx.wait();
-        
-        // Refresh balances
-        await fetchBalances();
-        return tx;
+        if (ethers.isError(error, 'TRANSACTION_REPLACED')) {
+          throw new Error(error.reason === 'cancelled'
+            ? 'The transaction was cancelled in your wallet'
+            : 'The transaction was replaced by another transaction from your wallet');
+        }
+        throw error;
       }
+      
+      // Refresh balances
+      await fetchBalances();
+      return tx;
     } catch (error) {
       console.error('Swap execution error:', error);
       throw error;
@@ -333,13 +860,19 @@ export const useSwap = () => {
   }, [
     address, 
     inputAmount, 
+    outputAmount,
     inputToken, 
     outputToken, 
     isConnected, 
-    getSwapDirection, 
-    getTokenAddress, 
-    getTokenDecimals, 
-    getConnectedContracts, 
+    recipient,
+    recipientInput,
+    recipientIsSelf,
+    recipientError,
+    approvalMode,
+    approvalPath,
+    addTransaction,
+    permitSupport,
+    prepareSwap,
     fetchBalances
   ]);
   
@@ -355,6 +888,52 @@ export const useSwap = () => {
     }
   }, [isConnected, fetchBalances]);
   
+  /**
+   * Validates and resolves the recipient input with a short debounce.
+   * 
+   * An empty input means the output goes to the connected wallet. A recipient
+   * equal to the connected wallet is treated the same way so the plain
+   * mint/redeem overloads are used.
+   */
+  useEffect(() => {
+    const value = recipientInput.trim();
+    
+    if (!value) {
+      setRecipient(null);
+      setRecipientIsSelf(false);
+      setRecipientError(null);
+      setResolvingRecipient(false);
+      return;
+    }
+    
+    let isActive = true;
+    setRecipientIsSelf(false);
+    setResolvingRecipient(true);
+    
+    const resolveTimeout = setTimeout(async () => {
+      try {
+        const resolved = await resolveRecipient(value);
+        if (!isActive) return;
+        
+        const isSelf = !!address && resolved.toLowerCase() === address.toLowerCase();
+        setRecipient(isSelf ? null : resolved);
+        setRecipientIsSelf(isSelf);
+        setRecipientError(null);
+      } catch (error) {
+        if (!isActive) return;
+        setRecipient(null);
+        setRecipientError((error as Error).message || 'Invalid recipient');
+      } finally {
+        if (isActive) setResolvingRecipient(false);
+      }
+    }, 400);
+    
+    return () => {
+      isActive = false;
+      clearTimeout(resolveTimeout);
+    };
+  }, [recipientInput, address, resolveRecipient]);
+  
   /**
    * Swaps the positions of input and output tokens and their amounts.
    * 
@@ -370,7 +949,160 @@ export const useSwap = () => {
     setOutputToken(inputToken);
     setInputAmount(outputAmount);
     setOutputAmount(inputAmount);
-  }, [inputToken, outputToken, inputAmount, outputAmount]);
+    setInputValueState(outputValue);
+    setOutputValueState(inputValue);
+    setExactSide('input');
+  }, [inputToken, outputToken, inputAmount, outputAmount, inputValue, outputValue]);
+  
+  /**
+   * Updates the input field from text typed by the user.
+   * 
+   * @param value - The typed text, e.g. "1.5" or a partial value like "0."
+   * @returns {boolean} False if the text was rejected (malformed or too many decimals)
+   * 
+   * @remarks
+   * The text is kept verbatim for display and parsed into base units of the
+   * input token. Typing into the input makes it the exact side of the swap.
+   */
+  const setInputValue = useCallback((value: string): boolean => {
+    const parsed = parseInputAmount(value, getTokenDecimals(inputToken));
+    if (parsed === null) return false;
+    
+    setInputValueState(value);
+    setInputAmount(parsed);
+    setExactSide('input');
+    return true;
+  }, [inputToken, getTokenDecimals]);
+  
+  /**
+   * Updates the output field from text typed by the user.
+   * 
+   * @param value - The typed text in output token units
+   * @returns {boolean} False if the text was rejected (malformed or too many decimals)
+   * 
+   * @remarks
+   * Typing into the output makes it the exact side; the input is then solved
+   * in reverse by estimateSwapReverse.
+   */
+  const setOutputValue = useCallback((value: string): boolean => {
+    const parsed = parseInputAmount(value, getTokenDecimals(outputToken));
+    if (parsed === null) return false;
+    
+    setOutputValueState(value);
+    setOutputAmount(parsed);
+    setExactSide('output');
+    return true;
+  }, [outputToken, getTokenDecimals]);
+  
+  /**
+   * Sets the input to the wallet's full balance of the input token.
+   * 
+   * Uses the raw base-unit balance, so the whole balance is swapped with no dust left behind.
+   */
+  const setMaxInput = useCallback(() => {
+    const balance = balances[inputToken] ?? ZERO;
+    setInputAmount(balance);
+    setInputValueState(toDecimalString(balance, getTokenDecimals(inputToken)));
+    setExactSide('input');
+  }, [balances, inputToken, getTokenDecimals]);
+  
+  /**
+   * Sets the input to the largest amount the mint cap or redeem liquidity allows.
+   * 
+   * @async
+   * @returns {Promise<void>}
+   * 
+   * @remarks
+   * The starting point inverts the fee and decimal conversion at a $1 price:
+   * - For toVUSD: availableMintage / (1 - mintingFee), scaled to the stablecoin's decimals
+   * - For fromVUSD: redeemable(token) / (1 - redeemFee), scaled to 18 decimals
+   * 
+   * Because the oracle price can sit slightly above $1, the candidate is checked with a
+   * forward quote and reduced by 0.01% steps until the contract accepts it. The result
+   * is also capped at the wallet balance.
+   * 
+   * @throws Displays a toast notification to the user on errors
+   */
+  const applyMaxAllowed = useCallback(async () => {
+    const { minter, redeemer } = contracts;
+    if (!minter || !redeemer) return;
+    
+    const direction = getSwapDirection();
+    const shrink = (value: bigint) => value * (FEE_DENOMINATOR - BigInt(1)) / FEE_DENOMINATOR;
+    
+    try {
+      let candidate: bigint;
+      let fitsCap: (value: bigint) => Promise<boolean>;
+      
+      if (direction === 'toVUSD') {
+        const tokenAddress = getTokenAddress(inputToken);
+        const [mintingFee, availableMintage]: bigint[] = await Promise.all([
+          minter.mintingFee(),
+          minter.availableMintage(),
+        ]);
+        candidate = availableMintage / tokenUnit(18 - getTokenDecimals(inputToken)) * FEE_DENOMINATOR / (FEE_DENOMINATOR - mintingFee);
+        fitsCap = async (value) => {
+          try {
+            const mintage: bigint = await minter.calculateMintage(tokenAddress, value);
+            return mintage <= availableMintage;
+          } catch {
+            return false;
+          }
+        };
+      } else {
+        const tokenAddress = getTokenAddress(outputToken);
+        const redeemableFunc = redeemer.getFunction("redeemable(address,uint256)");
+        const liquidityFunc = redeemer.getFunction("redeemable(address)");
+        const [redeemFee, liquidity]: bigint[] = await Promise.all([
+          redeemer.redeemFee(),
+          liquidityFunc(tokenAddress),
+        ]);
+        candidate = liquidity * tokenUnit(18 - getTokenDecimals(outputToken)) * FEE_DENOMINATOR / (FEE_DENOMINATOR - redeemFee);
+        fitsCap = async (value) => (await redeemableFunc(tokenAddress, value)) > ZERO;
+      }
+      
+      const balance = balances[inputToken] ?? ZERO;
+      if (isConnected && balance < candidate) {
+        candidate = balance;
+      }
+      
+      for (let i = 0; i < 5 && candidate > ZERO && !(await fitsCap(candidate)); i++) {
+        candidate = shrink(candidate);
+      }
+      
+      setInputAmount(candidate);
+      setInputValueState(candidate > ZERO ? toDecimalString(candidate, getTokenDecimals(inputToken)) : '');
+      setExactSide('input');
+    } catch (error) {
+      console.error('Error calculating max allowed amount:', error);
+      toast(errorToast(error, 'Estimation Error', 'Failed to calculate the maximum allowed amount'));
+    }
+  }, [contracts, balances, isConnected, inputToken, outputToken, getSwapDirection, getTokenAddress, getTokenDecimals, toast]);
+  
+  /**
+   * Re-parses the typed input and output amounts when a token with different
+   * decimals is selected on either side.
+   * 
+   * The display strings are what the user typed, so they are the source of truth;
+   * digits beyond the new token's precision are dropped.
+   */
+  useEffect(() => {
+    const decimals = getTokenDecimals(inputToken);
+    const value = truncateFraction(inputValue, decimals);
+    
+    setInputValueState(value);
+    setInputAmount(parseInputAmount(value, decimals) ?? ZERO);
+    // Only re-run when the token changes, not on every keystroke
+  }, [inputToken, getTokenDecimals]);
+  
+  useEffect(() => {
+    const decimals = getTokenDecimals(outputToken);
+    const value = truncateFraction(outputValue, decimals);
+    
+    setOutputValueState(value);
+    setOutputAmount(parseInputAmount(value, decimals) ?? ZERO);
+    // Only re-run when the token changes, not on every keystroke
+  }, [outputToken, getTokenDecimals]);
   
   /**
    * Checks if the current swap requires token approval.
@@ -386,7 +1118,7 @@ export const useSwap = () => {
    * - For 'fromVUSD': Checks if the VUSD allowance to Redeemer is sufficient
    */
   const checkApprovalNeeded = useCallback(async (): Promise<boolean> => {
-    if (!isConnected || !address || !inputAmount || inputAmount <= 0) {
+    if (!isConnected || !address || inputAmount <= ZERO) {
       return false;
     }
     
@@ -399,16 +1131,13 @@ export const useSwap = () => {
         // Check approval for input token -> Minter
         const inputTokenAddress = getTokenAddress(inputToken);
         const inputTokenContract = connectedContracts.getERC20Contract(inputTokenAddress);
-        const inputDecimals = getTokenDecimals(inputToken);
-        const amount = ethers.parseUnits(inputAmount.toString(), inputDecimals);
         
         const allowance = await inputTokenContract.allowance(address, connectedContracts.minter.target);
-        return allowance < amount;
+        return allowance < inputAmount;
       } else {
         // Check approval for VUSD -> Redeemer
-        const amount = ethers.parseUnits(inputAmount.toString(), 18); // VUSD has 18 decimals
         const allowance = await connectedContracts.vusd.allowance(address, connectedContracts.redeemer.target);
-        return allowance < amount;
+        return allowance < inputAmount;
       }
     } catch (error) {
       console.error('Error checking approval:', error);
@@ -421,7 +1150,6 @@ export const useSwap = () => {
     inputToken,
     getSwapDirection,
     getTokenAddress,
-    getTokenDecimals,
     getConnectedContracts
   ]);
   
@@ -429,14 +1157,17 @@ export const useSwap = () => {
    * Approves token spending for the current swap.
    * 
    * @async
-   * @returns {Promise<ethers.TransactionResponse>} The approval transaction
+   * @returns {Promise<ethers.ContractTransactionResponse | null>} The approval transaction,
+   *          or null if the allowance was already sufficient
    * 
    * @remarks
    * This function handles token approval for the current swap:
    * - For 'toVUSD': Approves the Minter contract to spend the input token
    * - For 'fromVUSD': Approves the Redeemer contract to spend VUSD
    * 
-   * It uses MaxUint256 as the approval amount to avoid needing multiple approvals.
+   * The approved amount follows the approval mode setting: the exact input amount
+   * by default, or MaxUint256 when the user has opted into unlimited approvals.
+   * USDT allowances are reset to zero first where required (see setAllowance).
    * After approval completes, it automatically sets needsApproval to false without rechecking.
    */
   const approveTokens = useCallback(async () => {
@@ -455,14 +1186,20 @@ export const useSwap = () => {
         const inputTokenContract = connectedContracts.getERC20Contract(inputTokenAddress);
         
         // Execute the approval transaction
-        const tx = await inputTokenContract.approve(connectedContracts.minter.target, ethers.MaxUint256);
-        await tx.wait();
-        return tx;
+        return await setAllowance(
+          inputTokenContract,
+          address,
+          await connectedContracts.minter.getAddress(),
+          getApprovalAmount(approvalMode, inputAmount)
+        );
       } else {
         // Approve VUSD -> Redeemer
-        const tx = await connectedContracts.vusd.approve(connectedContracts.redeemer.target, ethers.MaxUint256);
-        await tx.wait();
-        return tx;
+        return await setAllowance(
+          connectedContracts.vusd,
+          address,
+          await connectedContracts.redeemer.getAddress(),
+          getApprovalAmount(approvalMode, inputAmount)
+        );
       }
     } catch (error) {
       console.error('Error approving tokens:', error);
@@ -476,6 +1213,8 @@ export const useSwap = () => {
     address,
     isConnected,
     inputToken,
+    inputAmount,
+    approvalMode,
     getSwapDirection,
     getTokenAddress,
     getConnectedContracts
@@ -484,7 +1223,7 @@ export const useSwap = () => {
   // Run approval check with significant throttling to prevent excessive blockchain calls
   useEffect(() => {
     // Prevent unnecessary checks
-    if (!isConnected || !address || !inputAmount || inputAmount <= 0) {
+    if (!isConnected || !address || inputAmount <= ZERO) {
       setNeedsApproval(false);
       setCheckingApproval(false);
       return;
@@ -520,16 +1259,13 @@ export const useSwap = () => {
           // Check approval for input token -> Minter
           const tokenAddress = getTokenAddress(currentInputToken);
           const tokenContract = connectedContracts.getERC20Contract(tokenAddress);
-          const decimals = getTokenDecimals(currentInputToken);
-          const amount = ethers.parseUnits(currentInputAmount.toString(), decimals);
           
           const allowance = await tokenContract.allowance(address, connectedContracts.minter.target);
-          isApprovalRequired = allowance < amount;
+          isApprovalRequired = allowance < currentInputAmount;
         } else {
           // Check approval for VUSD -> Redeemer
-          const amount = ethers.parseUnits(currentInputAmount.toString(), 18);
           const allowance = await connectedContracts.vusd.allowance(address, connectedContracts.redeemer.target);
-          isApprovalRequired = allowance < amount;
+          isApprovalRequired = allowance < currentInputAmount;
         }
         
         // Only update state if the component is still mounted and input values match what we checked
@@ -568,7 +1304,7 @@ export const useSwap = () => {
     };
   }, [
     // Major value changes that require a fresh approval check
-    isConnected && inputAmount > 0, // Only true when both conditions are met (reduces checks)
+    isConnected && inputAmount > ZERO, // Only true when both conditions are met (reduces checks)
     inputToken, 
     outputToken,
     // Using a reference comparison trick to limit updates
@@ -576,27 +1312,89 @@ export const useSwap = () => {
     address,
     // Include necessary functions
     getConnectedContracts,
-    getTokenAddress,
-    getTokenDecimals
+    getTokenAddress
   ]);
   
+  /**
+   * Chooses the approval path for the token being spent.
+   * 
+   * The permit path is used when the token accepts permit signatures and the
+   * wallet supports atomic batches. DAI's permit can only grant an unlimited
+   * allowance, so it is skipped unless the user allows unlimited approvals.
+   */
+  useEffect(() => {
+    if (!isConnected || !address || !window.ethereum) {
+      setApprovalPath('approve');
+      setPermitSupport(null);
+      return;
+    }
+    
+    let isActive = true;
+    const provider = new ethers.BrowserProvider(window.ethereum);
+    const spendTokenAddress = outputToken === 'VUSD' ? getTokenAddress(inputToken) : VUSD_ADDRESS;
+    
+    const choosePath = async () => {
+      try {
+        const { chainId } = await provider.getNetwork();
+        const [support, batching] = await Promise.all([
+          detectPermitSupport(provider, spendTokenAddress),
+          supportsAtomicBatch(provider, address, chainId),
+        ]);
+        const usable = support !== null && batching &&
+          !(support.kind === 'dai' && approvalMode !== 'unlimited');
+        
+        if (isActive) {
+          setPermitSupport(usable ? support : null);
+          setApprovalPath(usable ? 'permit' : 'approve');
+        }
+      } catch (error) {
+        console.error('Error detecting permit support:', error);
+        if (isActive) {
+          setPermitSupport(null);
+          setApprovalPath('approve');
+        }
+      }
+    };
+    
+    choosePath();
+    
+    return () => {
+      isActive = false;
+    };
+  }, [isConnected, address, inputToken, outputToken, approvalMode, getTokenAddress]);
+  
   return {
     balances,
     inputToken,
     outputToken,
     inputAmount,
     outputAmount,
+    inputValue,
+    outputValue,
     fee,
+    exactSide,
+    limits,
     loading,
     checkingApproval,
     needsApproval,
+    approvalPath,
+    recipientInput,
+    recipient,
+    recipientError,
+    resolvingRecipient,
     setInputToken,
     setOutputToken,
-    setInputAmount,
-    setOutputAmount,
+    setInputValue,
+    setOutputValue,
+    setMaxInput,
+    applyMaxAllowed,
+    setRecipientInput,
+    setExactSide,
     swapTokens,
     executeSwap,
+    simulateSwap,
     estimateSwap,
+    estimateSwapReverse,
     approveTokens,
     checkApprovalNeeded,
     refreshBalances: fetchBalances,
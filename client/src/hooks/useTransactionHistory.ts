@@ -0,0 +1,369 @@
+/**
+ * Copyright 2025 Hemi Labs. All rights reserved.
+ */
+
+/**
+ * useTransactionHistory.ts - Mint and redeem history for the connected wallet
+ *
+ * This hook rebuilds the connected wallet's swap history from the chain and
+ * merges it with transactions recorded locally by useSwap:
+ * - Mints are found from VUSD mint transfers to the wallet, then decoded from
+ *   the Minter's Mint event in the same transaction
+ * - Redeems are found from VUSD transfers from the wallet to the Redeemer
+ *   (or burns), then paired with the Treasury's stablecoin payout transfer in the
+ *   same transaction (the Treasury first withdraws it from the cToken, which is
+ *   also a stablecoin transfer)
+ * - Locally recorded transactions add swaps sent to another address and those
+ *   that are still pending, have failed, or were cancelled or replaced
+ *
+ * Each entry includes the tokens, amounts, fee paid, block time and status.
+ * Only transactions sent by the connected wallet are listed.
+ */
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { ethers } from 'ethers';
+import { useWeb3 } from './useWeb3';
+import { useEthersContracts } from './useEthersContracts';
+import { MINTER_ABI, VUSD_ABI } from '@/abis';
+import {
+  HISTORY_START_BLOCK,
+  MINTER_ADDRESS,
+  REDEEMER_ADDRESS,
+  TREASURY_ADDRESS,
+  VUSD_ADDRESS,
+} from '@/constants/contracts';
+import { SUPPORTED_TOKENS, Token } from '@/constants/tokens';
+import { getLogsInRange } from '@/lib/logs';
+import { LocalTransaction, useTransactionStore } from '@/store/transactionStore';
+
+const FEE_DENOMINATOR = BigInt(10000);
+
+const minterInterface = new ethers.Interface(MINTER_ABI);
+const vusdInterface = new ethers.Interface(VUSD_ABI);
+const MINT_TOPIC = minterInterface.getEvent('Mint')!.topicHash;
+const TRANSFER_TOPIC = vusdInterface.getEvent('Transfer')!.topicHash;
+
+export type HistoryStatus = 'pending' | 'confirmed' | 'failed' | 'cancelled' | 'replaced';
+
+export interface HistoryEntry {
+  hash: string;
+  type: 'mint' | 'redeem';
+  status: HistoryStatus;
+  fromToken: Token;
+  toToken: Token;
+  fromAmount: bigint;
+  toAmount: bigint;
+  /** Fee in feeToken base units; null when unknown (pending or failed) */
+  fee: bigint | null;
+  feeToken: Token;
+  recipient: string | null;
+  blockNumber: number | null;
+  /** Block time for mined transactions, submission time otherwise (unix seconds) */
+  timestamp: number;
+}
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+const findToken = (predicate: (token: Token) => boolean): Token | undefined =>
+  SUPPORTED_TOKENS.find(predicate);
+
+const VUSD_TOKEN = findToken(token => token.symbol === 'VUSD')!;
+
+/**
+ * Builds a history entry from a local record that has no decodable receipt.
+ */
+function entryFromLocal(local: LocalTransaction, status: HistoryStatus): HistoryEntry | null {
+  const fromToken = findToken(token => token.symbol === local.fromToken);
+  const toToken = findToken(token => token.symbol === local.toToken);
+  if (!fromToken || !toToken) return null;
+
+  return {
+    hash: local.hash,
+    type: local.type,
+    status,
+    fromToken,
+    toToken,
+    fromAmount: BigInt(local.fromAmount),
+    toAmount: BigInt(local.toAmount),
+    fee: null,
+    feeToken: local.type === 'mint' ? fromToken : VUSD_TOKEN,
+    recipient: local.recipient,
+    blockNumber: local.blockNumber,
+    timestamp: Math.floor(local.submittedAt / 1000),
+  };
+}
+
+/**
+ * Decodes a mined transaction into a history entry.
+ *
+ * @returns The entry; null if the transaction is not a swap sent by the
+ * account; undefined if it is not mined yet
+ */
+async function decodeTransaction(
+  provider: ethers.Provider,
+  minter: ethers.Contract,
+  redeemer: ethers.Contract,
+  account: string,
+  hash: string,
+  local: LocalTransaction | undefined
+): Promise<HistoryEntry | null | undefined> {
+  const receipt = await provider.getTransactionReceipt(hash);
+
+  if (!receipt) {
+    return undefined;
+  }
+  if (!sameAddress(receipt.from, account)) {
+    return null;
+  }
+  if (receipt.status === 0) {
+    return local ? entryFromLocal({ ...local, blockNumber: receipt.blockNumber }, 'failed') : null;
+  }
+
+  // Fee rates as of the block, falling back to the current rate if the
+  // provider cannot serve historical state
+  const feeAt = (contract: ethers.Contract, method: 'mintingFee' | 'redeemFee'): Promise<bigint> =>
+    contract[method]({ blockTag: receipt.blockNumber }).catch(() => contract[method]());
+
+  const block = await provider.getBlock(receipt.blockNumber);
+  const timestamp = block ? block.timestamp : Math.floor(Date.now() / 1000);
+
+  // Mint: decode the Minter's Mint event
+  const mintLog = receipt.logs.find(log =>
+    sameAddress(log.address, MINTER_ADDRESS) && log.topics[0] === MINT_TOPIC
+  );
+  if (mintLog) {
+    const event = minterInterface.parseLog(mintLog);
+    const fromToken = event && findToken(token => sameAddress(token.address, event.args.tokenIn));
+    if (!event || !fromToken) return null;
+
+    const mintingFee = await feeAt(minter, 'mintingFee');
+    return {
+      hash,
+      type: 'mint',
+      status: 'confirmed',
+      fromToken,
+      toToken: VUSD_TOKEN,
+      fromAmount: event.args.amountIn,
+      toAmount: event.args.mintage,
+      fee: event.args.amountInAfterTransferFee * mintingFee / FEE_DENOMINATOR,
+      feeToken: fromToken,
+      recipient: event.args.receiver,
+      blockNumber: receipt.blockNumber,
+      timestamp,
+    };
+  }
+
+  // Redeem: VUSD leaves the wallet and the Treasury pays out a whitelisted stablecoin
+  let vusdAmount: bigint | null = null;
+  let payout: { token: Token; amount: bigint; to: string } | null = null;
+
+  for (const log of receipt.logs) {
+    if (log.topics[0] !== TRANSFER_TOPIC || log.topics.length !== 3) continue;
+    const transfer = vusdInterface.parseLog(log);
+    if (!transfer) continue;
+
+    if (sameAddress(log.address, VUSD_ADDRESS)) {
+      if (sameAddress(transfer.args.from, account)) {
+        vusdAmount = transfer.args.amount;
+      }
+    } else if (!payout && sameAddress(transfer.args.from, TREASURY_ADDRESS)) {
+      const token = findToken(t => t.symbol !== 'VUSD' && sameAddress(t.address, log.address));
+      if (token) {
+        payout = { token, amount: transfer.args.amount, to: transfer.args.to };
+      }
+    }
+  }
+
+  if (vusdAmount === null || !payout) return null;
+
+  const redeemFee = await feeAt(redeemer, 'redeemFee');
+  return {
+    hash,
+    type: 'redeem',
+    status: 'confirmed',
+    fromToken: VUSD_TOKEN,
+    toToken: payout.token,
+    fromAmount: vusdAmount,
+    toAmount: payout.amount,
+    fee: vusdAmount * redeemFee / FEE_DENOMINATOR,
+    feeToken: VUSD_TOKEN,
+    recipient: payout.to,
+    blockNumber: receipt.blockNumber,
+    timestamp,
+  };
+}
+
+/**
+ * Custom hook for the connected wallet's mint and redeem history
+ *
+ * @returns {Object} History entries and status
+ * @property {HistoryEntry[]} entries - Newest first, pending transactions on top
+ * @property {boolean} loading - Whether new blocks are being scanned
+ * @property {string | null} error - Error message if the scan failed
+ * @property {Function} refresh - Scans the blocks mined since the last scan
+ *
+ * @remarks
+ * Logs are scanned once per account, then only from the last scanned block.
+ * Changes to the local records are merged in memory; only newly mined local
+ * transactions have their receipts fetched.
+ */
+export function useTransactionHistory() {
+  const { address, isConnected } = useWeb3();
+  const { contracts } = useEthersContracts();
+  const allLocalTransactions = useTransactionStore(state => state.transactions);
+
+  // Decoded receipts by lowercase hash; null for transactions that are not the account's swaps
+  const [decoded, setDecoded] = useState<Record<string, HistoryEntry | null>>({});
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Last block whose logs were scanned, for the account being shown
+  const scanned = useRef<{ account: string; through: number } | null>(null);
+  // Hashes whose receipts are being fetched
+  const decoding = useRef(new Set<string>());
+
+  const account = isConnected && address ? address.toLowerCase() : null;
+
+  const localTransactions = useMemo(
+    () => account ? allLocalTransactions.filter(tx => tx.account === account) : [],
+    [allLocalTransactions, account]
+  );
+
+  // Start over when the account changes
+  useEffect(() => {
+    scanned.current = null;
+    decoding.current = new Set();
+    setDecoded({});
+    setError(null);
+  }, [account]);
+
+  /**
+   * Decodes receipts not decoded yet, storing the results unless the account changed.
+   */
+  const decodeAll = useCallback(async (
+    hashes: string[],
+    localByHash: Map<string, LocalTransaction>
+  ) => {
+    const provider = contracts.vusd?.runner?.provider;
+    const { minter, redeemer } = contracts;
+    if (!account || !provider || !minter || !redeemer) return;
+
+    const pending = hashes.filter(hash => !decoding.current.has(hash));
+    pending.forEach(hash => decoding.current.add(hash));
+    const inflight = decoding.current;
+
+    try {
+      const results = await Promise.all(pending.map(hash =>
+        decodeTransaction(provider, minter, redeemer, account, hash, localByHash.get(hash))
+      ));
+      if (decoding.current !== inflight) return; // Account changed meanwhile
+
+      // Transactions not mined yet are left out, so they are decoded again later
+      if (results.every(result => result === undefined)) return;
+      setDecoded(current => {
+        const next = { ...current };
+        pending.forEach((hash, i) => {
+          if (results[i] !== undefined) next[hash] = results[i]!;
+        });
+        return next;
+      });
+    } finally {
+      pending.forEach(hash => inflight.delete(hash));
+    }
+  }, [account, contracts]);
+
+  /**
+   * Finds candidate transactions in the logs of new blocks, then decodes each receipt.
+   */
+  const refresh = useCallback(async () => {
+    const provider = contracts.vusd?.runner?.provider;
+    if (!account || !provider) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const accountTopic = ethers.zeroPadValue(account, 32);
+      const zeroTopic = ethers.zeroPadValue(ethers.ZeroAddress, 32);
+      const latestBlock = await provider.getBlockNumber();
+      const fromBlock = scanned.current?.account === account
+        ? scanned.current.through + 1
+        : HISTORY_START_BLOCK;
+      if (fromBlock > latestBlock) return;
+
+      const [mintLogs, redeemLogs] = await Promise.all([
+        // VUSD minted to the wallet
+        getLogsInRange(provider, {
+          address: VUSD_ADDRESS,
+          topics: [TRANSFER_TOPIC, zeroTopic, accountTopic],
+        }, fromBlock, latestBlock),
+        // VUSD sent from the wallet to the Redeemer or burned
+        getLogsInRange(provider, {
+          address: VUSD_ADDRESS,
+          topics: [TRANSFER_TOPIC, accountTopic, [ethers.zeroPadValue(REDEEMER_ADDRESS, 32), zeroTopic]],
+        }, fromBlock, latestBlock),
+      ]);
+
+      const hashes = new Set<string>([
+        ...mintLogs.map(log => log.transactionHash.toLowerCase()),
+        ...redeemLogs.map(log => log.transactionHash.toLowerCase()),
+      ]);
+
+      // Transactions with transfer logs succeeded, so their local records are not needed
+      await decodeAll(Array.from(hashes), new Map());
+      scanned.current = { account, through: latestBlock };
+    } catch (err) {
+      console.error('Error loading transaction history:', err);
+      setError((err as Error).message || 'Failed to load transaction history');
+    } finally {
+      setLoading(false);
+    }
+  }, [account, contracts, decodeAll]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Decode local transactions once they are mined (including swaps to another
+  // address, which the log scan does not find)
+  useEffect(() => {
+    const mined = localTransactions.filter(tx =>
+      (tx.status === 'confirmed' || tx.status === 'failed') && !(tx.hash.toLowerCase() in decoded)
+    );
+    if (mined.length === 0) return;
+
+    const localByHash = new Map(mined.map(tx => [tx.hash.toLowerCase(), tx]));
+    decodeAll(Array.from(localByHash.keys()), localByHash).catch(err => {
+      console.error('Error decoding local transactions:', err);
+    });
+  }, [localTransactions, decoded, decodeAll]);
+
+  const entries = useMemo(() => {
+    const byHash = new Map<string, HistoryEntry>();
+
+    for (const [hash, entry] of Object.entries(decoded)) {
+      if (entry) byHash.set(hash, entry);
+    }
+    // Records not decoded from a receipt: pending, cancelled or replaced, or being decoded
+    for (const local of localTransactions) {
+      const hash = local.hash.toLowerCase();
+      if (hash in decoded) continue;
+      const entry = entryFromLocal(local, local.status);
+      if (entry) byHash.set(hash, entry);
+    }
+
+    return Array.from(byHash.values()).sort((a, b) => {
+      if ((a.status === 'pending') !== (b.status === 'pending')) {
+        return a.status === 'pending' ? -1 : 1;
+      }
+      return b.timestamp - a.timestamp;
+    });
+  }, [decoded, localTransactions]);
+
+  return {
+    entries,
+    loading,
+    error,
+    refresh,
+  };
+}
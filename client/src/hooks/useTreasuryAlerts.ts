@@ -0,0 +1,44 @@
+/**
+ * Copyright 2025 Hemi Labs. All rights reserved.
+ */
+
+/**
+ * useTreasuryAlerts.ts - Hook for active treasury health alerts
+ *
+ * This hook reads the alerts the server's treasury monitor currently has
+ * active: collateralization below its thresholds, a single asset above the
+ * concentration limit, or a whitelisted stablecoin off its peg. The monitor
+ * runs after every indexer snapshot, so the alerts are refetched on the same
+ * schedule as the latest snapshot.
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import type { TreasuryAlert, TreasuryAlertsResponse } from '@shared/schema';
+
+export type { TreasuryAlert };
+
+// The indexer runs every 10 minutes
+const REFRESH_INTERVAL = 5 * 60 * 1000; // 5 minutes in milliseconds
+
+/**
+ * Custom hook providing the active treasury alerts.
+ *
+ * @returns {Object} The alerts
+ * @property {TreasuryAlert[]} alerts - Active alerts, critical first; empty while loading or on error
+ * @property {number | null} evaluatedAt - When the monitor last ran, in seconds
+ *
+ * @example
+ * const { alerts } = useTreasuryAlerts();
+ */
+export function useTreasuryAlerts() {
+  const { data } = useQuery<TreasuryAlertsResponse>({
+    queryKey: ['/api/treasury/alerts'],
+    refetchInterval: REFRESH_INTERVAL,
+    refetchOnWindowFocus: false
+  });
+
+  return {
+    alerts: data?.alerts ?? [],
+    evaluatedAt: data?.evaluatedAt ?? null
+  };
+}
@@ -0,0 +1,86 @@
+/**
+ * Copyright 2025 Hemi Labs. All rights reserved.
+ */
+
+/**
+ * useTreasuryHistory.ts - Hook for stored treasury snapshots over time
+ *
+ * This hook reads the snapshots taken by the server's treasury indexer for a
+ * time range, together with the governance events (whitelist changes and fee
+ * updates) noticed in that range, for charting the collateralization history.
+ *
+ * Ranges are relative to the time of each fetch, so a refetch moves the window
+ * forward. Long ranges are thinned out on the server to at most HISTORY_POINTS
+ * snapshots.
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import type { GovernanceEvent, TreasurySnapshot } from '@shared/schema';
+
+export type HistoryRange = '24h' | '7d' | '30d' | 'all';
+
+export interface TreasuryHistory {
+  snapshots: TreasurySnapshot[];
+  events: GovernanceEvent[];
+}
+
+// Length of each range in seconds; 'all' has no lower bound
+const RANGE_SECONDS: Record<Exclude<HistoryRange, 'all'>, number> = {
+  '24h': 24 * 60 * 60,
+  '7d': 7 * 24 * 60 * 60,
+  '30d': 30 * 24 * 60 * 60,
+};
+
+// Most snapshots requested per range; more than a chart can show distinctly
+const HISTORY_POINTS = 500;
+
+// The indexer runs every 10 minutes
+const REFRESH_INTERVAL = 10 * 60 * 1000; // 10 minutes in milliseconds
+
+/**
+ * Fetches the snapshots and governance events of a range.
+ */
+const fetchTreasuryHistory = async (range: HistoryRange): Promise<TreasuryHistory> => {
+  const from = range === 'all' ? 0 : Math.floor(Date.now() / 1000) - RANGE_SECONDS[range];
+
+  const [snapshots, events] = await Promise.all([
+    apiRequest('GET', `/api/treasury/history?from=${from}&points=${HISTORY_POINTS}`).then(res => res.json()),
+    apiRequest('GET', `/api/treasury/events?from=${from}`).then(res => res.json()),
+  ]);
+
+  return { snapshots, events };
+};
+
+/**
+ * Custom hook providing treasury snapshots and governance events for a range.
+ *
+ * @param {HistoryRange} range - How far back to read
+ * @returns {Object} The history and its status
+ * @property {TreasuryHistory | null} data - Snapshots and events, oldest first
+ * @property {boolean} loading - Whether the range is being fetched for the first time
+ * @property {string | null} error - Error message if the fetch failed
+ * @property {Function} refresh - Function to fetch the range again
+ *
+ * @example
+ * const { data, loading, error } = useTreasuryHistory('7d');
+ */
+export function useTreasuryHistory(range: HistoryRange) {
+  const { data, isLoading, error, refetch } = useQuery<TreasuryHistory>({
+    queryKey: ['/api/treasury/history', range],
+    queryFn: () => fetchTreasuryHistory(range),
+    refetchInterval: REFRESH_INTERVAL,
+    refetchOnWindowFocus: false
+  });
+
+  const errorMessage = error
+    ? (error instanceof Error ? error.message : 'Failed to fetch treasury history')
+    : null;
+
+  return {
+    data: data || null,
+    loading: isLoading,
+    error: errorMessage,
+    refresh: refetch
+  };
+}
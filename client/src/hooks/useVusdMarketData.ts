@@ -5,13 +5,14 @@
 /**
  * useVusdMarketData.ts - Hook for fetching VUSD market data
  * 
- * This hook provides market price information for VUSD from CoinGecko 
- * via a server-side API proxy. It includes:
+ * This hook provides market price information for VUSD from the server's
+ * market data providers (CoinGecko, failing over to the VUSD pools on-chain).
+ * It includes:
  * - Current price in USD
- * - 24-hour price change percentage
+ * - 24-hour price change percentage (null when the provider has no history)
  * - Market capitalization
- * - 24-hour trading volume
- * - Last updated timestamp
+ * - 24-hour trading volume (likewise)
+ * - Last updated timestamp and the provider that answered
  * 
  * The data is fetched on component mount and can be refreshed manually.
  * Loading and error states are provided for easy handling in the UI.
@@ -19,23 +20,12 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { useQuery } from '@tanstack/react-query';
+import type { VusdMarketData } from '@shared/schema';
 
-// Type definition for the market data response
-export interface VusdMarketData {
-  id: string;
-  symbol: string;
-  name: string;
-  image?: string;
-  current_price: number;
-  market_cap: number;
-  price_change_24h: number;
-  volume_24h: number;
-  last_updated: string;
-  contract_address: string;
-}
+export type { VusdMarketData };
 
 /**
- * Custom hook to fetch and provide VUSD market data from CoinGecko
+ * Custom hook to fetch and provide VUSD market data
  * 
  * @returns {Object} The VUSD market data and status
  * @property {VusdMarketData | null} data - The market data when available
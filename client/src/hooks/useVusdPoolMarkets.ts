@@ -0,0 +1,60 @@
+/**
+ * Copyright 2025 Hemi Labs. All rights reserved.
+ */
+
+/**
+ * useVusdPoolMarkets.ts - Hook for on-chain VUSD pool market data
+ *
+ * This hook provides the market data the server reads from the VUSD pools on
+ * Curve and SushiSwap (see VUSD_POOLS):
+ * - Spot price of VUSD in USD
+ * - Liquidity (TVL) and reserves of each side
+ * - Price impact of selling 10k, 100k and 1M VUSD
+ *
+ * Pools that could not be read carry an error instead of figures.
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import type { PoolMarketData, PoolMarketsResponse } from '@shared/schema';
+
+export type { PoolMarketData };
+
+// The server caches pool reads for 5 minutes
+const REFRESH_INTERVAL = 5 * 60 * 1000; // 5 minutes in milliseconds
+
+/**
+ * Custom hook to fetch and provide the VUSD pool market data
+ *
+ * @returns {Object} The pool market data and status
+ * @property {PoolMarketsResponse | null} data - Every pool and the block they were read at
+ * @property {boolean} loading - Whether data is currently being fetched for the first time
+ * @property {string | null} error - Error message if fetch failed
+ * @property {Function} refresh - Function to manually refresh the data
+ *
+ * @example
+ * const { data, loading, error } = useVusdPoolMarkets();
+ */
+export function useVusdPoolMarkets() {
+  const {
+    data,
+    isLoading,
+    error,
+    refetch
+  } = useQuery<PoolMarketsResponse>({
+    queryKey: ['/api/market/pools'],
+    refetchInterval: REFRESH_INTERVAL,
+    refetchOnWindowFocus: false
+  });
+
+  // Format the error message if present
+  const errorMessage = error
+    ? (error instanceof Error ? error.message : 'Failed to fetch VUSD pool data')
+    : null;
+
+  return {
+    data: data || null,
+    loading: isLoading,
+    error: errorMessage,
+    refresh: refetch
+  };
+}
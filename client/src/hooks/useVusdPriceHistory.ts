@@ -0,0 +1,52 @@
+/**
+ * Copyright 2025 Hemi Labs. All rights reserved.
+ */
+
+/**
+ * useVusdPriceHistory.ts - Hook for VUSD price and volume history
+ *
+ * This hook reads VUSD's price history from the server, which proxies
+ * CoinGecko's market_chart and stores the points it receives. Points are
+ * evenly spaced; intervals without a price repeat the previous one and are
+ * flagged as filled.
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import type { VusdPriceHistory, VusdPricePoint } from '@shared/schema';
+
+export type { VusdPricePoint };
+
+// The server caches history for 30 minutes
+const REFRESH_INTERVAL = 30 * 60 * 1000; // 30 minutes in milliseconds
+
+/**
+ * Custom hook providing VUSD's price history.
+ *
+ * @param {number} days - Days of history, 1 to 365
+ * @returns {Object} The history and its status
+ * @property {VusdPricePoint[]} points - One point per interval, oldest first
+ * @property {boolean} loading - Whether the range is being fetched for the first time
+ * @property {string | null} error - Error message if the fetch failed
+ *
+ * @example
+ * const { points } = useVusdPriceHistory(7);
+ */
+export function useVusdPriceHistory(days: number) {
+  const { data, isLoading, error } = useQuery<VusdPriceHistory>({
+    queryKey: ['/api/market/vusd/history', days],
+    queryFn: () => apiRequest('GET', `/api/market/vusd/history?days=${days}`).then(res => res.json()),
+    refetchInterval: REFRESH_INTERVAL,
+    refetchOnWindowFocus: false
+  });
+
+  const errorMessage = error
+    ? (error instanceof Error ? error.message : 'Failed to fetch VUSD price history')
+    : null;
+
+  return {
+    points: data?.points ?? [],
+    loading: isLoading,
+    error: errorMessage
+  };
+}
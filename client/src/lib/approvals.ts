@@ -0,0 +1,85 @@
+/**
+ * Copyright 2025 Hemi Labs. All rights reserved.
+ */
+
+/**
+ * approvals.ts - ERC20 allowance helpers
+ *
+ * This module centralizes how the application grants and revokes token
+ * allowances for the Minter and Redeemer contracts:
+ * - Picks the approval amount from the user's approval mode (exact or unlimited)
+ * - Handles tokens such as USDT that reject changing a non-zero allowance
+ *   to another non-zero value, by resetting the allowance to zero first
+ * - Skips the transaction entirely when the allowance is already correct
+ */
+
+import { Contract, ethers } from 'ethers';
+import { TOKEN_ADDRESSES } from '@/constants/tokens';
+import type { ApprovalMode } from '@/store/settingsStore';
+
+const ZERO = BigInt(0);
+
+/**
+ * Tokens whose approve() reverts when changing a non-zero allowance to
+ * another non-zero value (USDT's mitigation for the approve race condition).
+ */
+const ZERO_FIRST_TOKENS = [TOKEN_ADDRESSES.USDT].map(address => address.toLowerCase());
+
+/**
+ * Whether a token must have its allowance reset to zero before it can be changed.
+ *
+ * @param {string} tokenAddress - ERC20 token address
+ * @returns {boolean} True for tokens such as USDT
+ */
+export function requiresZeroFirst(tokenAddress: string): boolean {
+  return ZERO_FIRST_TOKENS.includes(tokenAddress.toLowerCase());
+}
+
+/**
+ * Returns the allowance to request for a swap of the given size.
+ *
+ * @param {ApprovalMode} mode - The user's approval mode setting
+ * @param {bigint} required - Amount the swap will transfer, in base units
+ * @returns {bigint} `required` in exact mode, MaxUint256 in unlimited mode
+ */
+export function getApprovalAmount(mode: ApprovalMode, required: bigint): bigint {
+  return mode === 'unlimited' ? ethers.MaxUint256 : required;
+}
+
+/**
+ * Sets a spender's allowance to an exact value, waiting for confirmation.
+ *
+ * @async
+ * @param {Contract} token - ERC20 contract connected to the owner's signer
+ * @param {string} owner - Address granting the allowance
+ * @param {string} spender - Contract allowed to spend the tokens
+ * @param {bigint} amount - New allowance in base units (zero revokes)
+ * @returns {Promise<ethers.ContractTransactionResponse | null>} The approval transaction,
+ *          or null when the allowance already equals `amount`
+ *
+ * @remarks
+ * For zero-first tokens with a non-zero allowance, a separate approve(0)
+ * transaction is sent and confirmed before the new value is approved, so the
+ * user may be asked to sign twice.
+ */
+export async function setAllowance(
+  token: Contract,
+  owner: string,
+  spender: string,
+  amount: bigint
+): Promise<ethers.ContractTransactionResponse | null> {
+  const current: bigint = await token.allowance(owner, spender);
+
+  if (current === amount) {
+    return null;
+  }
+
+  if (amount > ZERO && current > ZERO && requiresZeroFirst(await token.getAddress())) {
+    const resetTx = await token.approve(spender, ZERO);
+    await resetTx.wait();
+  }
+
+  const tx = await token.approve(spender, amount);
+  await tx.wait();
+  return tx;
+}
@@ -0,0 +1,294 @@
+/**
+ * Copyright 2025 Hemi Labs. All rights reserved.
+ */
+
+/**
+ * errors.ts - Human-readable errors for swaps and approvals
+ *
+ * This module turns errors thrown by ethers, wallets and the VUSD contracts
+ * into messages a user can act on:
+ * - Wallet rejections (ACTION_REJECTED / EIP-1193 code 4001)
+ * - Contract reverts (CALL_EXCEPTION), matched against the require messages
+ *   of the Minter, Redeemer and Treasury contracts and common ERC20 tokens
+ * - Gas and funding problems (insufficient ETH, unpredictable gas limit)
+ * - Network and nonce errors
+ *
+ * Each decoded error has a short title, a description and, where there is one,
+ * a suggested fix. It is shared by useSwap, TransactionStatus and toast calls.
+ */
+
+import { ethers } from 'ethers';
+
+export type SwapErrorKind = 'rejected' | 'revert' | 'gas' | 'network' | 'unknown';
+
+export interface DecodedError {
+  kind: SwapErrorKind;
+  title: string;
+  message: string;
+  suggestion?: string;
+  /** Raw revert reason from the contract, when there is one */
+  reason?: string;
+}
+
+interface KnownRevert {
+  title: string;
+  message: string;
+  suggestion?: string;
+}
+
+/**
+ * Revert reasons from minter.sol, redeemer.sol and treasury.sol, plus the
+ * allowance and balance errors of the whitelisted tokens. Keys are matched as
+ * substrings so "execution reverted: mint-limit-reached" is recognized too.
+ */
+const KNOWN_REVERTS: Record<string, KnownRevert> = {
+  'token-is-not-supported': {
+    title: 'Token not supported',
+    message: 'This token is not whitelisted for minting or redeeming VUSD.',
+    suggestion: 'Choose USDC, USDT or DAI.',
+  },
+  'oracle-price-exceed-tolerance': {
+    title: 'Price out of range',
+    message: 'The oracle price of this stablecoin is outside the tolerance the Minter accepts.',
+    suggestion: 'Try another stablecoin, or wait until its price is back near $1.',
+  },
+  'price-tolerance-exceeded': {
+    title: 'Price out of range',
+    message: 'The oracle price of this stablecoin is outside the tolerance the Redeemer accepts.',
+    suggestion: 'Redeem for another stablecoin, or wait until its price is back near $1.',
+  },
+  'mint-limit-reached': {
+    title: 'Mint cap reached',
+    message: 'This mint would take the VUSD supply over the current mint limit.',
+    suggestion: 'Use "Use max allowed" to mint the largest amount still available.',
+  },
+  'redeem-underlying-failed': {
+    title: 'Not enough liquidity',
+    message: 'The treasury could not withdraw enough of this stablecoin to cover the redemption.',
+    suggestion: 'Redeem a smaller amount or choose another stablecoin.',
+  },
+  'cToken-mint-failed': {
+    title: 'Deposit failed',
+    message: 'The Minter could not deposit your tokens into Compound.',
+    suggestion: 'Try again later or use another stablecoin.',
+  },
+  'exceeds allowance': {
+    title: 'Allowance too low',
+    message: 'The contract is not allowed to spend this much of your token.',
+    suggestion: 'Approve the amount again, then retry the swap.',
+  },
+  'insufficient allowance': {
+    title: 'Allowance too low',
+    message: 'The contract is not allowed to spend this much of your token.',
+    suggestion: 'Approve the amount again, then retry the swap.',
+  },
+  'insufficient-allowance': {
+    title: 'Allowance too low',
+    message: 'The contract is not allowed to spend this much of your token.',
+    suggestion: 'Approve the amount again, then retry the swap.',
+  },
+  'exceeds balance': {
+    title: 'Insufficient balance',
+    message: 'Your wallet does not hold enough of this token.',
+    suggestion: 'Lower the amount or use "Max".',
+  },
+  'insufficient balance': {
+    title: 'Insufficient balance',
+    message: 'Your wallet does not hold enough of this token.',
+    suggestion: 'Lower the amount or use "Max".',
+  },
+  'insufficient-balance': {
+    title: 'Insufficient balance',
+    message: 'Your wallet does not hold enough of this token.',
+    suggestion: 'Lower the amount or use "Max".',
+  },
+};
+
+type ErrorLike = {
+  code?: unknown;
+  reason?: string | null;
+  shortMessage?: string;
+  message?: string;
+  revert?: { args?: unknown[] } | null;
+  info?: { error?: { code?: unknown; message?: string } };
+  error?: { code?: unknown; message?: string };
+  data?: { message?: string };
+};
+
+/**
+ * Collects every message an error carries, including those of wrapped
+ * provider and wallet errors, for matching against known reasons.
+ */
+function collectMessages(error: unknown): string[] {
+  const err = error as ErrorLike | null;
+  if (!err) return [];
+  if (typeof err === 'string') return [err];
+
+  return [
+    err.reason,
+    err.revert?.args?.[0],
+    err.shortMessage,
+    err.message,
+    err.info?.error?.message,
+    err.error?.message,
+    err.data?.message,
+  ].filter((message): message is string => typeof message === 'string' && message.length > 0);
+}
+
+/**
+ * Whether an error means the user declined a wallet prompt.
+ *
+ * @param {unknown} error - Error thrown by the wallet or ethers
+ * @returns {boolean} True for rejected signatures and transactions
+ */
+export function isUserRejection(error: unknown): boolean {
+  const err = error as ErrorLike | null;
+  return ethers.isError(error, 'ACTION_REJECTED') ||
+    err?.code === 4001 ||
+    err?.info?.error?.code === 4001 ||
+    err?.error?.code === 4001;
+}
+
+/**
+ * Returns the revert reason string of a contract error, if it has one.
+ *
+ * @param {unknown} error - Error thrown by ethers
+ * @returns {string | undefined} e.g. "mint-limit-reached"
+ */
+export function getRevertReason(error: unknown): string | undefined {
+  const err = error as ErrorLike | null;
+  const direct = err?.reason ?? err?.revert?.args?.[0];
+  if (typeof direct === 'string' && direct) {
+    return direct;
+  }
+
+  // Some providers only include the reason in the nested message
+  for (const message of collectMessages(error)) {
+    const match = message.match(/reverted(?::| with reason string)\s*['"]?([^'"\n(]+)/i);
+    if (match && match[1].trim()) {
+      return match[1].trim();
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Decodes an error from a swap, estimate or approval into a user-facing message.
+ *
+ * @param {unknown} error - Anything thrown while talking to the wallet or contracts
+ * @returns {DecodedError} Title, message and optional suggested fix
+ *
+ * @example
+ * const { title, message, suggestion } = decodeError(error);
+ */
+export function decodeError(error: unknown): DecodedError {
+  if (isUserRejection(error)) {
+    return {
+      kind: 'rejected',
+      title: 'Request rejected',
+      message: 'You rejected the request in your wallet.',
+    };
+  }
+
+  const reason = getRevertReason(error);
+  const haystack = [reason, ...collectMessages(error)]
+    .filter(Boolean)
+    .join('\n')
+    .toLowerCase();
+
+  for (const [key, known] of Object.entries(KNOWN_REVERTS)) {
+    if (haystack.includes(key.toLowerCase())) {
+      return { kind: 'revert', reason, ...known };
+    }
+  }
+
+  if (ethers.isError(error, 'INSUFFICIENT_FUNDS') || haystack.includes('insufficient funds')) {
+    return {
+      kind: 'gas',
+      title: 'Not enough ETH for gas',
+      message: 'Your wallet does not have enough ETH to pay the network fee.',
+      suggestion: 'Add ETH to your wallet and try again.',
+    };
+  }
+
+  // Gas estimation reverted without a reason we recognize
+  const estimateFailed = ethers.isError(error, 'CALL_EXCEPTION') && error.action === 'estimateGas';
+  if (estimateFailed || haystack.includes('cannot estimate gas') ||
+      haystack.includes('gas required exceeds') || haystack.includes('out of gas')) {
+    return {
+      kind: 'gas',
+      title: 'Transaction would fail',
+      message: 'The network could not estimate gas because the transaction would revert.',
+      suggestion: 'Check the amount, your balance and your approval, then try again.',
+      reason,
+    };
+  }
+
+  if (ethers.isError(error, 'REPLACEMENT_UNDERPRICED') || ethers.isError(error, 'NONCE_EXPIRED')) {
+    return {
+      kind: 'network',
+      title: 'Transaction conflict',
+      message: 'Another transaction from your wallet is using the same nonce.',
+      suggestion: 'Wait for your pending transaction to confirm, or speed it up in your wallet.',
+    };
+  }
+
+  if (ethers.isError(error, 'NETWORK_ERROR') || ethers.isError(error, 'TIMEOUT') ||
+      ethers.isError(error, 'SERVER_ERROR')) {
+    return {
+      kind: 'network',
+      title: 'Network error',
+      message: 'Could not reach the Ethereum network.',
+      suggestion: 'Check your connection and try again.',
+    };
+  }
+
+  if (ethers.isError(error, 'CALL_EXCEPTION')) {
+    return {
+      kind: 'revert',
+      title: 'Transaction reverted',
+      message: reason
+        ? `The contract rejected the transaction: ${reason}`
+        : 'The contract rejected the transaction.',
+      reason,
+    };
+  }
+
+  const fallback = collectMessages(error)[0];
+  return {
+    kind: 'unknown',
+    title: 'Something went wrong',
+    message: fallback || 'An unexpected error occurred.',
+    reason,
+  };
+}
+
+/**
+ * Describes a known revert reason without an error object, e.g. when a view
+ * function reports a condition that would make the transaction revert.
+ *
+ * @param {string} reason - Revert reason string, e.g. "redeem-underlying-failed"
+ * @returns {DecodedError} The decoded description
+ */
+export function decodeRevertReason(reason: string): DecodedError {
+  return decodeError({ code: 'CALL_EXCEPTION', reason });
+}
+
+/**
+ * Builds toast props for an error, combining the message and suggested fix.
+ *
+ * @param {unknown} error - The error to describe
+ * @param {string} [title] - Overrides the decoded title (e.g. "Approval Failed")
+ * @param {string} [fallbackMessage] - Shown instead of the raw message for unrecognized errors
+ * @returns Props for `toast()` from use-toast
+ */
+export function errorToast(error: unknown, title?: string, fallbackMessage?: string) {
+  const decoded = decodeError(error);
+  const message = decoded.kind === 'unknown' && fallbackMessage ? fallbackMessage : decoded.message;
+
+  return {
+    title: title ?? decoded.title,
+    description: decoded.suggestion ? `${message} ${decoded.suggestion}` : message,
+    variant: 'destructive' as const,
+  };
+}
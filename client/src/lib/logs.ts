@@ -0,0 +1,49 @@
+/**
+ * Copyright 2025 Hemi Labs. All rights reserved.
+ */
+
+/**
+ * logs.ts - Event log helpers
+ *
+ * RPC providers cap eth_getLogs by block range or result count, and the caps
+ * differ between providers. This module fetches logs over long ranges by
+ * trying the whole range first and splitting it in half whenever the provider
+ * rejects the request, so callers don't need to know each provider's limits.
+ */
+
+import { ethers } from 'ethers';
+
+// Below this many blocks a failing request is treated as a real error
+const MIN_SPLIT_RANGE = 1000;
+
+/**
+ * Fetches all logs matching a filter between two blocks (inclusive).
+ *
+ * @async
+ * @param {ethers.Provider} provider - Provider to query
+ * @param {ethers.Filter} filter - Address and topics to match (block range is ignored)
+ * @param {number} fromBlock - First block to scan
+ * @param {number} toBlock - Last block to scan
+ * @returns {Promise<ethers.Log[]>} Matching logs in block order
+ *
+ * @throws {Error} If a range smaller than MIN_SPLIT_RANGE still fails
+ */
+export async function getLogsInRange(
+  provider: ethers.Provider,
+  filter: ethers.Filter,
+  fromBlock: number,
+  toBlock: number
+): Promise<ethers.Log[]> {
+  try {
+    return await provider.getLogs({ ...filter, fromBlock, toBlock });
+  } catch (error) {
+    if (toBlock - fromBlock < MIN_SPLIT_RANGE) {
+      throw error;
+    }
+
+    const middle = Math.floor((fromBlock + toBlock) / 2);
+    const first = await getLogsInRange(provider, filter, fromBlock, middle);
+    const second = await getLogsInRange(provider, filter, middle + 1, toBlock);
+    return first.concat(second);
+  }
+}
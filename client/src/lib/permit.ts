@@ -0,0 +1,332 @@
+/**
+ * Copyright 2025 Hemi Labs. All rights reserved.
+ */
+
+/**
+ * permit.ts - Signature-based approvals for swaps
+ *
+ * This module lets a swap skip the separate approve transaction when both the
+ * token and the wallet allow it:
+ * - Detects EIP-2612 permit support (USDC) and DAI's older permit variant by
+ *   checking the token's DOMAIN_SEPARATOR against the EIP-712 domain we would sign
+ * - Requests the EIP-712 permit signature and encodes the permit() call
+ * - Submits the permit and the mint/redeem call as one atomic batch through the
+ *   wallet (EIP-5792 wallet_sendCalls), so the user confirms a single bundle
+ *
+ * The Minter and Redeemer pull tokens with transferFrom and have no permit or
+ * Permit2 entry point, so the signed permit must land on-chain in the same batch
+ * as the swap. Wallets without atomic batching use the regular approve flow.
+ */
+
+import { Contract, ethers } from 'ethers';
+import { PERMIT_ABI } from '@/abis';
+import { TOKEN_ADDRESSES } from '@/constants/tokens';
+
+export type PermitKind = 'eip2612' | 'dai';
+
+export interface PermitSupport {
+  kind: PermitKind;
+  name: string;
+  version: string;
+}
+
+export interface BatchCall {
+  to: string;
+  data: string;
+}
+
+/**
+ * Thrown by sendAtomicBatch once the wallet has accepted the batch, when it
+ * then reverts, fails or is not confirmed in time. The batch may still be
+ * executed, so the swap must not be retried with another flow.
+ */
+export class BatchSubmittedError extends Error {
+  constructor(message: string, readonly bundleId: string) {
+    super(message);
+    this.name = 'BatchSubmittedError';
+  }
+}
+
+// How long a signed permit stays valid
+const PERMIT_TTL_SECONDS = 20 * 60;
+
+// Polling for wallet_getCallsStatus
+const BATCH_POLL_INTERVAL = 2000;
+const BATCH_TIMEOUT = 10 * 60 * 1000;
+
+const DAI_ADDRESS = TOKEN_ADDRESSES.DAI.toLowerCase();
+
+const EIP2612_TYPES = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+};
+
+const DAI_TYPES = {
+  Permit: [
+    { name: 'holder', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'expiry', type: 'uint256' },
+    { name: 'allowed', type: 'bool' },
+  ],
+};
+
+// Permit support per chain and token; a token's permit support never changes
+const supportCache = new Map<string, PermitSupport | null>();
+
+/**
+ * Detects whether a token accepts permit signatures.
+ *
+ * @async
+ * @param {ethers.Provider} provider - Provider for the token's chain
+ * @param {string} tokenAddress - ERC20 token address
+ * @returns {Promise<PermitSupport | null>} The permit variant and EIP-712 domain
+ *          fields, or null if the token has no usable permit
+ *
+ * @remarks
+ * A token is only treated as permit-capable when a domain built from its name,
+ * version, chain ID and address hashes to its on-chain DOMAIN_SEPARATOR. This
+ * guarantees the signature we request will be accepted. Tokens without a
+ * version() getter are tried with the common versions "1" and "2".
+ */
+export async function detectPermitSupport(
+  provider: ethers.Provider,
+  tokenAddress: string
+): Promise<PermitSupport | null> {
+  const { chainId } = await provider.getNetwork();
+  const key = `${chainId}:${tokenAddress.toLowerCase()}`;
+
+  if (supportCache.has(key)) {
+    return supportCache.get(key) ?? null;
+  }
+
+  const token = new Contract(tokenAddress, PERMIT_ABI, provider);
+  let support: PermitSupport | null = null;
+
+  try {
+    const [name, separator]: [string, string] = await Promise.all([
+      token.name(),
+      token.DOMAIN_SEPARATOR(),
+    ]);
+
+    const versions: string[] = [];
+    try {
+      versions.push(await token.version());
+    } catch {
+      // No version() getter - fall back to the common defaults below
+    }
+    versions.push('1', '2');
+
+    for (const version of versions) {
+      const domainHash = ethers.TypedDataEncoder.hashDomain({
+        name,
+        version,
+        chainId,
+        verifyingContract: tokenAddress,
+      });
+
+      if (domainHash === separator) {
+        support = {
+          kind: tokenAddress.toLowerCase() === DAI_ADDRESS ? 'dai' : 'eip2612',
+          name,
+          version,
+        };
+        break;
+      }
+    }
+  } catch (error) {
+    // Only a revert proves the token lacks permit; other errors may be transient
+    if (!ethers.isError(error, 'CALL_EXCEPTION')) {
+      throw error;
+    }
+  }
+
+  supportCache.set(key, support);
+  return support;
+}
+
+/**
+ * Requests a permit signature and returns the encoded permit() call.
+ *
+ * @async
+ * @param {ethers.Signer} signer - The token owner's signer
+ * @param {string} tokenAddress - ERC20 token address
+ * @param {PermitSupport} support - Result of detectPermitSupport for this token
+ * @param {string} spender - Contract to approve (Minter or Redeemer)
+ * @param {bigint} value - Allowance to grant, in base units
+ * @returns {Promise<BatchCall>} The permit() call to include in the batch
+ *
+ * @remarks
+ * DAI's permit can only grant an unlimited allowance or revoke it, so `value`
+ * is ignored for DAI. Callers should only use DAI permits when the user has
+ * opted into unlimited approvals.
+ */
+export async function buildPermitCall(
+  signer: ethers.Signer,
+  tokenAddress: string,
+  support: PermitSupport,
+  spender: string,
+  value: bigint
+): Promise<BatchCall> {
+  if (!signer.provider) {
+    throw new Error('Signer has no provider');
+  }
+
+  const owner = await signer.getAddress();
+  const token = new Contract(tokenAddress, PERMIT_ABI, signer);
+  const [nonce, { chainId }]: [bigint, ethers.Network] = await Promise.all([
+    token.nonces(owner),
+    signer.provider.getNetwork(),
+  ]);
+  const deadline = BigInt(Math.floor(Date.now() / 1000) + PERMIT_TTL_SECONDS);
+
+  const domain = {
+    name: support.name,
+    version: support.version,
+    chainId,
+    verifyingContract: tokenAddress,
+  };
+
+  if (support.kind === 'dai') {
+    const signature = await signer.signTypedData(domain, DAI_TYPES, {
+      holder: owner,
+      spender,
+      nonce,
+      expiry: deadline,
+      allowed: true,
+    });
+    const { v, r, s } = ethers.Signature.from(signature);
+
+    return {
+      to: tokenAddress,
+      data: token.interface.encodeFunctionData(
+        'permit(address,address,uint256,uint256,bool,uint8,bytes32,bytes32)',
+        [owner, spender, nonce, deadline, true, v, r, s]
+      ),
+    };
+  }
+
+  const signature = await signer.signTypedData(domain, EIP2612_TYPES, {
+    owner,
+    spender,
+    value,
+    nonce,
+    deadline,
+  });
+  const { v, r, s } = ethers.Signature.from(signature);
+
+  return {
+    to: tokenAddress,
+    data: token.interface.encodeFunctionData(
+      'permit(address,address,uint256,uint256,uint8,bytes32,bytes32)',
+      [owner, spender, value, deadline, v, r, s]
+    ),
+  };
+}
+
+/**
+ * Checks whether the connected wallet can execute calls as one atomic batch.
+ *
+ * @async
+ * @param {ethers.JsonRpcApiProvider} provider - Wallet-backed provider
+ * @param {string} account - Connected account
+ * @param {number | bigint} chainId - Chain to check
+ * @returns {Promise<boolean>} True if wallet_sendCalls with atomic execution is available
+ *
+ * @remarks
+ * Understands both the current EIP-5792 capability shape (`atomic.status`) and
+ * the earlier `atomicBatch.supported` flag. Wallets that do not implement
+ * wallet_getCapabilities are reported as unsupported.
+ */
+export async function supportsAtomicBatch(
+  provider: ethers.JsonRpcApiProvider,
+  account: string,
+  chainId: number | bigint
+): Promise<boolean> {
+  const chainHex = ethers.toQuantity(chainId);
+
+  try {
+    const capabilities = await provider.send('wallet_getCapabilities', [account, [chainHex]]);
+    const chainCapabilities = capabilities?.[chainHex];
+    const atomicStatus = chainCapabilities?.atomic?.status;
+
+    return atomicStatus === 'supported' ||
+      atomicStatus === 'ready' ||
+      chainCapabilities?.atomicBatch?.supported === true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Sends calls as one atomic wallet batch and waits for it to be mined.
+ *
+ * @async
+ * @param {ethers.JsonRpcApiProvider} provider - Wallet-backed provider
+ * @param {string} from - Sending account
+ * @param {number | bigint} chainId - Chain to send on
+ * @param {BatchCall[]} calls - Calls to execute in order
+ * @returns {Promise<string>} Hash of the transaction that executed the batch
+ *
+ * @throws {Error} If the wallet does not accept the batch
+ * @throws {BatchSubmittedError} If the accepted batch reverts, fails, cannot be
+ *   polled, or is not mined within 10 minutes
+ */
+export async function sendAtomicBatch(
+  provider: ethers.JsonRpcApiProvider,
+  from: string,
+  chainId: number | bigint,
+  calls: BatchCall[]
+): Promise<string> {
+  const result = await provider.send('wallet_sendCalls', [{
+    version: '2.0.0',
+    chainId: ethers.toQuantity(chainId),
+    from,
+    atomicRequired: true,
+    calls: calls.map(call => ({ to: call.to, data: call.data, value: '0x0' })),
+  }]);
+
+  // Early EIP-5792 wallets return the bundle id directly
+  const id: string = typeof result === 'string' ? result : result.id;
+  const startedAt = Date.now();
+
+  while (Date.now() - startedAt < BATCH_TIMEOUT) {
+    let status;
+    try {
+      status = await provider.send('wallet_getCallsStatus', [id]);
+    } catch (error) {
+      throw new BatchSubmittedError(
+        `Could not check the batched transaction: ${error instanceof Error ? error.message : String(error)}`,
+        id
+      );
+    }
+
+    // Status is numeric in EIP-5792 v2 (100 pending, 200 confirmed, 4xx+ failed)
+    // and a string ("PENDING" / "CONFIRMED") in earlier wallets
+    if (status.status === 200 || status.status === 'CONFIRMED') {
+      const receipts: { status: string; transactionHash: string }[] = status.receipts ?? [];
+      const receipt = receipts[receipts.length - 1];
+
+      if (!receipt || receipts.some(r => r.status === '0x0')) {
+        throw new BatchSubmittedError('Batched transaction reverted', id);
+      }
+      return receipt.transactionHash;
+    }
+
+    if (typeof status.status === 'number' && status.status >= 400) {
+      throw new BatchSubmittedError('Batched transaction failed', id);
+    }
+
+    await new Promise(resolve => setTimeout(resolve, BATCH_POLL_INTERVAL));
+  }
+
+  throw new BatchSubmittedError(
+    'Timed out waiting for the batched transaction. It may still be executed; check your wallet before swapping again',
+    id
+  );
+}
@@ -0,0 +1,225 @@
+/**
+ * Copyright 2025 Hemi Labs. All rights reserved.
+ */
+
+/**
+ * pricing.ts - USD prices for treasury valuation and fee display
+ *
+ * This module prices tokens from pluggable sources:
+ * - Chainlink: aggregator feeds, found through the `oracles(address)` registry the
+ *   Treasury and Minter expose, or through CHAINLINK_USD_FEEDS for other assets
+ * - CoinGecko: the server's /api/market/prices proxy, used as a secondary source.
+ *   The server answers from its market data providers, CoinGecko unless it
+ *   failed over, and each price names the provider that answered.
+ *
+ * The server's treasury indexer uses the same Chainlink source with the market
+ * data providers directly (server/marketData.ts), since it cannot call its own proxy.
+ *
+ * getPrice asks every source, uses the first one in order that answers, and
+ * flags a disagreement when the sources differ by more than 2%. The result
+ * records which source priced the asset so valuations can show it.
+ *
+ * Prices are returned as plain numbers since they are only used for display
+ * and for valuations that are already approximate.
+ */
+
+import { Contract, ethers } from 'ethers';
+import { AGGREGATOR_V3_ABI } from '@/abis';
+import { CHAINLINK_USD_FEEDS, ETH_USD_FEED_ADDRESS } from '@/constants/contracts';
+import type { PriceSourceName } from '@shared/schema';
+
+export type { PriceSourceName };
+
+export interface PriceQuote {
+  source: PriceSourceName;
+  usd: number;
+  updatedAt: number | null; // Seconds since epoch, when the source reports it
+}
+
+/**
+ * A source of USD prices. Returns null when it has no price for the token.
+ */
+export interface PriceSource {
+  name: PriceSourceName;
+  getPrice: (tokenAddress: string) => Promise<PriceQuote | null>;
+}
+
+export interface PriceResult {
+  usd: number;
+  source: PriceSourceName;
+  quotes: PriceQuote[]; // Every quote received, in source order
+  disagreement: boolean; // Whether the quotes differ by more than PRICE_DISAGREEMENT_THRESHOLD
+  deviation: number; // Largest relative difference from the chosen price
+}
+
+/**
+ * Thrown by getPrice when every source answered but none knows the token,
+ * as opposed to sources failing.
+ */
+export class NoPriceError extends Error {
+  constructor(tokenAddress: string) {
+    super(`No price source for ${tokenAddress}`);
+    this.name = 'NoPriceError';
+  }
+}
+
+// Relative difference between sources above which a price is flagged
+export const PRICE_DISAGREEMENT_THRESHOLD = 0.02;
+
+// Feeds not updated for this long are ignored (the longest heartbeat on mainnet is 24h)
+const MAX_FEED_AGE_SECONDS = 25 * 60 * 60;
+
+/**
+ * Reads the latest round of a Chainlink feed.
+ *
+ * @throws {Error} If the answer is not positive or the feed is stale
+ */
+async function readFeed(
+  provider: ethers.Provider,
+  feedAddress: string
+): Promise<{ price: number; updatedAt: number }> {
+  const feed = new Contract(feedAddress, AGGREGATOR_V3_ABI, provider);
+  const [decimals, round] = await Promise.all([feed.decimals(), feed.latestRoundData()]);
+  const updatedAt = Number(round.updatedAt);
+
+  if (round.answer <= BigInt(0)) {
+    throw new Error(`Feed ${feedAddress} returned a non-positive answer`);
+  }
+  if (Date.now() / 1000 - updatedAt > MAX_FEED_AGE_SECONDS) {
+    throw new Error(`Feed ${feedAddress} is stale`);
+  }
+
+  return { price: parseFloat(ethers.formatUnits(round.answer, decimals)), updatedAt };
+}
+
+/**
+ * Reads the latest answer of a Chainlink feed as a number.
+ *
+ * @async
+ * @param {ethers.Provider} provider - Mainnet provider
+ * @param {string} feedAddress - AggregatorV3 proxy address
+ * @returns {Promise<number>} Latest price scaled by the feed's decimals
+ */
+export async function getFeedPrice(provider: ethers.Provider, feedAddress: string): Promise<number> {
+  return (await readFeed(provider, feedAddress)).price;
+}
+
+/**
+ * Reads the ETH/USD price from Chainlink.
+ *
+ * @async
+ * @param {ethers.Provider} provider - Mainnet provider
+ * @returns {Promise<number>} USD per ETH
+ */
+export async function getEthUsdPrice(provider: ethers.Provider): Promise<number> {
+  return getFeedPrice(provider, ETH_USD_FEED_ADDRESS);
+}
+
+/**
+ * Creates a price source backed by Chainlink feeds.
+ *
+ * @param {ethers.Provider} provider - Mainnet provider
+ * @param {ethers.Contract} [registry] - Contract exposing `oracles(address)`, i.e. the Treasury or Minter
+ * @returns {PriceSource} The Chainlink source
+ *
+ * @remarks
+ * CHAINLINK_USD_FEEDS is checked first; otherwise the registry is asked for the
+ * token's oracle. Feed lookups are cached for the lifetime of the source.
+ */
+export function createChainlinkSource(provider: ethers.Provider, registry?: ethers.Contract): PriceSource {
+  const feeds = new Map<string, string | null>();
+
+  const findFeed = async (tokenAddress: string): Promise<string | null> => {
+    const key = tokenAddress.toLowerCase();
+    if (feeds.has(key)) return feeds.get(key) ?? null;
+
+    let feed: string | null = CHAINLINK_USD_FEEDS[key] ?? null;
+    if (!feed && registry) {
+      const oracle: string = await registry.oracles(tokenAddress);
+      feed = oracle === ethers.ZeroAddress ? null : oracle;
+    }
+
+    feeds.set(key, feed);
+    return feed;
+  };
+
+  return {
+    name: 'chainlink',
+    getPrice: async (tokenAddress) => {
+      const feed = await findFeed(tokenAddress);
+      if (!feed) return null;
+
+      const { price, updatedAt } = await readFeed(provider, feed);
+      return { source: 'chainlink', usd: price, updatedAt };
+    },
+  };
+}
+
+/**
+ * Creates a price source backed by the server's CoinGecko proxy.
+ *
+ * @returns {PriceSource} The CoinGecko source
+ */
+export function createCoinGeckoSource(): PriceSource {
+  return {
+    name: 'coingecko',
+    getPrice: async (tokenAddress) => {
+      const address = tokenAddress.toLowerCase();
+      const response = await fetch(`/api/market/prices?addresses=${address}`);
+      if (!response.ok) {
+        throw new Error(`Price request failed with status ${response.status}`);
+      }
+
+      const prices: Record<string, { usd: number; last_updated_at: number | null; source: PriceSourceName }> =
+        await response.json();
+      const entry = prices[address];
+      return entry ? { source: entry.source, usd: entry.usd, updatedAt: entry.last_updated_at } : null;
+    },
+  };
+}
+
+/**
+ * Prices a token using every source and cross-checks the answers.
+ *
+ * @async
+ * @param {PriceSource[]} sources - Sources in order of preference
+ * @param {string} tokenAddress - Token to price
+ * @returns {Promise<PriceResult>} The preferred price, where it came from, and whether sources disagree
+ *
+ * @throws {NoPriceError} If every source answered without a price
+ * @throws {Error} If no source returns a price and at least one failed
+ *
+ * @example
+ * const sources = [createChainlinkSource(provider, treasury), createCoinGeckoSource()];
+ * const { usd, source, disagreement } = await getPrice(sources, WETH_ADDRESS);
+ */
+export async function getPrice(sources: PriceSource[], tokenAddress: string): Promise<PriceResult> {
+  const settled = await Promise.allSettled(sources.map(source => source.getPrice(tokenAddress)));
+
+  const quotes: PriceQuote[] = [];
+  settled.forEach((result, index) => {
+    if (result.status === 'fulfilled' && result.value) {
+      quotes.push(result.value);
+    } else if (result.status === 'rejected') {
+      console.error(`Price source ${sources[index].name} failed for ${tokenAddress}:`, result.reason);
+    }
+  });
+
+  if (quotes.length === 0) {
+    if (settled.every(result => result.status === 'fulfilled')) {
+      throw new NoPriceError(tokenAddress);
+    }
+    throw new Error('No price source for this asset');
+  }
+
+  const [chosen] = quotes;
+  const deviation = Math.max(...quotes.map(quote => Math.abs(quote.usd - chosen.usd) / chosen.usd));
+
+  return {
+    usd: chosen.usd,
+    source: chosen.source,
+    quotes,
+    disagreement: deviation > PRICE_DISAGREEMENT_THRESHOLD,
+    deviation,
+  };
+}
@@ -0,0 +1,109 @@
+/**
+ * Copyright 2025 Hemi Labs. All rights reserved.
+ */
+
+import { describe, expect, it } from "vitest";
+import { formatAmount, parseInputAmount, toDecimalString } from "./utils";
+
+// USDC/USDT-style and DAI/VUSD-style tokens
+const USDC_DECIMALS = 6;
+const DAI_DECIMALS = 18;
+
+describe("parseInputAmount", () => {
+  it("parses whole and fractional amounts into base units", () => {
+    expect(parseInputAmount("123.45", USDC_DECIMALS)).toBe(BigInt("123450000"));
+    expect(parseInputAmount("123.45", DAI_DECIMALS)).toBe(BigInt("123450000000000000000"));
+    expect(parseInputAmount("0.000001", USDC_DECIMALS)).toBe(BigInt(1));
+    expect(parseInputAmount("0.000000000000000001", DAI_DECIMALS)).toBe(BigInt(1));
+  });
+
+  it("accepts partial inputs as the value typed so far", () => {
+    expect(parseInputAmount("", DAI_DECIMALS)).toBe(BigInt(0));
+    expect(parseInputAmount(".", USDC_DECIMALS)).toBe(BigInt(0));
+    expect(parseInputAmount("1.", USDC_DECIMALS)).toBe(BigInt("1000000"));
+    expect(parseInputAmount(".5", DAI_DECIMALS)).toBe(BigInt("500000000000000000"));
+  });
+
+  it("rejects more fraction digits than the token has", () => {
+    expect(parseInputAmount("0.1234567", USDC_DECIMALS)).toBeNull();
+    expect(parseInputAmount("0.1234567890123456789", DAI_DECIMALS)).toBeNull();
+  });
+
+  it("rejects anything that is not a plain decimal", () => {
+    for (const value of ["abc", "1,000", "1e18", "-1", "1.2.3", "0x10"]) {
+      expect(parseInputAmount(value, USDC_DECIMALS)).toBeNull();
+      expect(parseInputAmount(value, DAI_DECIMALS)).toBeNull();
+    }
+  });
+
+  it("parses amounts too large for a float without losing precision", () => {
+    expect(parseInputAmount("123456789012345678901234.123456789012345678", DAI_DECIMALS))
+      .toBe(BigInt("123456789012345678901234123456789012345678"));
+  });
+});
+
+describe("toDecimalString", () => {
+  it("round-trips through parseInputAmount", () => {
+    const cases: [string, number][] = [
+      ["1.5", USDC_DECIMALS],
+      ["0.000001", USDC_DECIMALS],
+      ["1000000", USDC_DECIMALS],
+      ["1.5", DAI_DECIMALS],
+      ["0.000000000000000001", DAI_DECIMALS],
+      ["123456789012345678901234.123456789012345678", DAI_DECIMALS],
+    ];
+
+    for (const [value, decimals] of cases) {
+      const amount = parseInputAmount(value, decimals)!;
+      expect(toDecimalString(amount, decimals)).toBe(value);
+      expect(parseInputAmount(toDecimalString(amount, decimals), decimals)).toBe(amount);
+    }
+  });
+
+  it("drops trailing zeros and never appends .0", () => {
+    expect(toDecimalString(BigInt("1500000"), USDC_DECIMALS)).toBe("1.5");
+    expect(toDecimalString(BigInt("1000000000000000000"), DAI_DECIMALS)).toBe("1");
+    expect(toDecimalString(BigInt(0), DAI_DECIMALS)).toBe("0");
+  });
+
+  it("keeps the sign of negative amounts", () => {
+    expect(toDecimalString(BigInt("-1500000"), USDC_DECIMALS)).toBe("-1.5");
+  });
+});
+
+describe("formatAmount", () => {
+  it("groups the integer part and shows at least two decimals", () => {
+    expect(formatAmount(BigInt("1234567800"), USDC_DECIMALS)).toBe("1,234.5678");
+    expect(formatAmount(BigInt("1000000"), USDC_DECIMALS)).toBe("1.00");
+    expect(formatAmount(BigInt("1000000000000000000000"), DAI_DECIMALS)).toBe("1,000.00");
+  });
+
+  it("truncates extra fraction digits instead of rounding", () => {
+    expect(formatAmount(BigInt("1999999"), USDC_DECIMALS, 2)).toBe("1.99");
+    expect(formatAmount(BigInt("1999999999999999999"), DAI_DECIMALS)).toBe("1.999999");
+    expect(formatAmount(BigInt("1234560000000000000"), DAI_DECIMALS, 2)).toBe("1.23");
+  });
+
+  it("shows amounts below the shown precision as a lower bound", () => {
+    expect(formatAmount(BigInt(1), USDC_DECIMALS, 2)).toBe("<0.01");
+    expect(formatAmount(BigInt(1), DAI_DECIMALS)).toBe("<0.000001");
+    expect(formatAmount(BigInt(1), DAI_DECIMALS, 2)).toBe("<0.01");
+  });
+
+  it("shows the smallest unit exactly when it fits the precision", () => {
+    expect(formatAmount(BigInt(1), USDC_DECIMALS)).toBe("0.000001");
+  });
+
+  it("formats zero as 0", () => {
+    expect(formatAmount(BigInt(0), USDC_DECIMALS)).toBe("0");
+    expect(formatAmount(BigInt(0), DAI_DECIMALS)).toBe("0");
+  });
+
+  it("formats large bigint values exactly", () => {
+    // 10^30 DAI, far beyond Number.MAX_SAFE_INTEGER in base units
+    expect(formatAmount(BigInt("1" + "0".repeat(48)), DAI_DECIMALS))
+      .toBe("1,000,000,000,000,000,000,000,000,000,000.00");
+    expect(formatAmount(BigInt("123456789012345678901234567890123456"), USDC_DECIMALS))
+      .toBe("123,456,789,012,345,678,901,234,567,890.123456");
+  });
+});
@@ -9,10 +9,14 @@
  * - Class name merging for conditional Tailwind CSS classes
  * - Ethereum address formatting for display purposes
  * - Number formatting utilities for currency and token amounts
+ * - Exact bigint <-> decimal string conversion for token base units
  * - Exchange rate calculations for the swap interface
  * - Copy to clipboard functionality
  * - Input validation and parsing
  * 
+ * Token amounts are carried as bigint base units (e.g. 1 USDC = 1000000n) and only
+ * converted to strings for display, so 18-decimal values never pass through floats.
+ * 
  * These functions encapsulate common operations to ensure consistency
  * and reduce code duplication across components.
  */
@@ -63,36 +67,76 @@ export function shortenAddress(address: string): string {
 }
 
 /**
- * Formats a number for display with appropriate decimal places.
+ * Returns 10^decimals as a bigint, the size of one whole token in base units.
  * 
- * @param {number|string} amount - The amount to format
- * @param {number} [decimals=2] - Maximum number of decimal places to show
- * @param {boolean} [forceMaxPrecision=false] - Whether to always show the maximum decimals 
+ * @param {number} decimals - Token decimals (e.g., 6 for USDC, 18 for VUSD)
+ * @returns {bigint} The base-unit multiplier
+ */
+export function tokenUnit(decimals: number): bigint {
+  return BigInt("1" + "0".repeat(decimals));
+}
+
+/**
+ * Converts a bigint amount in base units to an exact decimal string.
+ * 
+ * @param {bigint} amount - Amount in the token's base units
+ * @param {number} decimals - Token decimals
+ * @returns {string} Plain decimal string without grouping or trailing zeros
+ * 
+ * @remarks
+ * Unlike ethers.formatUnits this never appends ".0", so the result can be put
+ * straight into an amount field and parsed back to the same bigint.
+ * 
+ * @example
+ * toDecimalString(1500000n, 6) // Returns: "1.5"
+ * toDecimalString(10n ** 18n, 18) // Returns: "1"
+ */
+export function toDecimalString(amount: bigint, decimals: number): string {
+  const negative = amount < BigInt(0);
+  const abs = negative ? -amount : amount;
+  const unit = tokenUnit(decimals);
+  const whole = (abs / unit).toString();
+  const fraction = (abs % unit).toString().padStart(decimals, "0").replace(/0+$/, "");
+  
+  return `${negative ? "-" : ""}${whole}${fraction ? `.${fraction}` : ""}`;
+}
+
+/**
+ * Formats a bigint token amount for display with appropriate decimal places.
+ * 
+ * @param {bigint} amount - Amount in the token's base units
+ * @param {number} decimals - Token decimals used to scale the amount
+ * @param {number} [maxFractionDigits=6] - Maximum number of decimal places to show
  * @returns {string} Formatted amount string
  * 
  * @remarks
- * This function handles formatting token amounts with appropriate precision:
- * - Very small values (<0.01) are displayed as "<0.01" unless forceMaxPrecision is true
- * - Other values are formatted with appropriate decimal places using locale settings
- * - Maximum decimals is capped at 6 unless forceMaxPrecision is true
+ * This function formats token amounts without converting them to floating point:
+ * - The fraction is truncated (never rounded up) to maxFractionDigits
+ * - At least 2 decimal places are shown, matching currency-style display
+ * - Non-zero values smaller than the shown precision display as "<0.000001"
+ * - The integer part is grouped with commas
  * 
  * @example
- * formatAmount(1234.5678) // Returns: "1,234.57"
- * formatAmount(0.0012345) // Returns: "<0.01"
- * formatAmount(0.0012345, 4, true) // Returns: "0.0012"
+ * formatAmount(1234567800n, 6) // Returns: "1,234.5678"
+ * formatAmount(1n, 18) // Returns: "<0.000001"
+ * formatAmount(1234560000000000000n, 18, 2) // Returns: "1.23"
  */
-export function formatAmount(amount: number | string, decimals: number = 2, forceMaxPrecision: boolean = false): string {
-  if (!amount) return "0";
-  const num = typeof amount === "string" ? parseFloat(amount) : amount;
+export function formatAmount(amount: bigint, decimals: number, maxFractionDigits: number = 6): string {
+  if (amount === BigInt(0)) return "0";
+  
+  const digits = Math.min(maxFractionDigits, decimals);
+  const unit = tokenUnit(decimals);
+  const whole = amount / unit;
+  const fraction = (amount % unit).toString().padStart(decimals, "0").slice(0, digits);
   
-  if (num < 0.01 && !forceMaxPrecision) {
-    return "<0.01";
+  if (whole === BigInt(0) && /^0*$/.test(fraction)) {
+    return `<0.${"0".repeat(Math.max(digits - 1, 0))}1`;
   }
   
-  return num.toLocaleString(undefined, {
-    minimumFractionDigits: 2,
-    maximumFractionDigits: forceMaxPrecision ? decimals : Math.min(decimals, 6)
-  });
+  const trimmed = fraction.replace(/0+$/, "").padEnd(Math.min(2, digits), "0");
+  const grouped = whole.toString().replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+  
+  return trimmed ? `${grouped}.${trimmed}` : grouped;
 }
 
 /**
@@ -147,32 +191,39 @@ export function formatCurrency(amount: number | string, currency: string = "$",
 /**
  * Calculates and formats the exchange rate between two tokens.
  * 
- * @param {number} fromAmount - Amount of the source token
- * @param {number} toAmount - Equivalent amount of the destination token
+ * @param {bigint} fromAmount - Amount of the source token in base units
+ * @param {bigint} toAmount - Equivalent amount of the destination token in base units
  * @param {string} fromToken - Symbol of the source token
  * @param {string} toToken - Symbol of the destination token
+ * @param {number} fromDecimals - Decimals of the source token
+ * @param {number} toDecimals - Decimals of the destination token
  * @param {number} [maxDecimals=6] - Maximum decimal places to show in the rate
  * @returns {string} Formatted exchange rate string
  * 
  * @remarks
  * This function calculates the exchange rate between two tokens and formats
  * it into a human-readable string showing how much of the destination token
- * you get for 1 unit of the source token.
+ * you get for 1 unit of the source token. The division is done in bigint
+ * after normalizing both sides, so mixed 6/18-decimal pairs stay exact.
  * 
  * @example
- * calculateExchangeRate(1, 1.002, "USDC", "VUSD") 
- * // Returns: "1 USDC = 1.002000 VUSD"
+ * calculateExchangeRate(1000000n, 999900000000000000n, "USDC", "VUSD", 6, 18) 
+ * // Returns: "1 USDC = 0.999900 VUSD"
  */
 export function calculateExchangeRate(
-  fromAmount: number, 
-  toAmount: number, 
+  fromAmount: bigint, 
+  toAmount: bigint, 
   fromToken: string, 
   toToken: string,
+  fromDecimals: number,
+  toDecimals: number,
   maxDecimals: number = 6
 ): string {
-  if (!fromAmount || !toAmount) return `1 ${fromToken} = - ${toToken}`;
-  const rate = toAmount / fromAmount;
-  return `1 ${fromToken} = ${rate.toFixed(maxDecimals)} ${toToken}`;
+  if (fromAmount <= BigInt(0) || toAmount <= BigInt(0)) return `1 ${fromToken} = - ${toToken}`;
+  const rate = (toAmount * tokenUnit(fromDecimals) * tokenUnit(maxDecimals)) / (fromAmount * tokenUnit(toDecimals));
+  const unit = tokenUnit(maxDecimals);
+  const fraction = (rate % unit).toString().padStart(maxDecimals, "0");
+  return `1 ${fromToken} = ${(rate / unit).toString()}${maxDecimals > 0 ? `.${fraction}` : ""} ${toToken}`;
 }
 
 /**
@@ -195,22 +246,30 @@ export async function copyToClipboard(text: string): Promise<void> {
 }
 
 /**
- * Safely parses a string input as a number, handling invalid inputs.
+ * Parses a decimal string typed by the user into bigint base units.
  * 
  * @param {string} value - The string value to parse
- * @returns {number} The parsed number, or 0 if parsing fails
+ * @param {number} decimals - Decimals of the token the amount is denominated in
+ * @returns {bigint|null} The amount in base units, or null if the input is invalid
  * 
  * @remarks
- * This function is primarily used for handling user input in number fields.
- * It ensures that even invalid inputs (like empty strings or non-numeric text)
- * are handled gracefully by returning 0 instead of NaN.
+ * This function is primarily used for handling user input in amount fields.
+ * Partial inputs such as "", "." and "1." are valid and parse to the value typed
+ * so far. Inputs with more fraction digits than the token supports, or anything
+ * that is not a plain decimal, return null so the keystroke can be rejected.
  * 
  * @example
- * parseInputAmount("123.45") // Returns: 123.45
- * parseInputAmount("") // Returns: 0
- * parseInputAmount("abc") // Returns: 0
+ * parseInputAmount("123.45", 6) // Returns: 123450000n
+ * parseInputAmount("", 18) // Returns: 0n
+ * parseInputAmount("0.1234567", 6) // Returns: null
+ * parseInputAmount("abc", 18) // Returns: null
  */
-export function parseInputAmount(value: string): number {
-  const parsed = parseFloat(value);
-  return isNaN(parsed) ? 0 : parsed;
+export function parseInputAmount(value: string, decimals: number): bigint | null {
+  const match = /^(\d*)(?:\.(\d*))?$/.exec(value.trim());
+  if (!match) return null;
+  
+  const [, whole = "", fraction = ""] = match;
+  if (fraction.length > decimals) return null;
+  
+  return BigInt(whole || "0") * tokenUnit(decimals) + BigInt(fraction.padEnd(decimals, "0") || "0");
 }
@@ -7,9 +7,16 @@
  * 
  * This page provides comprehensive visualizations and data insights for the VUSD treasury.
  * Key features:
+ * - VUSD market data from CoinGecko and from its Curve and SushiSwap pools
+ * - A peg monitor comparing pool prices with the mint/redeem band, with arbitrage hints and peg events
  * - Treasury composition breakdown (T1 and T2 assets)
- * - Collateralization ratio monitoring
+ * - Collateralization ratio monitoring, with its history and governance events over 24h/7d/30d/all
+ * - Health alerts (low collateralization, concentration, stablecoin depegs) from the server's monitor
+ * - A toggle to include the VUSD the Treasury holds through LP positions (self-backing) in the ratio
  * - Detailed asset listings with real-time values
+ * - Block the figures were read at, skeletons while loading, and an error state with retry
+ * - The price source of each T2 asset, flagged when sources disagree
+ * - A proof-of-reserves report export (CSV, JSON or printable HTML)
  * - Interactive visualizations using recharts
  * 
  * The analytics are designed to provide transparency about the backing assets of VUSD,
@@ -18,8 +25,18 @@
  * communicate the risk profile of the treasury.
  */
 
+import { ReactNode, useState } from "react";
 import TreasuryCard from "@/components/analytics/TreasuryCard";
+import TreasuryStatusNotice from "@/components/analytics/TreasuryStatusNotice";
+import TreasuryAlertBanner from "@/components/analytics/TreasuryAlertBanner";
+import CollateralizationHistoryChart from "@/components/analytics/CollateralizationHistoryChart";
+import ReservesReportMenu from "@/components/analytics/ReservesReportMenu";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
 import { MarketDataCard } from "@/components/analytics/MarketDataCard";
+import { PoolMarketCard } from "@/components/analytics/PoolMarketCard";
+import PegMonitorCard from "@/components/analytics/PegMonitorCard";
+import { VUSD_POOLS } from "@/constants/vusdPools";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { 
@@ -34,10 +51,19 @@ import {
   Pie,
   Cell
 } from 'recharts';
-import { useTreasury } from "@/hooks/useTreasury";
+import { useTreasury, TreasuryAsset } from "@/hooks/useTreasury";
+import { PriceSourceName } from "@/lib/pricing";
 import { formatCurrency } from "@/lib/utils";
 import { ArrowRight } from "lucide-react";
 
+// Display names for the price sources recorded on T2 assets
+const PRICE_SOURCE_LABELS: Record<PriceSourceName, string> = {
+  chainlink: "Chainlink",
+  coingecko: "CoinGecko",
+  onchain: "on-chain data",
+  fixture: "fixture",
+};
+
 /**
  * Analytics component for visualizing VUSD market and treasury data.
  * 
@@ -51,9 +77,13 @@ import { ArrowRight } from "lucide-react";
  * - 24-hour price change percentage
  * - Market capitalization and trading volume
  * - Link to CoinGecko for more detailed market information
+ * - Spot price, liquidity and price impact of each VUSD pool on Curve and SushiSwap
+ * - Each pool's price against the mint/redeem band, the arbitrage it allows, and its peg history
  * 
  * Treasury Analytics section:
- * - Key metrics: Treasury value, circulating supply, and collateralization ratio
+ * - Key metrics: Treasury value, circulating supply, and collateralization ratio,
+ *   optionally counting self-backing VUSD held through LP positions at face value
+ * - History of those metrics and the T1/T2 split, with governance events marked
  * - Visual breakdowns of treasury composition through interactive charts
  * - Detailed listings of both T1 assets (whitelisted stablecoins) and T2 assets (other)
  * 
@@ -64,7 +94,38 @@ import { ArrowRight } from "lucide-react";
  * All monetary values are formatted consistently using the formatCurrency utility.
  */
 const Analytics = () => {
-  const { treasuryData, loading } = useTreasury();
+  const { treasuryData, loading, refreshTreasuryData } = useTreasury();
+  const pending = treasuryData.status === "loading";
+  // An error before any successful read leaves nothing to show
+  const hasData = treasuryData.blockNumber !== null;
+  
+  // VUSD in LP positions is excluded from reserves by default, since VUSD cannot back itself
+  const [includeSelfBacking, setIncludeSelfBacking] = useState(false);
+  const collateralizationRatio = includeSelfBacking && treasuryData.circulatingSupply > 0
+    ? (treasuryData.totalValue + treasuryData.selfBackingValue) / treasuryData.circulatingSupply
+    : treasuryData.collateralizationRatio;
+  
+  /**
+   * Renders a figure, a skeleton while the first read is running, or a dash
+   * when no data could be read.
+   */
+  const figure = (content: ReactNode, skeletonClass = "h-9 w-40") => {
+    if (pending) return <Skeleton className={skeletonClass} />;
+    return hasData ? content : "—";
+  };
+  
+  /**
+   * Renders an asset's value, or why it could not be valued.
+   */
+  const assetValue = (asset: TreasuryAsset) => {
+    if (asset.error) {
+      return <span className="text-yellow-500 text-sm" title={asset.error}>Unavailable</span>;
+    }
+    if (asset.unpriced) {
+      return <span className="text-gray-400 text-sm" title="No price source for this token">Unpriced</span>;
+    }
+    return formatCurrency(asset.value);
+  };
   
   // Color constants for consistent visual styling
   const COLORS = ['#3B82F6', '#F59E0B', '#10B981', '#6366F1'];
@@ -82,29 +143,36 @@ const Analytics = () => {
           <div className="col-span-1 md:col-span-1 lg:col-span-1">
             <MarketDataCard />
           </div>
-          {/* Additional market cards will be added here in the future */}
-          <div className="col-span-1 md:col-span-1 lg:col-span-3 flex items-center justify-center bg-background-light/30 rounded-lg border border-border/50 p-6">
-            <div className="text-center">
-              <h3 className="text-lg font-medium mb-2 opacity-70">More Market Data Coming Soon</h3>
-              <p className="text-sm text-muted-foreground max-w-md">
-                Additional market data from Uniswap, Curve, and Sushiswap will be available in future updates.
-              </p>
+          {/* On-chain data of the VUSD pools on Curve and SushiSwap */}
+          {VUSD_POOLS.map(pool => (
+            <div key={pool.id} className="col-span-1">
+              <PoolMarketCard pool={pool} />
             </div>
-          </div>
+          ))}
+        </div>
+        <div className="mt-6">
+          <PegMonitorCard />
         </div>
       </div>
       
       {/* Treasury Section */}
-      <h2 className="text-2xl font-bold mb-4 bg-gradient-to-r from-blue-500 to-cyan-500 bg-clip-text text-transparent">Treasury</h2>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-2xl font-bold bg-gradient-to-r from-blue-500 to-cyan-500 bg-clip-text text-transparent">Treasury</h2>
+        <ReservesReportMenu disabled={!hasData} />
+      </div>
+      <TreasuryAlertBanner />
+      <div className="mb-4">
+        <TreasuryStatusNotice data={treasuryData} loading={loading} onRetry={refreshTreasuryData} />
+      </div>
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
         <Card>
           <CardHeader className="pb-2">
             <CardTitle className="text-lg font-medium text-gray-400">Treasury Value</CardTitle>
           </CardHeader>
           <CardContent>
-            <p className="text-3xl font-bold">
-              {loading ? "Loading..." : formatCurrency(treasuryData.totalValue)}
-            </p>
+            <div className="text-3xl font-bold">
+              {figure(formatCurrency(treasuryData.totalValue))}
+            </div>
           </CardContent>
         </Card>
         
@@ -113,9 +181,9 @@ const Analytics = () => {
             <CardTitle className="text-lg font-medium text-gray-400">Circulating Supply</CardTitle>
           </CardHeader>
           <CardContent>
-            <p className="text-3xl font-bold">
-              {loading ? "Loading..." : formatCurrency(treasuryData.circulatingSupply)}
-            </p>
+            <div className="text-3xl font-bold">
+              {figure(formatCurrency(treasuryData.circulatingSupply))}
+            </div>
           </CardContent>
         </Card>
         
@@ -124,13 +192,24 @@ const Analytics = () => {
             <CardTitle className="text-lg font-medium text-gray-400">Collateralization Ratio</CardTitle>
           </CardHeader>
           <CardContent>
-            <p className="text-3xl font-bold">
-              {loading ? "Loading..." : `${(treasuryData.collateralizationRatio * 100).toFixed(2)}%`}
-            </p>
+            <div className="text-3xl font-bold">
+              {figure(`${(collateralizationRatio * 100).toFixed(2)}%`)}
+            </div>
+            {treasuryData.selfBackingValue > 0 && (
+              <label className="mt-3 flex items-center justify-between gap-2 text-xs text-gray-400">
+                <span title="VUSD the Treasury holds through LP positions, at face value">
+                  Include self-backing VUSD ({formatCurrency(treasuryData.selfBackingValue)})
+                </span>
+                <Switch checked={includeSelfBacking} onCheckedChange={setIncludeSelfBacking} />
+              </label>
+            )}
           </CardContent>
         </Card>
       </div>
       
+      {/* Collateralization history from stored snapshots */}
+      <CollateralizationHistoryChart />
+      
       {/* Full-width Treasury Composition Card with horizontal layout */}
       <Card className="w-full mb-6">
         <CardHeader>
@@ -149,7 +228,7 @@ const Analytics = () => {
                         <span className="text-sm font-medium">T1 (Whitelisted Stablecoins)</span>
                       </div>
                     </td>
-                    <td className="p-3 text-right font-medium">{formatCurrency(treasuryData.t1Value)}</td>
+                    <td className="p-3 text-right font-medium">{figure(formatCurrency(treasuryData.t1Value), "h-5 w-20 ml-auto")}</td>
                   </tr>
                   <tr className="border-b border-gray-800">
                     <td className="p-3 bg-background-light">
@@ -158,7 +237,7 @@ const Analytics = () => {
                         <span className="text-sm font-medium">T2 (Other Assets)</span>
                       </div>
                     </td>
-                    <td className="p-3 text-right font-medium">{formatCurrency(treasuryData.t2Value)}</td>
+                    <td className="p-3 text-right font-medium">{figure(formatCurrency(treasuryData.t2Value), "h-5 w-20 ml-auto")}</td>
                   </tr>
                   <tr>
                     <td className="p-3 bg-background-light">
@@ -167,15 +246,17 @@ const Analytics = () => {
                         <span className="text-sm font-medium">Excess Value</span>
                       </div>
                     </td>
-                    <td className="p-3 text-right font-medium text-green-500">+{formatCurrency(treasuryData.excessValue)}</td>
+                    <td className="p-3 text-right font-medium text-green-500">{figure(`+${formatCurrency(treasuryData.excessValue)}`, "h-5 w-20 ml-auto")}</td>
                   </tr>
                 </tbody>
               </table>
             </div>
           </div>
           
-          {loading ? (
-            <div className="h-[350px] flex items-center justify-center">Loading...</div>
+          {pending ? (
+            <Skeleton className="h-[350px] w-full" />
+          ) : !hasData ? (
+            <div className="h-[350px] flex items-center justify-center text-gray-400">No treasury data available</div>
           ) : (
             <div className="flex flex-col md:flex-row gap-6 mb-2">
               {/* Left side: Main Treasury Composition Pie Chart (T1 assets individually + T2 as a single slice) */}
@@ -330,6 +411,7 @@ const Analytics = () => {
               <div>
                 <h3 className="text-sm text-blue-500 font-medium mb-2">T1 Assets (Whitelisted Stablecoins)</h3>
                 <div className="space-y-2">
+                  {pending && [0, 1, 2].map(i => <Skeleton key={i} className="h-10 w-full rounded-lg" />)}
                   {treasuryData.t1Assets.map((asset) => (
                     <div key={asset.symbol} className="flex justify-between items-center p-2 bg-background-light rounded-lg">
                       <div className="flex items-center">
@@ -338,7 +420,7 @@ const Analytics = () => {
                         </div>
                         <span>{asset.name}</span>
                       </div>
-                      <div>{formatCurrency(asset.value)}</div>
+                      <div>{assetValue(asset)}</div>
                     </div>
                   ))}
                 </div>
@@ -347,6 +429,7 @@ const Analytics = () => {
               <div>
                 <h3 className="text-sm text-purple-500 font-medium mb-2">T2 Assets (Non-whitelisted)</h3>
                 <div className="space-y-2">
+                  {pending && [0, 1, 2].map(i => <Skeleton key={i} className="h-10 w-full rounded-lg" />)}
                   {treasuryData.t2Assets.map((asset) => (
                     <div key={asset.symbol} className="flex justify-between items-center p-2 bg-background-light rounded-lg">
                       <div className="flex items-center">
@@ -355,7 +438,15 @@ const Analytics = () => {
                         </div>
                         <span>{asset.name}</span>
                       </div>
-                      <div>{formatCurrency(asset.value)}</div>
+                      <div className="text-right">
+                        <div>{assetValue(asset)}</div>
+                        {asset.priceSource && (
+                          <div className={`text-xs ${asset.priceDisagreement ? "text-yellow-500" : "text-gray-400"}`}>
+                            via {PRICE_SOURCE_LABELS[asset.priceSource]}
+                            {asset.priceDisagreement && " · sources disagree"}
+                          </div>
+                        )}
+                      </div>
                     </div>
                   ))}
                 </div>
@@ -0,0 +1,27 @@
+/**
+ * Copyright 2025 Hemi Labs. All rights reserved.
+ */
+
+/**
+ * History.tsx - Transaction history page
+ * 
+ * This page lists the connected wallet's past and pending swaps:
+ * - Mints of VUSD through the Minter contract
+ * - Redeems of VUSD through the Redeemer contract
+ * 
+ * The history is rebuilt from on-chain logs, so it is available on any device,
+ * and is merged with swaps recorded locally while they are still pending.
+ */
+
+import TransactionHistory from "@/components/history/TransactionHistory";
+
+const History = () => {
+  return (
+    <div className="max-w-4xl mx-auto">
+      <h1 className="text-3xl font-heading font-bold mb-6">History</h1>
+      <TransactionHistory />
+    </div>
+  );
+};
+
+export default History;
@@ -0,0 +1,39 @@
+/**
+ * Copyright 2025 Hemi Labs. All rights reserved.
+ */
+
+/**
+ * settingsStore.ts - User preferences for the VUSD application
+ *
+ * This module keeps user-selectable settings that outlive a single session.
+ * It uses Zustand with the persist middleware so choices survive page reloads:
+ * - Approval mode: whether token approvals cover only the amount being swapped
+ *   ("exact") or grant the Minter/Redeemer an unlimited allowance ("unlimited")
+ *
+ * Exact approvals are the default so that no contract holds an open-ended
+ * allowance unless the user explicitly opts in.
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+export type ApprovalMode = 'exact' | 'unlimited';
+
+interface SettingsState {
+  approvalMode: ApprovalMode;
+
+  setApprovalMode: (approvalMode: ApprovalMode) => void;
+}
+
+export const useSettingsStore = create<SettingsState>()(
+  persist(
+    (set) => ({
+      approvalMode: 'exact',
+
+      setApprovalMode: (approvalMode) => set({ approvalMode }),
+    }),
+    {
+      name: 'vusd-settings',
+    }
+  )
+);
@@ -0,0 +1,94 @@
+/**
+ * Copyright 2025 Hemi Labs. All rights reserved.
+ */
+
+/**
+ * transactionStore.ts - Locally recorded swap transactions
+ *
+ * This module keeps a record of every mint and redeem submitted from this
+ * browser. It uses Zustand with the persist middleware so records survive
+ * page reloads. The record is used to:
+ * - Show submitted transactions in the history before they are mined
+ * - Include swaps sent to another address, which cannot be found from the
+ *   connected wallet's logs alone
+ * - Resume watching pending transactions after a reload (see usePendingTransactions),
+ *   including detecting when a transaction was sped up, cancelled or replaced
+ *   by another transaction with the same nonce
+ *
+ * Amounts are stored as decimal strings because bigint is not JSON-serializable.
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+// Records kept per account; older entries are dropped first
+const MAX_RECORDS_PER_ACCOUNT = 100;
+
+/**
+ * Lifecycle of a recorded transaction. "cancelled" and "replaced" mean another
+ * transaction from the same account used its nonce; a sped-up transaction keeps
+ * its record, which is moved to the replacement's hash.
+ */
+export type LocalTransactionStatus = 'pending' | 'confirmed' | 'failed' | 'cancelled' | 'replaced';
+
+export interface LocalTransaction {
+  hash: string;
+  account: string;
+  status: LocalTransactionStatus;
+  type: 'mint' | 'redeem';
+  fromToken: string;
+  toToken: string;
+  fromAmount: string;
+  toAmount: string;
+  recipient: string | null;
+  submittedAt: number;
+  /** Sender nonce, used to detect replacement; null if unknown (e.g. wallet batches) */
+  nonce: number | null;
+  /** Destination and calldata, used to tell a sped-up copy from a different transaction */
+  to: string | null;
+  data: string | null;
+  /** Latest block when the transaction was sent, where the replacement search starts */
+  startBlock: number | null;
+  blockNumber: number | null;
+  /** Original hash when this record was moved to a sped-up replacement */
+  replacedHash?: string;
+}
+
+interface TransactionState {
+  transactions: LocalTransaction[];
+
+  addTransaction: (transaction: LocalTransaction) => void;
+  updateTransaction: (hash: string, changes: Partial<LocalTransaction>) => void;
+}
+
+export const useTransactionStore = create<TransactionState>()(
+  persist(
+    (set) => ({
+      transactions: [],
+
+      addTransaction: (transaction) => set((state) => {
+        const account = transaction.account.toLowerCase();
+        const others = state.transactions.filter(tx => tx.hash !== transaction.hash);
+        const forAccount = others.filter(tx => tx.account === account);
+        const overflow = forAccount.length - (MAX_RECORDS_PER_ACCOUNT - 1);
+        const dropped = new Set(overflow > 0 ? forAccount.slice(0, overflow).map(tx => tx.hash) : []);
+
+        return {
+          transactions: [
+            ...others.filter(tx => !dropped.has(tx.hash)),
+            { ...transaction, account },
+          ],
+        };
+      }),
+
+      updateTransaction: (hash, changes) => set((state) => ({
+        transactions: state.transactions.map(tx =>
+          tx.hash === hash ? { ...tx, ...changes } : tx
+        ),
+      })),
+    }),
+    {
+      name: 'vusd-transactions',
+    }
+  )
+);
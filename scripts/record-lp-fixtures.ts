@@ -0,0 +1,164 @@
+/**
+ * Copyright 2025 Hemi Labs. All rights reserved.
+ */
+
+/**
+ * record-lp-fixtures.ts - Records mainnet state for the LP valuation tests
+ *
+ * Usage:
+ *   ETH_RPC_URL=<archive node> npm run record:lp-fixtures -- <block> <v3 token id> [lp holder]
+ *
+ * Writes server/fixtures/lp-valuation.json with, at the given block:
+ * - The crvUSD/VUSD stable-swap NG pool's get_virtual_price, coins, balances
+ *   and coin decimals, and what remove_liquidity pays the LP holder (the
+ *   Treasury by default) for its whole balance
+ * - A Uniswap V3 position's positions() entry, its pool's slot0 and token
+ *   decimals, and what decreaseLiquidity pays its owner for all its liquidity
+ *
+ * The withdrawal amounts are computed by the contracts themselves, so the
+ * tests compare the valuation against the chain rather than against our math.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { ethers } from 'ethers';
+import { ERC20_ABI, UNISWAP_V3_FACTORY_ABI, UNISWAP_V3_POOL_ABI, UNISWAP_V3_POSITION_MANAGER_ABI } from '@/abis';
+import {
+  CURVE_STABLESWAP_NG_FACTORY_ADDRESS,
+  TREASURY_ADDRESS,
+  UNISWAP_V3_FACTORY_ADDRESS,
+  UNISWAP_V3_POSITION_MANAGER_ADDRESS,
+} from '@/constants/contracts';
+import { CURVE_POOL_ABI } from '@/constants/treasuryAssets';
+import { VUSD_POOLS } from '@/constants/vusdPools';
+
+const FIXTURE_PATH = 'server/fixtures/lp-valuation.json';
+
+const CURVE_NG_ABI = [
+  ...CURVE_POOL_ABI,
+  ...ERC20_ABI,
+  'function remove_liquidity(uint256 _burn_amount, uint256[] _min_amounts) returns (uint256[])',
+];
+
+const POSITION_MANAGER_ABI = [
+  ...UNISWAP_V3_POSITION_MANAGER_ABI,
+  'function ownerOf(uint256 tokenId) view returns (address)',
+  'function decreaseLiquidity((uint256 tokenId, uint128 liquidity, uint256 amount0Min, uint256 amount1Min, uint256 deadline) params) payable returns (uint256 amount0, uint256 amount1)',
+];
+
+const readDecimals = async (provider: ethers.Provider, tokens: string[], blockTag: number) => {
+  const decimals: Record<string, number> = {};
+  for (const token of tokens) {
+    decimals[token] = Number(await new ethers.Contract(token, ERC20_ABI, provider).decimals({ blockTag }));
+  }
+  return decimals;
+};
+
+async function recordCurve(provider: ethers.Provider, blockTag: number, holder: string) {
+  const { curveFactoryIndex } = VUSD_POOLS.find(pool => pool.id === 'curve-crvusd-vusd')!;
+  const factory = new ethers.Contract(
+    CURVE_STABLESWAP_NG_FACTORY_ADDRESS,
+    ['function pool_list(uint256 i) external view returns (address)'],
+    provider
+  );
+  const address: string = await factory.pool_list(curveFactoryIndex, { blockTag });
+  const pool = new ethers.Contract(address, CURVE_NG_ABI, provider);
+
+  const coins: string[] = [];
+  const balances: bigint[] = [];
+  for (let i = 0; ; i++) {
+    try {
+      const [coin, balance] = await Promise.all([
+        pool['coins(uint256)'](i, { blockTag }),
+        pool['balances(uint256)'](i, { blockTag }),
+      ]);
+      coins.push(coin);
+      balances.push(balance);
+    } catch {
+      break;
+    }
+  }
+
+  const lpBalance: bigint = await pool.balanceOf(holder, { blockTag });
+  if (lpBalance === BigInt(0)) {
+    throw new Error(`${holder} holds no LP tokens of ${address} at block ${blockTag}`);
+  }
+  const removeLiquidity: bigint[] = await pool.remove_liquidity.staticCall(
+    lpBalance,
+    coins.map(() => 0),
+    { from: holder, blockTag }
+  );
+
+  return {
+    pool: address,
+    virtualPrice: String(await pool.get_virtual_price({ blockTag })),
+    coins,
+    balances: balances.map(String),
+    decimals: await readDecimals(provider, coins, blockTag),
+    holder,
+    lpBalance: String(lpBalance),
+    removeLiquidity: Array.from(removeLiquidity, String),
+  };
+}
+
+async function recordUniswapV3(provider: ethers.Provider, blockTag: number, tokenId: string) {
+  const manager = new ethers.Contract(UNISWAP_V3_POSITION_MANAGER_ADDRESS, POSITION_MANAGER_ABI, provider);
+  const factory = new ethers.Contract(UNISWAP_V3_FACTORY_ADDRESS, UNISWAP_V3_FACTORY_ABI, provider);
+
+  const [position, owner] = await Promise.all([
+    manager.positions(tokenId, { blockTag }),
+    manager.ownerOf(tokenId, { blockTag }),
+  ]);
+  const poolAddress: string = await factory.getPool(position.token0, position.token1, position.fee, { blockTag });
+  const slot0 = await new ethers.Contract(poolAddress, UNISWAP_V3_POOL_ABI, provider).slot0({ blockTag });
+
+  const [amount0, amount1]: bigint[] = await manager.decreaseLiquidity.staticCall(
+    { tokenId, liquidity: position.liquidity, amount0Min: 0, amount1Min: 0, deadline: ethers.MaxUint256 },
+    { from: owner, blockTag }
+  );
+
+  return {
+    tokenId,
+    owner,
+    position: {
+      token0: position.token0,
+      token1: position.token1,
+      fee: Number(position.fee),
+      tickLower: Number(position.tickLower),
+      tickUpper: Number(position.tickUpper),
+      liquidity: String(position.liquidity),
+      tokensOwed0: String(position.tokensOwed0),
+      tokensOwed1: String(position.tokensOwed1),
+    },
+    pool: poolAddress,
+    sqrtPriceX96: String(slot0.sqrtPriceX96),
+    tick: Number(slot0.tick),
+    decimals: await readDecimals(provider, [position.token0, position.token1], blockTag),
+    decreaseLiquidity: [String(amount0), String(amount1)],
+  };
+}
+
+async function main() {
+  const [block, tokenId, holder = TREASURY_ADDRESS] = process.argv.slice(2);
+  if (!process.env.ETH_RPC_URL || !block || !tokenId) {
+    console.error('Usage: ETH_RPC_URL=<archive node> npm run record:lp-fixtures -- <block> <v3 token id> [lp holder]');
+    process.exit(1);
+  }
+
+  const provider = new ethers.JsonRpcProvider(process.env.ETH_RPC_URL);
+  const blockNumber = Number(block);
+
+  const fixture = {
+    blockNumber,
+    curve: await recordCurve(provider, blockNumber, ethers.getAddress(holder)),
+    uniswapV3: await recordUniswapV3(provider, blockNumber, tokenId),
+  };
+
+  await fs.writeFile(path.resolve(process.cwd(), FIXTURE_PATH), JSON.stringify(fixture, null, 2) + '\n');
+  console.log(`Recorded block ${blockNumber} to ${FIXTURE_PATH}`);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
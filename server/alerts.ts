@@ -0,0 +1,255 @@
+/**
+ * Copyright 2025 Hemi Labs. All rights reserved.
+ */
+
+/**
+ * alerts.ts - Treasury health monitor
+ *
+ * This module checks every snapshot the treasury indexer takes and raises
+ * alerts when:
+ * - The collateralization ratio falls below the warning or critical threshold
+ * - A single asset holds more than the concentration limit of the treasury value
+ * - A whitelisted stablecoin trades away from $1 by more than the depeg thresholds
+ *
+ * Thresholds and webhook URLs are read from the environment (see ALERT_CONFIG).
+ * Webhooks are notified when an alert is raised, when its severity changes and
+ * when it resolves; Slack webhooks get a `text` message and generic webhooks the
+ * alert as JSON. Active alerts are kept in memory and served to the Analytics
+ * page's banner, so they are evaluated again from the next snapshot after a restart.
+ */
+
+import { ethers } from 'ethers';
+import { getPrice, PriceSource } from '@/lib/pricing';
+import type {
+  InsertTreasurySnapshot,
+  TreasuryAlert,
+  TreasuryAlertSeverity,
+  TreasuryAlertsResponse
+} from '@shared/schema';
+import { createPriceSources } from './marketData';
+import { log } from './vite';
+
+type AlertEvent = 'triggered' | 'severity-changed' | 'resolved';
+
+// How long a webhook may take before it is abandoned
+const WEBHOOK_TIMEOUT = 10 * 1000; // 10 seconds in milliseconds
+
+/**
+ * Reads a numeric setting, falling back when it is unset or not a number.
+ */
+const envNumber = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) ? value : fallback;
+};
+
+/**
+ * Reads a comma-separated list of URLs.
+ */
+const envList = (name: string): string[] =>
+  (process.env[name] || '').split(',').map(url => url.trim()).filter(Boolean);
+
+export const ALERT_CONFIG = {
+  ratioWarning: envNumber('ALERT_RATIO_WARNING', 1.02), // Collateralization ratio, 1 = 100%
+  ratioCritical: envNumber('ALERT_RATIO_CRITICAL', 1.0),
+  concentrationLimit: envNumber('ALERT_CONCENTRATION_LIMIT', 0.5), // Share of total treasury value
+  depegWarning: envNumber('ALERT_DEPEG_WARNING', 0.01), // Relative distance from $1
+  depegCritical: envNumber('ALERT_DEPEG_CRITICAL', 0.03),
+  slackWebhooks: envList('ALERT_SLACK_WEBHOOK_URLS'),
+  webhooks: envList('ALERT_WEBHOOK_URLS'),
+};
+
+// Alerts currently breaching, by key
+const activeAlerts = new Map<string, TreasuryAlert>();
+let evaluatedAt: number | null = null;
+
+type AlertCondition = Omit<TreasuryAlert, 'since' | 'blockNumber'>;
+
+/**
+ * Picks the severity of a value that is bad when low, or null if it is fine.
+ */
+const severityBelow = (value: number, warning: number, critical: number): TreasuryAlertSeverity | null => {
+  if (value < critical) return 'critical';
+  if (value < warning) return 'warning';
+  return null;
+};
+
+const percent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+/**
+ * Checks the collateralization ratio and the concentration of the treasury.
+ */
+const checkSnapshot = (snapshot: InsertTreasurySnapshot): AlertCondition[] => {
+  const conditions: AlertCondition[] = [];
+
+  const ratioSeverity = severityBelow(
+    snapshot.collateralizationRatio,
+    ALERT_CONFIG.ratioWarning,
+    ALERT_CONFIG.ratioCritical
+  );
+  if (ratioSeverity) {
+    const threshold = ratioSeverity === 'critical' ? ALERT_CONFIG.ratioCritical : ALERT_CONFIG.ratioWarning;
+    conditions.push({
+      key: 'collateralization',
+      kind: 'collateralization',
+      severity: ratioSeverity,
+      message: `Collateralization ratio is ${percent(snapshot.collateralizationRatio)}, below ${percent(threshold)}`,
+      value: snapshot.collateralizationRatio,
+      threshold,
+    });
+  }
+
+  if (snapshot.totalValue > 0) {
+    for (const asset of [...snapshot.t1Assets, ...snapshot.t2Assets]) {
+      const share = asset.value / snapshot.totalValue;
+      if (share > ALERT_CONFIG.concentrationLimit) {
+        conditions.push({
+          key: `concentration:${asset.address.toLowerCase()}`,
+          kind: 'concentration',
+          severity: 'warning',
+          message: `${asset.symbol} is ${percent(share)} of the treasury value, above the ${percent(ALERT_CONFIG.concentrationLimit)} limit`,
+          value: share,
+          threshold: ALERT_CONFIG.concentrationLimit,
+        });
+      }
+    }
+  }
+
+  return conditions;
+};
+
+/**
+ * Checks the market price of each whitelisted stablecoin against $1.
+ *
+ * @remarks
+ * A stablecoin that cannot be priced is logged and skipped rather than alerted on.
+ */
+const checkPegs = async (
+  sources: PriceSource[],
+  snapshot: InsertTreasurySnapshot
+): Promise<AlertCondition[]> => {
+  const conditions: AlertCondition[] = [];
+
+  for (const asset of snapshot.t1Assets) {
+    try {
+      const { usd } = await getPrice(sources, asset.address);
+      const deviation = Math.abs(usd - 1);
+      if (deviation <= ALERT_CONFIG.depegWarning) continue;
+
+      const severity: TreasuryAlertSeverity = deviation > ALERT_CONFIG.depegCritical ? 'critical' : 'warning';
+      const threshold = severity === 'critical' ? ALERT_CONFIG.depegCritical : ALERT_CONFIG.depegWarning;
+      conditions.push({
+        key: `depeg:${asset.address.toLowerCase()}`,
+        kind: 'depeg',
+        severity,
+        message: `${asset.symbol} is trading at $${usd.toFixed(4)}, more than ${percent(threshold)} from $1`,
+        value: usd,
+        threshold,
+      });
+    } catch (error) {
+      console.error(`Error pricing ${asset.symbol} for the depeg check:`, error);
+    }
+  }
+
+  return conditions;
+};
+
+/**
+ * Formats an alert change as a Slack message.
+ */
+const slackText = (event: AlertEvent, alert: TreasuryAlert): string => {
+  if (event === 'resolved') {
+    return `:white_check_mark: Resolved: ${alert.message}`;
+  }
+  const icon = alert.severity === 'critical' ? ':rotating_light:' : ':warning:';
+  return `${icon} *VUSD treasury ${alert.severity}*: ${alert.message} (block ${alert.blockNumber})`;
+};
+
+/**
+ * Posts JSON to a webhook. Failures are logged and not retried; the alert is
+ * still shown in the app.
+ */
+const postWebhook = async (url: string, body: unknown): Promise<void> => {
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT),
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook responded with status ${response.status}`);
+    }
+  } catch (error) {
+    console.error('Error sending treasury alert webhook:', error);
+  }
+};
+
+/**
+ * Sends an alert change to every configured webhook.
+ */
+const notify = async (event: AlertEvent, alert: TreasuryAlert): Promise<void> => {
+  log(`Treasury alert ${event}: ${alert.message}`, 'alerts');
+
+  await Promise.all([
+    ...ALERT_CONFIG.slackWebhooks.map(url => postWebhook(url, { text: slackText(event, alert) })),
+    ...ALERT_CONFIG.webhooks.map(url => postWebhook(url, { event, alert })),
+  ]);
+};
+
+/**
+ * Evaluates a new snapshot and notifies webhooks of alerts that were raised,
+ * changed severity or resolved.
+ *
+ * @async
+ * @param {ethers.Provider} provider - Mainnet provider, for stablecoin prices
+ * @param {InsertTreasurySnapshot} snapshot - The snapshot just taken
+ *
+ * @remarks
+ * Called by the treasury indexer after each snapshot, so alerts are evaluated
+ * on the indexer's schedule.
+ */
+export async function evaluateTreasuryAlerts(
+  provider: ethers.Provider,
+  snapshot: InsertTreasurySnapshot
+): Promise<void> {
+  const sources = createPriceSources(provider);
+
+  const conditions = [...checkSnapshot(snapshot), ...await checkPegs(sources, snapshot)];
+  const now = Math.floor(Date.now() / 1000);
+  const breaching = new Set(conditions.map(condition => condition.key));
+
+  for (const [key, alert] of Array.from(activeAlerts)) {
+    if (!breaching.has(key)) {
+      activeAlerts.delete(key);
+      await notify('resolved', alert);
+    }
+  }
+
+  for (const condition of conditions) {
+    const previous = activeAlerts.get(condition.key);
+    const alert: TreasuryAlert = {
+      ...condition,
+      since: previous?.since ?? now,
+      blockNumber: snapshot.blockNumber,
+    };
+    activeAlerts.set(condition.key, alert);
+
+    if (!previous) {
+      await notify('triggered', alert);
+    } else if (previous.severity !== alert.severity) {
+      await notify('severity-changed', alert);
+    }
+  }
+
+  evaluatedAt = now;
+}
+
+/**
+ * Returns the active alerts, critical first.
+ */
+export function getTreasuryAlerts(): TreasuryAlertsResponse {
+  const alerts = Array.from(activeAlerts.values()).sort((a, b) =>
+    a.severity === b.severity ? a.since - b.since : a.severity === 'critical' ? -1 : 1
+  );
+  return { alerts, evaluatedAt };
+}
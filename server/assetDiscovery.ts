@@ -0,0 +1,261 @@
+/**
+ * Copyright 2025 Hemi Labs. All rights reserved.
+ */
+
+/**
+ * assetDiscovery.ts - T2 asset discovery
+ *
+ * This module finds the tokens the Treasury has received, so new T2 assets are
+ * valued without a code change:
+ * - Scans ERC20 Transfer logs into TREASURY_ADDRESS with getLogsInRange, one
+ *   window of blocks at a time so progress is kept if a later window fails
+ * - Classifies each new token by probing its contract: Lido staked ETH
+ *   (getPooledEthByShares), Uniswap-V2-style LP (getReserves/token0/token1),
+ *   Curve LP (get_virtual_price on the token or on its minter), otherwise a
+ *   generic ERC20; tokens whose metadata cannot be read are marked unpriced
+ * - Stores discovered tokens and the last scanned block, so scans resume
+ *   after a restart instead of starting over
+ *
+ * Discovery runs on its own schedule (startAssetDiscovery), so the first scan
+ * from HISTORY_START_BLOCK never delays a treasury snapshot; snapshots value
+ * the tokens found so far. Without a database nothing survives a restart, so
+ * each boot scans from HISTORY_START_BLOCK again in the background.
+ */
+
+import { ethers } from 'ethers';
+import { ERC20_ABI } from '@/abis';
+import { HISTORY_START_BLOCK, TREASURY_ADDRESS } from '@/constants/contracts';
+import {
+  AssetType,
+  CURVE_POOL_ABI,
+  STAKED_ETH_ABI,
+  T2Asset,
+  T2_ASSETS,
+  UNISWAP_V2_PAIR_ABI,
+} from '@/constants/treasuryAssets';
+import { getLogsInRange } from '@/lib/logs';
+import type { InsertTreasuryToken, TreasuryToken } from '@shared/schema';
+import { getMainnetProvider } from './provider';
+import { storage } from './storage';
+import { log } from './vite';
+
+// How often new blocks are scanned
+const DISCOVERY_INTERVAL = 10 * 60 * 1000; // 10 minutes in milliseconds
+
+// Blocks scanned per window; getLogsInRange splits a window further if the RPC requires it
+const SCAN_WINDOW = 100000;
+
+const SCAN_CURSOR = 'treasury-transfers';
+
+const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+const TREASURY_TOPIC = ethers.zeroPadValue(TREASURY_ADDRESS, 32);
+
+const PROBE_ABI = [
+  ...ERC20_ABI,
+  ...STAKED_ETH_ABI,
+  ...UNISWAP_V2_PAIR_ABI,
+  'function get_virtual_price() external view returns (uint256)',
+  'function minter() external view returns (address)'
+];
+
+/**
+ * Resolves to true if the call succeeds, false if it reverts or fails.
+ */
+const succeeds = (call: Promise<unknown>): Promise<boolean> =>
+  call.then(() => true, () => false);
+
+/**
+ * Classifies a token the Treasury received.
+ *
+ * @param {ethers.Provider} provider - Mainnet provider
+ * @param {string} address - Checksummed token address
+ * @returns The token's metadata and asset type
+ */
+const classifyToken = async (
+  provider: ethers.Provider,
+  address: string
+): Promise<Omit<InsertTreasuryToken, 'firstSeenBlock'>> => {
+  const token = new ethers.Contract(address, PROBE_ABI, provider);
+
+  let symbol: string;
+  let name: string;
+  let decimals: number;
+  try {
+    decimals = Number(await token.decimals());
+    symbol = await token.symbol();
+    name = await token.name().catch(() => symbol);
+  } catch {
+    // Not a readable ERC20 (e.g. bytes32 metadata); list it without a value
+    const label = `${address.slice(0, 6)}...${address.slice(-4)}`;
+    return { address, symbol: label, name: label, decimals: 18, assetType: AssetType.UNPRICED, pool: null };
+  }
+
+  const metadata = { address, symbol, name, decimals };
+
+  if (await succeeds(token.getPooledEthByShares(ethers.parseEther('1')))) {
+    return { ...metadata, assetType: AssetType.STAKED_ETH, pool: null };
+  }
+
+  const [hasReserves, hasToken0, hasToken1] = await Promise.all([
+    succeeds(token.getReserves()),
+    succeeds(token.token0()),
+    succeeds(token.token1()),
+  ]);
+  if (hasReserves && hasToken0 && hasToken1) {
+    return { ...metadata, assetType: AssetType.LP_TOKEN, pool: null };
+  }
+
+  // Newer Curve pools are their own LP token; older ones mint a separate token
+  if (await succeeds(token.get_virtual_price())) {
+    return { ...metadata, assetType: AssetType.CURVE_LP, pool: address };
+  }
+  const minter: string | null = await token.minter().catch(() => null);
+  if (minter && minter !== ethers.ZeroAddress) {
+    const pool = new ethers.Contract(minter, CURVE_POOL_ABI, provider);
+    if (await succeeds(pool.get_virtual_price())) {
+      return { ...metadata, assetType: AssetType.CURVE_LP, pool: minter };
+    }
+  }
+
+  return { ...metadata, assetType: AssetType.GENERIC_ERC20, pool: null };
+};
+
+/**
+ * Returns the block scanning continues after: the stored cursor; without one,
+ * the block before the latest discovered token's first transfer; before the
+ * first scan, the block before HISTORY_START_BLOCK, which predates the
+ * Treasury's deployment.
+ */
+const scanStart = async (): Promise<number> => {
+  const cursor = await storage.getScanCursor(SCAN_CURSOR);
+  if (cursor !== null) return cursor;
+
+  const stored = await storage.getTreasuryTokens();
+  if (stored.length > 0) {
+    return Math.max(...stored.map(token => token.firstSeenBlock)) - 1;
+  }
+  return HISTORY_START_BLOCK - 1;
+};
+
+/**
+ * Scans Transfer logs into the Treasury up to a block and stores new tokens.
+ *
+ * @throws {Error} If a window cannot be scanned; windows scanned before it are kept
+ */
+const scanTransfers = async (
+  provider: ethers.Provider,
+  toBlock: number,
+  known: Set<string>
+): Promise<void> => {
+  let fromBlock = (await scanStart()) + 1;
+
+  while (fromBlock <= toBlock) {
+    const windowEnd = Math.min(fromBlock + SCAN_WINDOW - 1, toBlock);
+    const logs = await getLogsInRange(
+      provider,
+      { topics: [TRANSFER_TOPIC, null, TREASURY_TOPIC] },
+      fromBlock,
+      windowEnd
+    );
+
+    for (const transfer of logs) {
+      // ERC721 transfers share the signature but index the token id as a fourth topic
+      if (transfer.topics.length !== 3) continue;
+
+      const address = ethers.getAddress(transfer.address);
+      if (known.has(address)) continue;
+      known.add(address);
+
+      const token = await classifyToken(provider, address);
+      await storage.addTreasuryToken({ ...token, firstSeenBlock: transfer.blockNumber });
+      log(`Discovered treasury token ${token.symbol} (${address}) as ${token.assetType}`, 'discovery');
+    }
+
+    await storage.setScanCursor(SCAN_CURSOR, windowEnd);
+    fromBlock = windowEnd + 1;
+  }
+};
+
+/**
+ * Returns the ABI fragments needed to value an asset type.
+ */
+const extraAbiFor = (assetType: AssetType): string[] => {
+  switch (assetType) {
+    case AssetType.STAKED_ETH:
+      return STAKED_ETH_ABI;
+    case AssetType.LP_TOKEN:
+      return UNISWAP_V2_PAIR_ABI;
+    default:
+      return [];
+  }
+};
+
+const toT2Asset = (token: TreasuryToken): T2Asset => ({
+  address: token.address,
+  symbol: token.symbol,
+  name: token.name,
+  decimals: token.decimals,
+  assetType: token.assetType as AssetType,
+  extraAbi: extraAbiFor(token.assetType as AssetType),
+  pool: token.pool ?? undefined
+});
+
+/**
+ * Lists the T2 assets to value: the known T2_ASSETS plus every discovered token.
+ *
+ * @async
+ * @param {string[]} exclude - Tokens that are not T2 assets (whitelisted stablecoins, cTokens, VUSD)
+ * @returns {Promise<T2Asset[]>} Candidate T2 assets; some may have a zero balance
+ *
+ * @remarks
+ * Only reads stored tokens; scanning is done by startAssetDiscovery. Exclusions
+ * are applied here rather than when storing, so a token removed from the
+ * whitelist shows up as T2.
+ */
+export async function listT2Assets(exclude: string[]): Promise<T2Asset[]> {
+  const stored = await storage.getTreasuryTokens();
+
+  const excluded = new Set(exclude.map(address => address.toLowerCase()));
+  const knownAddresses = new Set(T2_ASSETS.map(asset => asset.address.toLowerCase()));
+
+  return [
+    ...T2_ASSETS,
+    ...stored
+      .filter(token => !knownAddresses.has(token.address.toLowerCase()))
+      .map(toT2Asset)
+  ].filter(asset => !excluded.has(asset.address.toLowerCase()));
+}
+
+/**
+ * Scans for new treasury tokens now and then every DISCOVERY_INTERVAL.
+ *
+ * @remarks
+ * A scan is skipped while the previous one is still in progress, which covers
+ * the first scan from HISTORY_START_BLOCK. Failed scans are logged; windows
+ * scanned before the failure are kept.
+ */
+export function startAssetDiscovery(): void {
+  const provider = getMainnetProvider();
+  let running = false;
+
+  const scan = async () => {
+    if (running) return;
+    running = true;
+
+    try {
+      const stored = await storage.getTreasuryTokens();
+      const known = new Set([
+        ...T2_ASSETS.map(asset => ethers.getAddress(asset.address)),
+        ...stored.map(token => token.address)
+      ]);
+      await scanTransfers(provider, await provider.getBlockNumber(), known);
+    } catch (error) {
+      console.error('Error scanning treasury transfers:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  scan();
+  setInterval(scan, DISCOVERY_INTERVAL);
+}
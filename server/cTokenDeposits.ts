@@ -0,0 +1,145 @@
+/**
+ * Copyright 2025 Hemi Labs. All rights reserved.
+ */
+
+/**
+ * cTokenDeposits.ts - Net deposits into the Treasury's Compound positions
+ *
+ * The interest a cToken position has earned is its underlying amount minus
+ * what the Treasury deposited and has not withdrawn. Deposits and withdrawals
+ * are found as the underlying token's Transfer logs between the Treasury and
+ * the cToken: minting sends the underlying to the cToken, redeeming sends it
+ * back.
+ *
+ * startCTokenDepositTracker scans those logs on its own schedule, from
+ * HISTORY_START_BLOCK on the first run, and stores each cToken's net deposits
+ * with the block they include. readNetDeposited adjusts the stored total to a
+ * snapshot's block, so snapshots never wait for the long first scan.
+ */
+
+import { ethers } from 'ethers';
+import { CTOKEN_ABI, TREASURY_ABI } from '@/abis';
+import { HISTORY_START_BLOCK, TREASURY_ADDRESS } from '@/constants/contracts';
+import { getLogsInRange } from '@/lib/logs';
+import { getMainnetProvider } from './provider';
+import { storage } from './storage';
+
+// How often new blocks are scanned
+const TRACK_INTERVAL = 10 * 60 * 1000; // 10 minutes in milliseconds
+
+// Blocks scanned per window; getLogsInRange splits a window further if the RPC requires it
+const SCAN_WINDOW = 100000;
+
+const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+const TREASURY_TOPIC = ethers.zeroPadValue(TREASURY_ADDRESS, 32);
+
+/**
+ * Sums the underlying sent from the Treasury to a cToken, minus what came
+ * back, between two blocks (inclusive).
+ */
+const sumNetTransfers = async (
+  provider: ethers.Provider,
+  cToken: string,
+  underlying: string,
+  fromBlock: number,
+  toBlock: number
+): Promise<bigint> => {
+  const cTokenTopic = ethers.zeroPadValue(cToken, 32);
+  const [deposits, withdrawals] = await Promise.all([
+    getLogsInRange(provider, { address: underlying, topics: [TRANSFER_TOPIC, TREASURY_TOPIC, cTokenTopic] }, fromBlock, toBlock),
+    getLogsInRange(provider, { address: underlying, topics: [TRANSFER_TOPIC, cTokenTopic, TREASURY_TOPIC] }, fromBlock, toBlock),
+  ]);
+
+  const sum = (logs: ethers.Log[]) => logs.reduce((total, log) => total + ethers.toBigInt(log.data), BigInt(0));
+  return sum(deposits) - sum(withdrawals);
+};
+
+/**
+ * Returns the Treasury's net deposits into a cToken as of a block.
+ *
+ * @async
+ * @param {ethers.Provider} provider - Mainnet provider
+ * @param {string} cToken - cToken address
+ * @param {string} underlying - The cToken's underlying token address
+ * @param {number} blockNumber - Block to read at
+ * @returns {Promise<bigint | null>} Net deposits in underlying base units, or
+ * null while the tracker is more than SCAN_WINDOW blocks away from the block
+ */
+export async function readNetDeposited(
+  provider: ethers.Provider,
+  cToken: string,
+  underlying: string,
+  blockNumber: number
+): Promise<bigint | null> {
+  const stored = await storage.getCTokenDeposit(ethers.getAddress(cToken));
+  if (!stored || Math.abs(blockNumber - stored.block) > SCAN_WINDOW) {
+    return null;
+  }
+
+  const netDeposited = BigInt(stored.netDeposited);
+  if (stored.block < blockNumber) {
+    return netDeposited + await sumNetTransfers(provider, cToken, underlying, stored.block + 1, blockNumber);
+  }
+  if (stored.block > blockNumber) {
+    return netDeposited - await sumNetTransfers(provider, cToken, underlying, blockNumber + 1, stored.block);
+  }
+  return netDeposited;
+}
+
+/**
+ * Scans a cToken's deposits and withdrawals up to a block, storing the total
+ * after each window so progress is kept if a later window fails.
+ */
+const trackCToken = async (provider: ethers.Provider, cToken: string, toBlock: number): Promise<void> => {
+  const address = ethers.getAddress(cToken);
+  const underlying: string = await new ethers.Contract(address, CTOKEN_ABI, provider).underlying();
+
+  const stored = await storage.getCTokenDeposit(address);
+  let netDeposited = stored ? BigInt(stored.netDeposited) : BigInt(0);
+  let fromBlock = stored ? stored.block + 1 : HISTORY_START_BLOCK;
+
+  while (fromBlock <= toBlock) {
+    const windowEnd = Math.min(fromBlock + SCAN_WINDOW - 1, toBlock);
+    netDeposited += await sumNetTransfers(provider, address, underlying, fromBlock, windowEnd);
+    await storage.setCTokenDeposit({ cToken: address, netDeposited: netDeposited.toString(), block: windowEnd });
+    fromBlock = windowEnd + 1;
+  }
+};
+
+/**
+ * Scans the deposits into every cToken the Treasury uses now and then every
+ * TRACK_INTERVAL.
+ *
+ * @remarks
+ * A scan is skipped while the previous one is still in progress, which covers
+ * the first scan from HISTORY_START_BLOCK. Failures are logged per cToken.
+ */
+export function startCTokenDepositTracker(): void {
+  const provider = getMainnetProvider();
+  const treasury = new ethers.Contract(TREASURY_ADDRESS, TREASURY_ABI, provider);
+  let running = false;
+
+  const track = async () => {
+    if (running) return;
+    running = true;
+
+    try {
+      const head = await provider.getBlockNumber();
+      const cTokens: string[] = await treasury.cTokenList({ blockTag: head });
+      for (const cToken of cTokens) {
+        try {
+          await trackCToken(provider, cToken, head);
+        } catch (error) {
+          console.error(`Error scanning deposits into cToken ${cToken}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error('Error scanning cToken deposits:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  track();
+  setInterval(track, TRACK_INTERVAL);
+}
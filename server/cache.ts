@@ -0,0 +1,176 @@
+/**
+ * Copyright 2025 Hemi Labs. All rights reserved.
+ */
+
+/**
+ * cache.ts - In-memory cache for API responses
+ *
+ * Caches upstream responses (market data providers, RPC reads) by key, with
+ * the lifetimes of HTTP caching:
+ * - Fresh for `ttl`: served from the cache
+ * - Then for `staleWhileRevalidate`: served from the cache while one refresh
+ *   runs in the background
+ * - Then up to `staleIfError` after going stale: refreshed before answering,
+ *   but served with a stale flag if the refresh fails
+ *
+ * Concurrent misses for a key share one upstream request. The cache keeps at
+ * most `maxEntries` keys, evicting the least recently used.
+ *
+ * sendCached writes a cached value as JSON with matching Cache-Control and
+ * ETag headers, so clients can revalidate and receive 304 Not Modified.
+ */
+
+import { createHash } from "crypto";
+import type { Response } from "express";
+
+export interface CacheOptions {
+  ttl: number; // Milliseconds a value is fresh
+  staleWhileRevalidate: number; // Milliseconds after ttl a value is served while refreshing
+  staleIfError: number; // Milliseconds after ttl a value is served when refreshing fails
+  maxEntries: number;
+}
+
+export interface CachedValue<T> {
+  data: T;
+  stale: boolean; // Whether the value is served because refreshing it failed
+  etag: string;
+  maxAge: number; // Seconds the value remains fresh
+  staleWhileRevalidate: number; // Seconds after maxAge a client may use it while revalidating
+}
+
+// Values sendCached can add a stale flag to: objects that are not arrays,
+// since spreading an array would turn it into an object keyed by index
+type StaleFlaggable = object & { length?: never };
+
+interface CacheEntry {
+  data: unknown;
+  fetchedAt: number; // Milliseconds since epoch
+  etag: string;
+  failed: boolean; // Whether the last refresh failed
+}
+
+/**
+ * Creates a cache.
+ *
+ * @param {CacheOptions} options - Lifetimes and size limit
+ * @returns The cache's get operation
+ *
+ * @example
+ * const cache = createCache({ ttl: 60000, staleWhileRevalidate: 60000, staleIfError: 3600000, maxEntries: 100 });
+ * sendCached(res, await cache.get('vusd', () => marketData.getVusdMarket()));
+ */
+export function createCache(options: CacheOptions) {
+  // Maps iterate in insertion order, so the first key is the least recently used
+  const entries = new Map<string, CacheEntry>();
+  const inflight = new Map<string, Promise<CacheEntry>>();
+
+  const store = (key: string, entry: CacheEntry) => {
+    entries.delete(key);
+    entries.set(key, entry);
+    while (entries.size > options.maxEntries) {
+      entries.delete(entries.keys().next().value!);
+    }
+  };
+
+  /**
+   * Loads a key, sharing the request with callers already loading it.
+   */
+  const refresh = (key: string, load: () => Promise<unknown>): Promise<CacheEntry> => {
+    let pending = inflight.get(key);
+    if (!pending) {
+      pending = load()
+        .then(data => {
+          const entry: CacheEntry = {
+            data,
+            fetchedAt: Date.now(),
+            etag: createHash("sha1").update(JSON.stringify(data)).digest("base64url"),
+            failed: false,
+          };
+          store(key, entry);
+          return entry;
+        }, error => {
+          const current = entries.get(key);
+          if (current) current.failed = true;
+          throw error;
+        })
+        .finally(() => inflight.delete(key));
+      inflight.set(key, pending);
+    }
+    return pending;
+  };
+
+  const toValue = <T>(entry: CacheEntry, stale: boolean): CachedValue<T> => {
+    const age = Date.now() - entry.fetchedAt;
+    return {
+      data: entry.data as T,
+      stale,
+      etag: entry.etag,
+      maxAge: Math.max(0, Math.floor((options.ttl - age) / 1000)),
+      staleWhileRevalidate: Math.max(
+        0,
+        Math.floor((options.ttl + options.staleWhileRevalidate - Math.max(options.ttl, age)) / 1000)
+      ),
+    };
+  };
+
+  return {
+    /**
+     * Returns the cached value of a key, loading it when missing or too old.
+     *
+     * @param {string} key - Cache key
+     * @param {() => Promise<T>} load - Fetches the value from upstream
+     * @returns {Promise<CachedValue<T>>} The value and how it may be cached downstream
+     *
+     * @throws {Error} The load error, if loading fails and no usable value is cached
+     */
+    get: async <T>(key: string, load: () => Promise<T>): Promise<CachedValue<T>> => {
+      const entry = entries.get(key);
+      const age = entry ? Date.now() - entry.fetchedAt : Infinity;
+
+      if (entry && age < options.ttl) {
+        store(key, entry);
+        return toValue(entry, false);
+      }
+
+      if (entry && age < options.ttl + options.staleWhileRevalidate) {
+        store(key, entry);
+        refresh(key, load).catch(error => console.error(`Error refreshing cached ${key}:`, error));
+        return toValue(entry, entry.failed);
+      }
+
+      try {
+        return toValue(await refresh(key, load), false);
+      } catch (error) {
+        if (entry && age < options.ttl + options.staleIfError) {
+          console.error(`Error refreshing cached ${key}, serving stale value:`, error);
+          return toValue(entry, true);
+        }
+        throw error;
+      }
+    },
+  };
+}
+
+/**
+ * Sends a cached value as JSON with Cache-Control and ETag headers.
+ *
+ * @param {Response} res - Express response
+ * @param {CachedValue<T>} cached - Value returned by a cache's get
+ *
+ * @remarks
+ * Stale values are sent with `stale: true` added and must be revalidated by
+ * the client, so only non-array objects can be sent. Express answers 304 when
+ * the request's If-None-Match matches the ETag.
+ */
+export function sendCached<T extends StaleFlaggable>(res: Response, cached: CachedValue<T>): void {
+  if (cached.stale) {
+    res.set("Cache-Control", "no-cache");
+    res.set("ETag", `"${cached.etag}-stale"`);
+    res.json({ ...cached.data, stale: true });
+    return;
+  }
+
+  res.set("Cache-Control", `public, max-age=${cached.maxAge}, stale-while-revalidate=${cached.staleWhileRevalidate}`);
+  res.set("ETag", `"${cached.etag}"`);
+  res.json(cached.data);
+}
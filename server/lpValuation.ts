@@ -0,0 +1,411 @@
+/**
+ * Copyright 2025 Hemi Labs. All rights reserved.
+ */
+
+/**
+ * lpValuation.ts - Liquidity position valuation
+ *
+ * This module values the Treasury's liquidity positions:
+ * - Uniswap-V2-style LP tokens (SushiSwap): the Treasury's share of each
+ *   reserve, in the token's own decimals, times that token's price
+ * - Curve stable-swap LP tokens: LP amount × get_virtual_price × the lowest
+ *   coin price, which is not moved by pool imbalances or donations. The pool
+ *   balances give the share of the pool held in each coin.
+ * - Uniswap V3 positions: the position's liquidity is converted to token
+ *   amounts between its ticks at the pool's current price (Uniswap's TickMath
+ *   and SqrtPriceMath), plus fees already owed to the position.
+ *
+ * The VUSD side of a position is not counted in its value, since VUSD cannot
+ * back itself. It is reported separately as self-backing, at face value, so the
+ * collateralization view can show the ratio with and without it. The tick math
+ * is exact integer arithmetic so it gives the same amounts as the Uniswap contracts.
+ */
+
+import { ethers } from 'ethers';
+import { ERC20_ABI, UNISWAP_V3_FACTORY_ABI, UNISWAP_V3_POOL_ABI, UNISWAP_V3_POSITION_MANAGER_ABI } from '@/abis';
+import {
+  UNISWAP_V3_FACTORY_ADDRESS,
+  UNISWAP_V3_POSITION_MANAGER_ADDRESS,
+  VUSD_ADDRESS,
+  WETH_ADDRESS,
+} from '@/constants/contracts';
+import { AssetType, CURVE_POOL_ABI, T2Asset, UNISWAP_V2_PAIR_ABI } from '@/constants/treasuryAssets';
+import { PriceResult } from '@/lib/pricing';
+
+export type PriceOf = (tokenAddress: string) => Promise<PriceResult>;
+
+export interface LpValuation {
+  value: number; // USD value of the non-VUSD side
+  selfBacking: number; // VUSD held through the position, in USD at face value
+  pricing: PriceResult; // Price used, flagged if any side's sources disagreed
+}
+
+// Curve's placeholder for native ETH in coins()
+const CURVE_ETH_ADDRESS = '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE';
+
+// Curve pools have at most 8 coins
+const MAX_CURVE_COINS = 8;
+
+const Q96 = BigInt(1) << BigInt(96);
+const Q32 = BigInt(1) << BigInt(32);
+const MAX_UINT256 = ethers.MaxUint256;
+
+// Uniswap V3 tick bounds
+export const MIN_TICK = -887272;
+export const MAX_TICK = 887272;
+
+const isVusd = (address: string) => address.toLowerCase() === VUSD_ADDRESS.toLowerCase();
+
+/**
+ * Picks the price to report for a position priced from several tokens.
+ */
+const combinePricing = (chosen: PriceResult, all: PriceResult[]): PriceResult => ({
+  ...chosen,
+  disagreement: all.some(pricing => pricing.disagreement)
+});
+
+/**
+ * Reads a token's decimals, treating Curve's ETH placeholder as 18.
+ */
+const readDecimals = async (
+  provider: ethers.Provider,
+  tokenAddress: string
+): Promise<number> => {
+  if (tokenAddress.toLowerCase() === CURVE_ETH_ADDRESS.toLowerCase()) return 18;
+  const token = new ethers.Contract(tokenAddress, ERC20_ABI, provider);
+  return Number(await token.decimals());
+};
+
+/**
+ * Values raw token amounts held through a position, counting VUSD as
+ * self-backing instead of value.
+ *
+ * @throws {Error} If a side cannot be priced, or every side is VUSD
+ */
+const valueSides = async (
+  provider: ethers.Provider,
+  sides: [string, bigint][],
+  priceOf: PriceOf
+): Promise<LpValuation> => {
+  let value = 0;
+  let selfBacking = 0;
+  const pricings: PriceResult[] = [];
+
+  for (const [token, rawAmount] of sides) {
+    const amount = parseFloat(ethers.formatUnits(rawAmount, await readDecimals(provider, token)));
+
+    if (isVusd(token)) {
+      selfBacking += amount;
+      continue;
+    }
+
+    const pricing = await priceOf(token);
+    value += amount * pricing.usd;
+    pricings.push(pricing);
+  }
+
+  if (pricings.length === 0) {
+    throw new Error('Position only holds VUSD');
+  }
+  return { value, selfBacking, pricing: combinePricing(pricings[0], pricings) };
+};
+
+/**
+ * Values a holding of a Uniswap-V2-style LP token.
+ *
+ * @async
+ * @param {ethers.Provider} provider - Mainnet provider
+ * @param {string} pairAddress - The pair, which is also the LP token
+ * @param {bigint} lpBalance - LP tokens held
+ * @param {PriceOf} priceOf - Prices a token by address
+ * @param {{ blockTag: number }} overrides - Block to read at
+ * @returns {Promise<LpValuation>} Value of the non-VUSD side and the VUSD self-backing
+ *
+ * @throws {Error} If the pair cannot be read or a non-VUSD side cannot be priced
+ */
+export async function valueUniswapV2Lp(
+  provider: ethers.Provider,
+  pairAddress: string,
+  lpBalance: bigint,
+  priceOf: PriceOf,
+  overrides: { blockTag: number }
+): Promise<LpValuation> {
+  const pair = new ethers.Contract(pairAddress, UNISWAP_V2_PAIR_ABI, provider);
+  const [totalSupply, reserves, token0, token1]: [bigint, [bigint, bigint], string, string] = await Promise.all([
+    pair.totalSupply(overrides),
+    pair.getReserves(overrides),
+    pair.token0(overrides),
+    pair.token1(overrides),
+  ]);
+
+  if (totalSupply === BigInt(0)) {
+    throw new Error(`Pair ${pairAddress} has no liquidity`);
+  }
+
+  // The Treasury's share of each reserve, in raw token units
+  return valueSides(provider, [
+    [token0, reserves[0] * lpBalance / totalSupply],
+    [token1, reserves[1] * lpBalance / totalSupply],
+  ], priceOf);
+}
+
+/**
+ * Values a holding of a Curve stable-swap LP token.
+ *
+ * @async
+ * @param {ethers.Provider} provider - Mainnet provider
+ * @param {string} poolAddress - The Curve pool (the LP token itself for newer pools)
+ * @param {bigint} lpBalance - LP tokens held, 18 decimals
+ * @param {PriceOf} priceOf - Prices a token by address
+ * @param {{ blockTag: number }} overrides - Block to read at
+ * @returns {Promise<LpValuation>} Value of the non-VUSD share of the holding and the VUSD self-backing
+ *
+ * @remarks
+ * The non-VUSD share is the fraction of the pool balances, in token units, not
+ * held in VUSD. This assumes the coins trade near 1:1, which is what a
+ * stable-swap pool is for.
+ *
+ * @throws {Error} If the pool's coins or virtual price cannot be read
+ */
+export async function valueCurveLp(
+  provider: ethers.Provider,
+  poolAddress: string,
+  lpBalance: bigint,
+  priceOf: PriceOf,
+  overrides: { blockTag: number }
+): Promise<LpValuation> {
+  const pool = new ethers.Contract(poolAddress, CURVE_POOL_ABI, provider);
+
+  const coins: string[] = [];
+  const balances: bigint[] = [];
+  for (const indexType of ['uint256', 'int128']) {
+    for (let i = 0; i < MAX_CURVE_COINS; i++) {
+      // Read each index as a pair so a failed balance never leaves a coin without one
+      let coin: string;
+      let balance: bigint;
+      try {
+        [coin, balance] = await Promise.all([
+          pool[`coins(${indexType})`](i, overrides),
+          pool[`balances(${indexType})`](i, overrides),
+        ]);
+      } catch {
+        break; // Past the last coin
+      }
+      coins.push(coin);
+      balances.push(balance);
+    }
+    if (coins.length > 0) break;
+  }
+
+  if (coins.length === 0) {
+    throw new Error(`Could not read the coins of Curve pool ${poolAddress}`);
+  }
+
+  const virtualPrice: bigint = await pool.get_virtual_price(overrides);
+  const decimals = await Promise.all(coins.map(coin => readDecimals(provider, coin)));
+  const amounts = balances.map((balance, i) => parseFloat(ethers.formatUnits(balance, decimals[i])));
+
+  const otherCoins = coins.filter(coin => !isVusd(coin));
+  const pricings = await Promise.all(
+    otherCoins.map(coin => priceOf(coin.toLowerCase() === CURVE_ETH_ADDRESS.toLowerCase() ? WETH_ADDRESS : coin))
+  );
+  if (pricings.length === 0) {
+    throw new Error(`Curve pool ${poolAddress} only holds VUSD`);
+  }
+  const lowest = pricings.reduce((min, pricing) => pricing.usd < min.usd ? pricing : min);
+
+  const totalAmount = amounts.reduce((sum, amount) => sum + amount, 0);
+  const otherAmount = amounts.reduce((sum, amount, i) => isVusd(coins[i]) ? sum : sum + amount, 0);
+  const otherShare = totalAmount > 0 ? otherAmount / totalAmount : 0;
+
+  // LP tokens in underlying units; VUSD's share is self-backing at face value
+  const underlying = parseFloat(ethers.formatUnits(lpBalance, 18)) *
+    parseFloat(ethers.formatUnits(virtualPrice, 18));
+
+  return {
+    value: underlying * lowest.usd * otherShare,
+    selfBacking: underlying * (1 - otherShare),
+    pricing: combinePricing(lowest, pricings)
+  };
+}
+
+/**
+ * Multiplies a Q128.128 ratio and shifts the result back, as in TickMath.
+ */
+const mulShift = (value: bigint, multiplier: string): bigint =>
+  (value * BigInt(multiplier)) >> BigInt(128);
+
+// sqrt(1.0001^-(2^i)) in Q128.128 for each bit of an absolute tick, from Uniswap's TickMath
+const TICK_RATIOS: [number, string][] = [
+  [0x2, '0xfff97272373d413259a46990580e213a'],
+  [0x4, '0xfff2e50f5f656932ef12357cf3c7fdcc'],
+  [0x8, '0xffe5caca7e10e4e61c3624eaa0941cd0'],
+  [0x10, '0xffcb9843d60f6159c9db58835c926644'],
+  [0x20, '0xff973b41fa98c081472e6896dfb254c0'],
+  [0x40, '0xff2ea16466c96a3843ec78b326b52861'],
+  [0x80, '0xfe5dee046a99a2a811c461f1969c3053'],
+  [0x100, '0xfcbe86c7900a88aedcffc83b479aa3a4'],
+  [0x200, '0xf987a7253ac413176f2b074cf7815e54'],
+  [0x400, '0xf3392b0822b70005940c7a398e4b70f3'],
+  [0x800, '0xe7159475a2c29b7443b29c7fa6e889d9'],
+  [0x1000, '0xd097f3bdfd2022b8845ad8f792aa5825'],
+  [0x2000, '0xa9f746462d870fdf8a65dc1f90e061e5'],
+  [0x4000, '0x70d869a156d2a1b890bb3df62baf32f7'],
+  [0x8000, '0x31be135f97d08fd981231505542fcfa6'],
+  [0x10000, '0x9aa508b5b7a84e1c677de54f3e99bc9'],
+  [0x20000, '0x5d6af8dedb81196699c329225ee604'],
+  [0x40000, '0x2216e584f5fa1ea926041bedfe98'],
+  [0x80000, '0x48a170391f7dc42444e8fa2'],
+];
+
+/**
+ * Returns sqrt(1.0001^tick) as a Q64.96 number, rounded up like TickMath.getSqrtRatioAtTick.
+ *
+ * @param {number} tick - Tick between MIN_TICK and MAX_TICK
+ * @returns {bigint} The sqrt price at the tick
+ */
+export function getSqrtRatioAtTick(tick: number): bigint {
+  if (!Number.isInteger(tick) || tick < MIN_TICK || tick > MAX_TICK) {
+    throw new Error(`Tick ${tick} out of range`);
+  }
+
+  const absTick = Math.abs(tick);
+  let ratio = (absTick & 0x1) !== 0
+    ? BigInt('0xfffcb933bd6fad37aa2d162d1a594001')
+    : BigInt('0x100000000000000000000000000000000');
+
+  for (const [bit, multiplier] of TICK_RATIOS) {
+    if ((absTick & bit) !== 0) ratio = mulShift(ratio, multiplier);
+  }
+
+  if (tick > 0) ratio = MAX_UINT256 / ratio;
+
+  // Q128.128 to Q64.96, rounding up
+  return ratio % Q32 > BigInt(0) ? ratio / Q32 + BigInt(1) : ratio / Q32;
+}
+
+/**
+ * Token amounts represented by liquidity between two sqrt prices at the
+ * current price, rounded down like SqrtPriceMath.
+ *
+ * @param {bigint} sqrtPriceX96 - Current pool sqrt price
+ * @param {bigint} sqrtPriceAX96 - Sqrt price at the lower tick
+ * @param {bigint} sqrtPriceBX96 - Sqrt price at the upper tick
+ * @param {bigint} liquidity - Position liquidity
+ * @returns Raw amounts of token0 and token1
+ */
+export function getAmountsForLiquidity(
+  sqrtPriceX96: bigint,
+  sqrtPriceAX96: bigint,
+  sqrtPriceBX96: bigint,
+  liquidity: bigint
+): { amount0: bigint; amount1: bigint } {
+  const [lower, upper] = sqrtPriceAX96 < sqrtPriceBX96
+    ? [sqrtPriceAX96, sqrtPriceBX96]
+    : [sqrtPriceBX96, sqrtPriceAX96];
+
+  const amount0Between = (a: bigint, b: bigint) => liquidity * Q96 * (b - a) / b / a;
+  const amount1Between = (a: bigint, b: bigint) => liquidity * (b - a) / Q96;
+
+  if (sqrtPriceX96 <= lower) {
+    // Below the range: all in token0
+    return { amount0: amount0Between(lower, upper), amount1: BigInt(0) };
+  }
+  if (sqrtPriceX96 >= upper) {
+    // Above the range: all in token1
+    return { amount0: BigInt(0), amount1: amount1Between(lower, upper) };
+  }
+  return {
+    amount0: amount0Between(sqrtPriceX96, upper),
+    amount1: amount1Between(lower, sqrtPriceX96)
+  };
+}
+
+/**
+ * Lists an owner's Uniswap V3 positions that still hold liquidity or owed fees.
+ *
+ * @async
+ * @param {ethers.Provider} provider - Mainnet provider
+ * @param {string} owner - Address holding the position NFTs
+ * @param {{ blockTag: number }} overrides - Block to read at
+ * @returns {Promise<T2Asset[]>} One UNISWAP_V3_POSITION asset per open position
+ */
+export async function listUniswapV3Positions(
+  provider: ethers.Provider,
+  owner: string,
+  overrides: { blockTag: number }
+): Promise<T2Asset[]> {
+  const manager = new ethers.Contract(UNISWAP_V3_POSITION_MANAGER_ADDRESS, UNISWAP_V3_POSITION_MANAGER_ABI, provider);
+  const count = Number(await manager.balanceOf(owner, overrides));
+  const assets: T2Asset[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const tokenId: bigint = await manager.tokenOfOwnerByIndex(owner, i, overrides);
+    const position = await manager.positions(tokenId, overrides);
+
+    // Closed positions keep their NFT
+    if (position.liquidity === BigInt(0) && position.tokensOwed0 === BigInt(0) && position.tokensOwed1 === BigInt(0)) {
+      continue;
+    }
+
+    const symbolOf = (address: string): Promise<string> =>
+      new ethers.Contract(address, ERC20_ABI, provider).symbol().catch(() => address.slice(0, 6));
+    const [symbol0, symbol1] = await Promise.all([symbolOf(position.token0), symbolOf(position.token1)]);
+    const feePercent = Number(position.fee) / 10000;
+
+    assets.push({
+      address: UNISWAP_V3_POSITION_MANAGER_ADDRESS,
+      symbol: `UNI-V3 ${symbol0}/${symbol1} #${tokenId}`,
+      name: `Uniswap V3 ${symbol0}/${symbol1} ${feePercent}% position #${tokenId}`,
+      decimals: 0,
+      assetType: AssetType.UNISWAP_V3_POSITION,
+      extraAbi: [],
+      tokenId: tokenId.toString()
+    });
+  }
+
+  return assets;
+}
+
+/**
+ * Values a Uniswap V3 position.
+ *
+ * @async
+ * @param {ethers.Provider} provider - Mainnet provider
+ * @param {string} tokenId - Position NFT id
+ * @param {PriceOf} priceOf - Prices a token by address
+ * @param {{ blockTag: number }} overrides - Block to read at
+ * @returns {Promise<LpValuation>} Value of the non-VUSD side and the VUSD self-backing, including owed fees
+ *
+ * @remarks
+ * Fees earned since the position was last touched are not yet in tokensOwed
+ * and are not counted.
+ *
+ * @throws {Error} If the position or its pool cannot be read
+ */
+export async function valueUniswapV3Position(
+  provider: ethers.Provider,
+  tokenId: string,
+  priceOf: PriceOf,
+  overrides: { blockTag: number }
+): Promise<LpValuation> {
+  const manager = new ethers.Contract(UNISWAP_V3_POSITION_MANAGER_ADDRESS, UNISWAP_V3_POSITION_MANAGER_ABI, provider);
+  const factory = new ethers.Contract(UNISWAP_V3_FACTORY_ADDRESS, UNISWAP_V3_FACTORY_ABI, provider);
+
+  const position = await manager.positions(tokenId, overrides);
+  const poolAddress: string = await factory.getPool(position.token0, position.token1, position.fee, overrides);
+  const pool = new ethers.Contract(poolAddress, UNISWAP_V3_POOL_ABI, provider);
+  const { sqrtPriceX96 } = await pool.slot0(overrides);
+
+  const { amount0, amount1 } = getAmountsForLiquidity(
+    sqrtPriceX96,
+    getSqrtRatioAtTick(Number(position.tickLower)),
+    getSqrtRatioAtTick(Number(position.tickUpper)),
+    position.liquidity
+  );
+
+  return valueSides(provider, [
+    [position.token0, amount0 + position.tokensOwed0],
+    [position.token1, amount1 + position.tokensOwed1],
+  ], priceOf);
+}
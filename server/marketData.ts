@@ -0,0 +1,379 @@
+/**
+ * Copyright 2025 Hemi Labs. All rights reserved.
+ */
+
+/**
+ * marketData.ts - Market data providers with failover
+ *
+ * Market data the server needs (VUSD's market snapshot and price history, and
+ * USD prices of tokens such as WETH) comes from MarketDataProviders:
+ * - coingecko: the CoinGecko API (see prices.ts), with VUSD's coin id from
+ *   COINGECKO_VUSD_ID
+ * - onchain: VUSD's price from its Curve and SushiSwap pools, and token prices
+ *   from Chainlink feeds
+ * - fixture: a JSON file (MARKET_DATA_FIXTURE), so a test environment can run
+ *   without network access
+ *
+ * Providers are tried in the order given by MARKET_DATA_PROVIDERS (by default
+ * coingecko, then onchain). A provider that fails FAILURE_THRESHOLD times in a
+ * row is skipped for FAILURE_COOLDOWN, unless every provider is failing.
+ * Each provider's health is tracked and served by /api/market/providers.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { ethers } from 'ethers';
+import { TREASURY_ABI, VUSD_ABI } from '@/abis';
+import { TREASURY_ADDRESS, VUSD_ADDRESS } from '@/constants/contracts';
+import { createChainlinkSource, PriceSource } from '@/lib/pricing';
+import type { MarketDataProviderHealth, MarketDataProviderName, VusdMarketData } from '@shared/schema';
+import { readPoolMarkets } from './poolMarkets';
+import {
+  fetchTokenPrices,
+  fetchVusdMarket,
+  fetchVusdMarketChart,
+  MarketChart,
+  MarketChartSeries,
+  TokenPrice,
+  VUSD_COINGECKO_ID
+} from './prices';
+import { getMainnetProvider } from './provider';
+
+// Failures in a row after which a provider is skipped
+const FAILURE_THRESHOLD = 3;
+
+// How long a failing provider is skipped before it is tried again
+const FAILURE_COOLDOWN = 60 * 1000; // 1 minute in milliseconds
+
+const PROVIDER_NAMES: MarketDataProviderName[] = ['coingecko', 'onchain', 'fixture'];
+
+const DEFAULT_FIXTURE_PATH = 'server/fixtures/market-data.json';
+
+/**
+ * A source of market data. Providers implement the operations they support;
+ * the others are skipped during failover.
+ */
+export interface MarketDataProvider {
+  name: MarketDataProviderName;
+  getVusdMarket?: () => Promise<VusdMarketData>;
+  // Prices keyed by lowercase address; tokens the provider does not know are omitted
+  getTokenPrices?: (addresses: string[]) => Promise<Record<string, TokenPrice>>;
+  getVusdMarketChart?: (days: number) => Promise<MarketChart>;
+}
+
+export type SourcedTokenPrice = TokenPrice & { source: MarketDataProviderName };
+
+/**
+ * Creates the CoinGecko provider.
+ */
+export function createCoinGeckoProvider(): MarketDataProvider {
+  return {
+    name: 'coingecko',
+    getVusdMarket: fetchVusdMarket,
+    getTokenPrices: fetchTokenPrices,
+    getVusdMarketChart: fetchVusdMarketChart,
+  };
+}
+
+/**
+ * Creates the on-chain provider.
+ *
+ * @param {ethers.Provider} provider - Mainnet provider
+ * @returns {MarketDataProvider} The provider
+ *
+ * @remarks
+ * VUSD's price is the average of its pools' spot prices weighted by liquidity,
+ * and its market cap uses vusd.totalSupply(). Pools have no 24h history, so
+ * the 24h change and volume are null.
+ */
+export function createOnChainProvider(provider: ethers.Provider): MarketDataProvider {
+  const treasury = new ethers.Contract(TREASURY_ADDRESS, TREASURY_ABI, provider);
+  const chainlink = createChainlinkSource(provider, treasury);
+
+  return {
+    name: 'onchain',
+    getVusdMarket: async () => {
+      const markets = await readPoolMarkets(provider, createPriceSources(provider));
+      const pools = markets.pools.filter(pool => !pool.error && pool.tvl > 0);
+      if (pools.length === 0) {
+        throw new Error('No VUSD pool could be read');
+      }
+
+      const tvl = pools.reduce((total, pool) => total + pool.tvl, 0);
+      const price = pools.reduce((total, pool) => total + pool.spotPrice * pool.tvl, 0) / tvl;
+
+      const vusd = new ethers.Contract(VUSD_ADDRESS, VUSD_ABI, provider);
+      const supply = parseFloat(ethers.formatUnits(await vusd.totalSupply({ blockTag: markets.blockNumber }), 18));
+
+      return {
+        id: VUSD_COINGECKO_ID,
+        symbol: 'vusd',
+        name: 'VUSD',
+        current_price: price,
+        market_cap: supply * price,
+        price_change_24h: null,
+        volume_24h: null,
+        last_updated: new Date(markets.timestamp * 1000).toISOString(),
+        contract_address: VUSD_ADDRESS,
+        source: 'onchain',
+      };
+    },
+    getTokenPrices: async (addresses) => {
+      const prices: Record<string, TokenPrice> = {};
+      for (const address of addresses) {
+        const quote = await chainlink.getPrice(address);
+        if (quote) {
+          prices[address] = { usd: quote.usd, last_updated_at: quote.updatedAt };
+        }
+      }
+      return prices;
+    },
+  };
+}
+
+interface MarketDataFixture {
+  vusdMarket: Omit<VusdMarketData, 'last_updated' | 'source'>;
+  tokenPrices: Record<string, number>; // USD, keyed by token address
+}
+
+/**
+ * Creates the fixture provider, which answers from a JSON file.
+ *
+ * @param {string} fixturePath - Path of the fixture, relative to the working directory
+ * @returns {MarketDataProvider} The provider
+ *
+ * @remarks
+ * The file is read on first use. Price history is a flat line at the
+ * fixture's price and volume, spaced like CoinGecko's points.
+ */
+export function createFixtureProvider(fixturePath: string): MarketDataProvider {
+  let fixture: Promise<MarketDataFixture> | null = null;
+
+  const load = () => {
+    if (!fixture) {
+      fixture = fs.readFile(path.resolve(process.cwd(), fixturePath), 'utf8').then(JSON.parse);
+      // Read the file again next time if it could not be read
+      fixture.catch(() => { fixture = null; });
+    }
+    return fixture;
+  };
+
+  return {
+    name: 'fixture',
+    getVusdMarket: async () => ({
+      ...(await load()).vusdMarket,
+      last_updated: new Date().toISOString(),
+      source: 'fixture',
+    }),
+    getTokenPrices: async (addresses) => {
+      const { tokenPrices } = await load();
+      const known = new Map(Object.entries(tokenPrices).map(([address, usd]) => [address.toLowerCase(), usd]));
+
+      const prices: Record<string, TokenPrice> = {};
+      for (const address of addresses) {
+        const usd = known.get(address.toLowerCase());
+        if (usd !== undefined) {
+          prices[address] = { usd, last_updated_at: null };
+        }
+      }
+      return prices;
+    },
+    getVusdMarketChart: async (days) => {
+      const { vusdMarket } = await load();
+      const step = days <= 1 ? 5 * 60 * 1000 : days <= 90 ? 60 * 60 * 1000 : 24 * 60 * 60 * 1000;
+      const now = Date.now();
+
+      const prices: MarketChartSeries = [];
+      const volumes: MarketChartSeries = [];
+      for (let ms = now - days * 24 * 60 * 60 * 1000; ms <= now; ms += step) {
+        prices.push([ms, vusdMarket.current_price]);
+        volumes.push([ms, vusdMarket.volume_24h ?? 0]);
+      }
+      return { prices, total_volumes: volumes };
+    },
+  };
+}
+
+/**
+ * Combines providers into one market data source with ordered failover.
+ *
+ * @param {MarketDataProvider[]} providers - Providers in order of preference
+ * @returns The failover operations and the providers' health
+ */
+export function createMarketData(providers: MarketDataProvider[]) {
+  const health = new Map<MarketDataProviderName, MarketDataProviderHealth>(
+    providers.map(provider => [provider.name, {
+      name: provider.name,
+      healthy: true,
+      consecutiveFailures: 0,
+      lastSuccess: null,
+      lastFailure: null,
+      lastError: null,
+    }])
+  );
+
+  const isHealthy = (state: MarketDataProviderHealth) =>
+    state.consecutiveFailures < FAILURE_THRESHOLD ||
+    Date.now() - (state.lastFailure ?? 0) > FAILURE_COOLDOWN;
+
+  const recordSuccess = (name: MarketDataProviderName) => {
+    const state = health.get(name)!;
+    state.consecutiveFailures = 0;
+    state.lastSuccess = Date.now();
+  };
+
+  const recordFailure = (name: MarketDataProviderName, error: unknown) => {
+    const state = health.get(name)!;
+    state.consecutiveFailures++;
+    state.lastFailure = Date.now();
+    state.lastError = error instanceof Error ? error.message : String(error);
+    console.error(`Market data provider ${name} failed:`, error);
+  };
+
+  /**
+   * Providers supporting an operation: healthy ones in order, then failing ones
+   * as a last resort.
+   */
+  const candidates = (operation: keyof Omit<MarketDataProvider, 'name'>) => {
+    const supporting = providers.filter(provider => provider[operation]);
+    return [
+      ...supporting.filter(provider => isHealthy(health.get(provider.name)!)),
+      ...supporting.filter(provider => !isHealthy(health.get(provider.name)!)),
+    ];
+  };
+
+  /**
+   * Runs an operation on each candidate until one succeeds.
+   *
+   * @throws {Error} If no provider supports the operation or every provider fails
+   */
+  const failover = async <T>(
+    operation: keyof Omit<MarketDataProvider, 'name'>,
+    call: (provider: MarketDataProvider) => Promise<T>
+  ): Promise<T> => {
+    const errors: string[] = [];
+
+    for (const provider of candidates(operation)) {
+      try {
+        const result = await call(provider);
+        recordSuccess(provider.name);
+        return result;
+      } catch (error) {
+        recordFailure(provider.name, error);
+        errors.push(`${provider.name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    throw new Error(
+      errors.length > 0
+        ? `All market data providers failed (${errors.join('; ')})`
+        : `No market data provider supports ${operation}`
+    );
+  };
+
+  return {
+    getVusdMarket: (): Promise<VusdMarketData> =>
+      failover('getVusdMarket', provider => provider.getVusdMarket!()),
+
+    getVusdMarketChart: (days: number): Promise<MarketChart> =>
+      failover('getVusdMarketChart', provider => provider.getVusdMarketChart!(days)),
+
+    /**
+     * Prices tokens, asking later providers for the tokens earlier ones did not know.
+     *
+     * @throws {Error} If every provider failed
+     */
+    getTokenPrices: async (addresses: string[]): Promise<Record<string, SourcedTokenPrice>> => {
+      const prices: Record<string, SourcedTokenPrice> = {};
+      const errors: string[] = [];
+      let answered = false;
+
+      for (const provider of candidates('getTokenPrices')) {
+        const missing = addresses.filter(address => !prices[address]);
+        if (missing.length === 0) break;
+
+        try {
+          const found = await provider.getTokenPrices!(missing);
+          recordSuccess(provider.name);
+          answered = true;
+          for (const [address, price] of Object.entries(found)) {
+            prices[address] = { ...price, source: provider.name };
+          }
+        } catch (error) {
+          recordFailure(provider.name, error);
+          errors.push(`${provider.name}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+
+      if (!answered) {
+        throw new Error(`All market data providers failed (${errors.join('; ')})`);
+      }
+      return prices;
+    },
+
+    getHealth: (): MarketDataProviderHealth[] =>
+      providers.map(provider => {
+        const state = health.get(provider.name)!;
+        return { ...state, healthy: isHealthy(state) };
+      }),
+  };
+}
+
+/**
+ * Reads the provider order from MARKET_DATA_PROVIDERS, ignoring unknown names.
+ */
+const configuredProviderNames = (): MarketDataProviderName[] =>
+  (process.env.MARKET_DATA_PROVIDERS || 'coingecko,onchain')
+    .split(',')
+    .map(name => name.trim())
+    .filter((name): name is MarketDataProviderName => PROVIDER_NAMES.includes(name as MarketDataProviderName));
+
+const providerNames = configuredProviderNames();
+
+// Whether market data comes from the fixture alone, with no network access
+const offline = providerNames.length > 0 && providerNames.every(name => name === 'fixture');
+
+export const marketData = createMarketData(providerNames.map(name => {
+  switch (name) {
+    case 'coingecko':
+      return createCoinGeckoProvider();
+    case 'onchain':
+      return createOnChainProvider(getMainnetProvider());
+    case 'fixture':
+      return createFixtureProvider(process.env.MARKET_DATA_FIXTURE || DEFAULT_FIXTURE_PATH);
+  }
+}));
+
+/**
+ * Price source backed by the market data providers, used next to Chainlink
+ * wherever the server prices tokens. Each quote names the provider that answered.
+ */
+export const marketDataPriceSource: PriceSource = {
+  name: providerNames[0] ?? 'coingecko',
+  getPrice: async (tokenAddress) => {
+    const address = tokenAddress.toLowerCase();
+    const entry = (await marketData.getTokenPrices([address]))[address];
+    return entry ? { source: entry.source, usd: entry.usd, updatedAt: entry.last_updated_at } : null;
+  },
+};
+
+/**
+ * Price sources for valuations on the server: Chainlink first (through the
+ * Treasury's oracle registry), the market data providers as a cross-check.
+ *
+ * @param {ethers.Provider} provider - Mainnet provider
+ * @returns {PriceSource[]} Sources in order of preference, for getPrice
+ *
+ * @remarks
+ * Chainlink is left out only in offline mode, when the fixture is the only
+ * configured provider, so a test environment prices tokens without network
+ * access.
+ */
+export function createPriceSources(provider: ethers.Provider): PriceSource[] {
+  if (offline) {
+    return [marketDataPriceSource];
+  }
+
+  const treasury = new ethers.Contract(TREASURY_ADDRESS, TREASURY_ABI, provider);
+  return [createChainlinkSource(provider, treasury), marketDataPriceSource];
+}
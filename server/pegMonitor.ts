@@ -0,0 +1,256 @@
+/**
+ * Copyright 2025 Hemi Labs. All rights reserved.
+ */
+
+/**
+ * pegMonitor.ts - VUSD peg monitor
+ *
+ * VUSD can always be minted from a whitelisted stablecoin for the minting fee
+ * and redeemed for the redeem fee, which bounds where it should trade:
+ * - Mint price, 1 / (1 - mintingFee): the top of the band. Above it, minting
+ *   VUSD and selling it into a pool is profitable.
+ * - Redeem price, 1 - redeemFee: the bottom of the band. Below it, buying VUSD
+ *   from a pool and redeeming it is profitable.
+ *
+ * This module compares every pool in VUSD_POOLS with that band on a schedule.
+ * A pool whose sell price is above the band, or whose buy price is below it, is
+ * flagged together with the most profitable arbitrage after the fees, the pool's
+ * price impact and gas. Periods outside the band are stored as peg events, so
+ * peg stability can be shown over time.
+ *
+ * Stablecoins are assumed to be worth $1 when minting and redeeming; the
+ * paired tokens are priced like T2 assets.
+ */
+
+import { ethers } from 'ethers';
+import { ERC20_ABI, MINTER_ABI, REDEEMER_ABI } from '@/abis';
+import { MINTER_ADDRESS, REDEEMER_ADDRESS, WETH_ADDRESS } from '@/constants/contracts';
+import { VusdPool, VUSD_POOLS } from '@/constants/vusdPools';
+import { getPrice, PriceSource } from '@/lib/pricing';
+import type { PegArbitrage, PegPosition, PegStatusResponse, PoolPegStatus } from '@shared/schema';
+import { createPriceSources } from './marketData';
+import { readPoolState } from './poolMarkets';
+import { getMainnetProvider } from './provider';
+import { storage } from './storage';
+
+// How often the pools are compared with the band
+const CHECK_INTERVAL = 10 * 60 * 1000; // 10 minutes in milliseconds
+
+// Fee denominator used by both the Minter (MAX_BPS) and the Redeemer (MAX_REDEEM_FEE)
+const FEE_DENOMINATOR = 10000;
+
+// Gas of one arbitrage: a mint or redeem plus a pool swap, approvals excluded
+const ARBITRAGE_GAS = 300000;
+
+// Trade sizes tried when sizing an arbitrage, in VUSD or USD of the paired token
+const ARBITRAGE_SIZES = [
+  100, 200, 500, 1000, 2000, 5000, 10000, 20000, 50000,
+  100000, 200000, 500000, 1000000, 2000000, 5000000
+];
+
+// The latest comparison; null until the first check succeeds
+let latestStatus: PegStatusResponse | null = null;
+
+interface Band {
+  mintPrice: number;
+  redeemPrice: number;
+  gasCost: number; // USD of ARBITRAGE_GAS
+}
+
+/**
+ * Compares one pool with the band and sizes the arbitrage, if any.
+ */
+const checkPool = async (
+  provider: ethers.Provider,
+  sources: PriceSource[],
+  pool: VusdPool,
+  band: Band,
+  overrides: { blockTag: number }
+): Promise<PoolPegStatus> => {
+  const base = { poolId: pool.id, name: pool.name, venue: pool.venue };
+
+  try {
+    const state = await readPoolState(provider, pool, overrides);
+    const quoteToken = new ethers.Contract(state.quoteToken, ERC20_ABI, provider);
+    const [decimals, quotePrice] = await Promise.all([
+      quoteToken.decimals().then(Number),
+      getPrice(sources, state.quoteToken),
+    ]);
+
+    // USD of the paired token received for selling VUSD, or VUSD received for USD of it
+    const sellFor = async (vusd: number) =>
+      parseFloat(ethers.formatUnits(await state.quote(ethers.parseEther(String(vusd))), decimals)) * quotePrice.usd;
+    const buyWith = async (usd: number) => {
+      const quoteIn = ethers.parseUnits((usd / quotePrice.usd).toFixed(decimals), decimals);
+      return parseFloat(ethers.formatEther(await state.quoteBuy(quoteIn)));
+    };
+
+    const sellPrice = await sellFor(1);
+    const buyPrice = 1 / await buyWith(1);
+    const position: PegPosition = sellPrice > band.mintPrice
+      ? 'above'
+      : buyPrice < band.redeemPrice ? 'below' : 'within';
+
+    let arbitrage: PegArbitrage | null = null;
+    if (position !== 'within') {
+      for (const size of ARBITRAGE_SIZES) {
+        let candidate: PegArbitrage;
+        try {
+          candidate = position === 'above'
+            ? {
+              action: 'mint-and-sell',
+              size,
+              profit: await sellFor(size) - size * band.mintPrice - band.gasCost,
+              gasCost: band.gasCost
+            }
+            : await buyWith(size).then(vusd => ({
+              action: 'buy-and-redeem' as const,
+              size: vusd,
+              profit: vusd * band.redeemPrice - size - band.gasCost,
+              gasCost: band.gasCost
+            }));
+        } catch {
+          // Curve pools revert on trades larger than they can fill; larger sizes would too
+          break;
+        }
+
+        if (candidate.profit > (arbitrage?.profit ?? 0)) {
+          arbitrage = candidate;
+        }
+      }
+    }
+
+    return { ...base, sellPrice, buyPrice, position, arbitrage, error: null };
+  } catch (error) {
+    console.error(`Error checking the peg in pool ${pool.name}:`, error);
+    return {
+      ...base,
+      sellPrice: 0,
+      buyPrice: 0,
+      position: 'within',
+      arbitrage: null,
+      error: error instanceof Error ? error.message : 'Failed to read pool'
+    };
+  }
+};
+
+/**
+ * Compares every VUSD pool with the mint/redeem band at the latest block.
+ *
+ * @async
+ * @param {ethers.Provider} provider - Mainnet provider
+ * @returns {Promise<PegStatusResponse>} The band and each pool's position in it
+ *
+ * @throws {Error} If the block, the fees, the gas price or the ETH price cannot be read
+ */
+export async function checkPeg(provider: ethers.Provider): Promise<PegStatusResponse> {
+  const block = await provider.getBlock('latest');
+  if (!block) {
+    throw new Error('Latest block not available');
+  }
+  const overrides = { blockTag: block.number };
+
+  const minter = new ethers.Contract(MINTER_ADDRESS, MINTER_ABI, provider);
+  const redeemer = new ethers.Contract(REDEEMER_ADDRESS, REDEEMER_ABI, provider);
+  const sources = createPriceSources(provider);
+
+  const [mintingFee, redeemFee, feeData, ethPrice] = await Promise.all([
+    minter.mintingFee(overrides).then(Number),
+    redeemer.redeemFee(overrides).then(Number),
+    provider.getFeeData(),
+    getPrice(sources, WETH_ADDRESS),
+  ]);
+
+  const gasPrice = feeData.gasPrice ?? BigInt(0);
+  const band: Band = {
+    mintPrice: 1 / (1 - mintingFee / FEE_DENOMINATOR),
+    redeemPrice: 1 - redeemFee / FEE_DENOMINATOR,
+    gasCost: parseFloat(ethers.formatEther(gasPrice * BigInt(ARBITRAGE_GAS))) * ethPrice.usd,
+  };
+
+  const pools = await Promise.all(VUSD_POOLS.map(pool => checkPool(provider, sources, pool, band, overrides)));
+
+  return {
+    blockNumber: block.number,
+    timestamp: block.timestamp,
+    mintPrice: band.mintPrice,
+    redeemPrice: band.redeemPrice,
+    gasPrice: parseFloat(ethers.formatUnits(gasPrice, 'gwei')),
+    pools,
+  };
+}
+
+/**
+ * Opens, extends or closes each pool's peg event to match a new check.
+ *
+ * @remarks
+ * Pools that could not be read leave their events as they are. An event's
+ * peak is the sell price for events above the band and the buy price below it.
+ */
+const recordPegEvents = async (status: PegStatusResponse): Promise<void> => {
+  const open = await storage.getOpenPegEvents();
+
+  for (const pool of status.pools) {
+    if (pool.error) continue;
+
+    const event = open.find(event => event.poolId === pool.poolId);
+    const price = pool.position === 'above' ? pool.sellPrice : pool.buyPrice;
+
+    if (event && event.direction !== pool.position) {
+      await storage.updatePegEvent(event.id, { endedAt: status.timestamp });
+    } else if (event) {
+      const further = event.direction === 'above' ? price > event.peakPrice : price < event.peakPrice;
+      if (further) {
+        await storage.updatePegEvent(event.id, { peakPrice: price });
+      }
+      continue;
+    }
+
+    if (pool.position !== 'within') {
+      await storage.addPegEvent({
+        poolId: pool.poolId,
+        direction: pool.position,
+        startBlock: status.blockNumber,
+        startedAt: status.timestamp,
+        peakPrice: price,
+      });
+    }
+  }
+};
+
+/**
+ * Returns the latest peg check, or null before the first one.
+ */
+export function getPegStatus(): PegStatusResponse | null {
+  return latestStatus;
+}
+
+/**
+ * Checks the peg now and then every CHECK_INTERVAL, recording peg events.
+ *
+ * @remarks
+ * A check is skipped while the previous one is still in progress. Failed
+ * checks are logged and leave the previous status in place.
+ */
+export function startPegMonitor(): void {
+  const provider = getMainnetProvider();
+  let running = false;
+
+  const check = async () => {
+    if (running) return;
+    running = true;
+
+    try {
+      const status = await checkPeg(provider);
+      await recordPegEvents(status);
+      latestStatus = status;
+    } catch (error) {
+      console.error('Error checking the VUSD peg:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  check();
+  setInterval(check, CHECK_INTERVAL);
+}
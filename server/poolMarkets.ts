@@ -0,0 +1,242 @@
+/**
+ * Copyright 2025 Hemi Labs. All rights reserved.
+ */
+
+/**
+ * poolMarkets.ts - On-chain VUSD market data
+ *
+ * This module reads the VUSD pools listed in VUSD_POOLS at one block and
+ * reports for each:
+ * - Spot price: the USD received for selling 1 VUSD, after the pool fee
+ * - Liquidity: both reserves, with VUSD valued at the spot price
+ * - Price impact of selling PRICE_IMPACT_SIZES of VUSD, the direction that
+ *   matters for the peg
+ *
+ * SushiSwap pairs are quoted with the constant-product formula and its 0.3%
+ * fee; Curve pools are quoted by the pool's own get_dy. The paired token is
+ * priced by the sources the caller passes, normally createPriceSources from
+ * marketData.ts (which itself uses this module for on-chain VUSD prices).
+ */
+
+import { ethers } from 'ethers';
+import { ERC20_ABI } from '@/abis';
+import { CURVE_STABLESWAP_NG_FACTORY_ADDRESS, VUSD_ADDRESS } from '@/constants/contracts';
+import { UNISWAP_V2_PAIR_ABI } from '@/constants/treasuryAssets';
+import { PRICE_IMPACT_SIZES, VusdPool, VUSD_POOLS } from '@/constants/vusdPools';
+import { getPrice, PriceResult, PriceSource } from '@/lib/pricing';
+import type { PoolMarketData, PoolMarketsResponse } from '@shared/schema';
+
+const CURVE_FACTORY_ABI = [
+  'function pool_list(uint256 i) external view returns (address)'
+];
+
+const CURVE_NG_POOL_ABI = [
+  'function coins(uint256 i) external view returns (address)',
+  'function balances(uint256 i) external view returns (uint256)',
+  'function get_dy(int128 i, int128 j, uint256 dx) external view returns (uint256)'
+];
+
+// SushiSwap's swap fee, in thousandths
+const V2_FEE_NUMERATOR = BigInt(997);
+const V2_FEE_DENOMINATOR = BigInt(1000);
+
+// Quotes a swap through the pool, from an input amount to an output amount (raw units)
+type Quote = (amountIn: bigint) => Promise<bigint>;
+
+// A pool's state at a block, whatever the venue
+export interface PoolState {
+  address: string;
+  quoteToken: string; // The token VUSD is paired with
+  vusdReserve: bigint;
+  quoteReserve: bigint;
+  quote: Quote; // Selling VUSD for the paired token
+  quoteBuy: Quote; // Buying VUSD with the paired token
+}
+
+const isVusd = (address: string) => address.toLowerCase() === VUSD_ADDRESS.toLowerCase();
+
+/**
+ * Reads a SushiSwap pair and quotes sales with the constant-product formula.
+ */
+const readSushiswapPair = async (
+  provider: ethers.Provider,
+  address: string,
+  overrides: { blockTag: number }
+): Promise<PoolState> => {
+  const pair = new ethers.Contract(address, UNISWAP_V2_PAIR_ABI, provider);
+  const [reserves, token0, token1]: [[bigint, bigint], string, string] = await Promise.all([
+    pair.getReserves(overrides),
+    pair.token0(overrides),
+    pair.token1(overrides),
+  ]);
+
+  const vusdIsToken0 = isVusd(token0);
+  if (!vusdIsToken0 && !isVusd(token1)) {
+    throw new Error(`Pair ${address} does not hold VUSD`);
+  }
+  const vusdReserve = vusdIsToken0 ? reserves[0] : reserves[1];
+  const quoteReserve = vusdIsToken0 ? reserves[1] : reserves[0];
+
+  // Uniswap V2's getAmountOut
+  const amountOut = (amountIn: bigint, reserveIn: bigint, reserveOut: bigint): bigint => {
+    const inWithFee = amountIn * V2_FEE_NUMERATOR;
+    return inWithFee * reserveOut / (reserveIn * V2_FEE_DENOMINATOR + inWithFee);
+  };
+
+  return {
+    address,
+    quoteToken: vusdIsToken0 ? token1 : token0,
+    vusdReserve,
+    quoteReserve,
+    quote: async (vusdIn) => amountOut(vusdIn, vusdReserve, quoteReserve),
+    quoteBuy: async (quoteIn) => amountOut(quoteIn, quoteReserve, vusdReserve),
+  };
+};
+
+/**
+ * Reads a two-coin Curve stable-swap NG pool and quotes sales with get_dy.
+ *
+ * @remarks
+ * Pools listed by factory index are resolved through the factory's pool_list.
+ */
+const readCurvePool = async (
+  provider: ethers.Provider,
+  pool: VusdPool,
+  overrides: { blockTag: number }
+): Promise<PoolState> => {
+  let address = pool.address;
+  if (!address) {
+    const factory = new ethers.Contract(CURVE_STABLESWAP_NG_FACTORY_ADDRESS, CURVE_FACTORY_ABI, provider);
+    address = await factory.pool_list(pool.curveFactoryIndex, overrides) as string;
+  }
+
+  const contract = new ethers.Contract(address, CURVE_NG_POOL_ABI, provider);
+  const [coin0, coin1, balance0, balance1]: [string, string, bigint, bigint] = await Promise.all([
+    contract.coins(0, overrides),
+    contract.coins(1, overrides),
+    contract.balances(0, overrides),
+    contract.balances(1, overrides),
+  ]);
+
+  const vusdIndex = isVusd(coin0) ? 0 : isVusd(coin1) ? 1 : -1;
+  if (vusdIndex === -1) {
+    throw new Error(`Curve pool ${address} does not hold VUSD`);
+  }
+  const quoteIndex = 1 - vusdIndex;
+
+  return {
+    address,
+    quoteToken: vusdIndex === 0 ? coin1 : coin0,
+    vusdReserve: vusdIndex === 0 ? balance0 : balance1,
+    quoteReserve: vusdIndex === 0 ? balance1 : balance0,
+    quote: (vusdIn) => contract.get_dy(vusdIndex, quoteIndex, vusdIn, overrides),
+    quoteBuy: (quoteIn) => contract.get_dy(quoteIndex, vusdIndex, quoteIn, overrides),
+  };
+};
+
+/**
+ * Reads a pool's reserves at a block, with quotes for swaps in both directions.
+ *
+ * @async
+ * @param {ethers.Provider} provider - Mainnet provider
+ * @param {VusdPool} pool - The pool, from VUSD_POOLS
+ * @param {{ blockTag: number }} overrides - Block to read and quote at
+ * @returns {Promise<PoolState>} The pool's state
+ *
+ * @throws {Error} If the pool cannot be read or does not hold VUSD
+ */
+export function readPoolState(
+  provider: ethers.Provider,
+  pool: VusdPool,
+  overrides: { blockTag: number }
+): Promise<PoolState> {
+  return pool.venue === 'curve'
+    ? readCurvePool(provider, pool, overrides)
+    : readSushiswapPair(provider, pool.address!, overrides);
+}
+
+/**
+ * Reads one pool's market data. Failures are returned on the pool rather
+ * than thrown, so one bad pool does not hide the others.
+ */
+const readPoolMarket = async (
+  provider: ethers.Provider,
+  sources: PriceSource[],
+  pool: VusdPool,
+  overrides: { blockTag: number }
+): Promise<PoolMarketData> => {
+  const base = { id: pool.id, venue: pool.venue, name: pool.name, url: pool.url };
+
+  try {
+    const state = await readPoolState(provider, pool, overrides);
+
+    const quoteToken = new ethers.Contract(state.quoteToken, ERC20_ABI, provider);
+    const [quoteDecimals, quoteSymbol, quotePrice]: [bigint, string, PriceResult] = await Promise.all([
+      quoteToken.decimals(),
+      quoteToken.symbol(),
+      getPrice(sources, state.quoteToken),
+    ]);
+
+    // VUSD has 18 decimals, so its amounts are parsed and formatted as ether
+    const toQuote = (raw: bigint) => parseFloat(ethers.formatUnits(raw, quoteDecimals));
+    const spotPrice = toQuote(await state.quote(ethers.parseEther('1'))) * quotePrice.usd;
+
+    const priceImpact = await Promise.all(PRICE_IMPACT_SIZES.map(async amount => {
+      const received = toQuote(await state.quote(ethers.parseEther(String(amount)))) * quotePrice.usd;
+      return { amount, impact: spotPrice > 0 ? 1 - received / amount / spotPrice : 0 };
+    }));
+
+    const vusdReserve = parseFloat(ethers.formatUnits(state.vusdReserve, 18));
+    const quoteReserve = toQuote(state.quoteReserve);
+
+    return {
+      ...base,
+      address: state.address,
+      quoteSymbol,
+      spotPrice,
+      tvl: vusdReserve * spotPrice + quoteReserve * quotePrice.usd,
+      vusdReserve,
+      quoteReserve,
+      priceImpact,
+      error: null,
+    };
+  } catch (error) {
+    console.error(`Error reading VUSD pool ${pool.name}:`, error);
+    return {
+      ...base,
+      address: pool.address,
+      quoteSymbol: '',
+      spotPrice: 0,
+      tvl: 0,
+      vusdReserve: 0,
+      quoteReserve: 0,
+      priceImpact: [],
+      error: error instanceof Error ? error.message : 'Failed to read pool',
+    };
+  }
+};
+
+/**
+ * Reads the market data of every VUSD pool at the latest block.
+ *
+ * @async
+ * @param {ethers.Provider} provider - Mainnet provider
+ * @param {PriceSource[]} sources - Sources pricing the paired tokens, in order of preference
+ * @returns {Promise<PoolMarketsResponse>} Each pool's market data and the block it was read at
+ *
+ * @throws {Error} If the latest block cannot be read
+ */
+export async function readPoolMarkets(
+  provider: ethers.Provider,
+  sources: PriceSource[]
+): Promise<PoolMarketsResponse> {
+  const block = await provider.getBlock('latest');
+  if (!block) {
+    throw new Error('Latest block not available');
+  }
+  const overrides = { blockTag: block.number };
+
+  const pools = await Promise.all(VUSD_POOLS.map(pool => readPoolMarket(provider, sources, pool, overrides)));
+
+  return { blockNumber: block.number, timestamp: block.timestamp, pools };
+}
@@ -0,0 +1,119 @@
+/**
+ * Copyright 2025 Hemi Labs. All rights reserved.
+ */
+
+/**
+ * priceHistory.ts - VUSD price history
+ *
+ * This module serves VUSD's USD price and 24h volume over a number of days:
+ * - Fetches the range from the market data providers (CoinGecko's market_chart
+ *   by default) and stores every point, so history stays available when the
+ *   providers are down or stop returning old points
+ * - Reads the stored points back and resamples them to one point per interval
+ *   (the granularity CoinGecko uses for the range), taking the last price in
+ *   each interval
+ * - Fills intervals without a price by carrying the previous one forward,
+ *   flagged as filled, so charts have no gaps
+ */
+
+import type { InsertVusdPrice, VusdPrice, VusdPriceHistory, VusdPricePoint } from '@shared/schema';
+import { marketData } from './marketData';
+import { storage } from './storage';
+
+export const MAX_HISTORY_DAYS = 365; // CoinGecko's limit without a paid plan
+
+const FIVE_MINUTES = 5 * 60;
+const HOUR = 60 * 60;
+const DAY = 24 * HOUR;
+
+/**
+ * Returns the interval between points for a range, matching CoinGecko's
+ * automatic granularity.
+ */
+const intervalFor = (days: number): number =>
+  days <= 1 ? FIVE_MINUTES : days <= 90 ? HOUR : DAY;
+
+/**
+ * Fetches the range from the market data providers and stores its points.
+ */
+const refreshStoredPrices = async (days: number): Promise<void> => {
+  const { prices, total_volumes } = await marketData.getVusdMarketChart(days);
+  const volumes = new Map(total_volumes.map(([ms, volume]) => [ms, volume]));
+
+  const points: InsertVusdPrice[] = prices.map(([ms, price]) => ({
+    timestamp: Math.floor(ms / 1000),
+    price,
+    volume: volumes.get(ms) ?? 0
+  }));
+  await storage.addVusdPrices(points);
+};
+
+/**
+ * Resamples stored prices to one point per interval from `from` to `to`.
+ *
+ * @remarks
+ * Prices stored before `from` only seed the carry-forward. Intervals before
+ * the first price are left out rather than filled.
+ */
+const resample = (stored: VusdPrice[], from: number, to: number, interval: number): VusdPricePoint[] => {
+  const points: VusdPricePoint[] = [];
+  const firstStart = Math.floor(from / interval) * interval;
+  let last: VusdPrice | null = null;
+  let index = 0;
+
+  while (index < stored.length && stored[index].timestamp < firstStart) {
+    last = stored[index];
+    index++;
+  }
+
+  for (let start = firstStart; start <= to; start += interval) {
+    let inInterval: VusdPrice | null = null;
+    while (index < stored.length && stored[index].timestamp < start + interval) {
+      inInterval = stored[index];
+      index++;
+    }
+
+    if (inInterval) {
+      last = inInterval;
+      points.push({ timestamp: start, price: inInterval.price, volume: inInterval.volume, filled: false });
+    } else if (last) {
+      points.push({ timestamp: start, price: last.price, volume: last.volume, filled: true });
+    }
+  }
+
+  return points;
+};
+
+/**
+ * Returns VUSD's price history for the last `days` days.
+ *
+ * @async
+ * @param {number} days - Days of history, 1 to MAX_HISTORY_DAYS
+ * @returns {Promise<VusdPriceHistory>} One point per interval, oldest first
+ *
+ * @remarks
+ * When no provider can be reached, the stored history is served instead.
+ *
+ * @throws {Error} If every provider fails and nothing is stored for the range
+ */
+export async function getVusdPriceHistory(days: number): Promise<VusdPriceHistory> {
+  const interval = intervalFor(days);
+  const to = Math.floor(Date.now() / 1000);
+  const from = to - days * DAY;
+
+  let refreshError: unknown = null;
+  try {
+    await refreshStoredPrices(days);
+  } catch (error) {
+    console.error('Error fetching VUSD price history, serving stored prices:', error);
+    refreshError = error;
+  }
+
+  // One interval earlier, so the first interval can be filled from the one before it
+  const stored = await storage.getVusdPrices(from - interval, to);
+  if (refreshError && stored.length === 0) {
+    throw refreshError;
+  }
+
+  return { days, interval, points: resample(stored, from, to, interval) };
+}
@@ -0,0 +1,106 @@
+/**
+ * Copyright 2025 Hemi Labs. All rights reserved.
+ */
+
+/**
+ * prices.ts - CoinGecko API client
+ *
+ * Requests to CoinGecko used by the server's CoinGecko market data provider
+ * (see marketData.ts). Routes and valuations go through that layer rather
+ * than calling these directly, so they can fail over to other providers.
+ */
+
+import type { VusdMarketData } from "@shared/schema";
+
+export type TokenPrice = { usd: number; last_updated_at: number | null };
+
+// CoinGecko's id for VUSD, configurable in case the listing changes
+export const VUSD_COINGECKO_ID = process.env.COINGECKO_VUSD_ID || 'vesper-vdollar';
+
+// A CoinGecko market_chart series: [milliseconds, value] pairs
+export type MarketChartSeries = [number, number][];
+
+export interface MarketChart {
+  prices: MarketChartSeries;
+  total_volumes: MarketChartSeries;
+}
+
+/**
+ * Fetches USD prices of Ethereum tokens from CoinGecko.
+ *
+ * @param addresses - Lowercase token addresses
+ * @returns Prices keyed by lowercase address; tokens CoinGecko does not know are omitted
+ */
+export async function fetchTokenPrices(addresses: string[]): Promise<Record<string, TokenPrice>> {
+  const response = await fetch(
+    `https://api.coingecko.com/api/v3/simple/token_price/ethereum?contract_addresses=${addresses.join(',')}&vs_currencies=usd&include_last_updated_at=true`
+  );
+
+  if (!response.ok) {
+    throw new Error(`CoinGecko API error: ${response.status}`);
+  }
+
+  const data = await response.json();
+
+  const prices: Record<string, TokenPrice> = {};
+  for (const address of addresses) {
+    const entry = data[address];
+    if (typeof entry?.usd === 'number') {
+      prices[address] = {
+        usd: entry.usd,
+        last_updated_at: entry.last_updated_at ?? null
+      };
+    }
+  }
+  return prices;
+}
+
+/**
+ * Fetches VUSD's current price, market cap, 24h change and volume from CoinGecko.
+ */
+export async function fetchVusdMarket(): Promise<VusdMarketData> {
+  const response = await fetch(
+    `https://api.coingecko.com/api/v3/coins/${VUSD_COINGECKO_ID}?localization=false&tickers=false&community_data=false&developer_data=false`
+  );
+
+  if (!response.ok) {
+    throw new Error(`CoinGecko API error: ${response.status}`);
+  }
+
+  const data = await response.json();
+
+  // Extract and format the needed fields
+  return {
+    id: data.id,
+    symbol: data.symbol,
+    name: data.name,
+    image: data.image?.small,
+    current_price: data.market_data?.current_price?.usd,
+    market_cap: data.market_data?.market_cap?.usd,
+    price_change_24h: data.market_data?.price_change_percentage_24h ?? null,
+    volume_24h: data.market_data?.total_volume?.usd ?? null,
+    last_updated: data.last_updated,
+    contract_address: data.platforms?.ethereum,
+    source: 'coingecko'
+  };
+}
+
+/**
+ * Fetches VUSD's USD price and 24h volume history from CoinGecko.
+ *
+ * @param days - How many days back; CoinGecko returns 5-minute points for 1 day,
+ *   hourly points up to 90 days and daily points beyond
+ * @returns The price and volume series, oldest first
+ */
+export async function fetchVusdMarketChart(days: number): Promise<MarketChart> {
+  const response = await fetch(
+    `https://api.coingecko.com/api/v3/coins/${VUSD_COINGECKO_ID}/market_chart?vs_currency=usd&days=${days}`
+  );
+
+  if (!response.ok) {
+    throw new Error(`CoinGecko API error: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return { prices: data.prices ?? [], total_volumes: data.total_volumes ?? [] };
+}
@@ -0,0 +1,20 @@
+/**
+ * Copyright 2025 Hemi Labs. All rights reserved.
+ */
+
+import { ethers } from 'ethers';
+
+const RPC_URL = process.env.ETH_RPC_URL || 'https://eth-mainnet.public.blastapi.io';
+
+let provider: ethers.JsonRpcProvider | null = null;
+
+/**
+ * Returns the server's mainnet provider, shared by the treasury indexer and
+ * the market data routes so they use one connection.
+ */
+export function getMainnetProvider(): ethers.JsonRpcProvider {
+  if (!provider) {
+    provider = new ethers.JsonRpcProvider(RPC_URL);
+  }
+  return provider;
+}
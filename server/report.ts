@@ -0,0 +1,252 @@
+/**
+ * Copyright 2025 Hemi Labs. All rights reserved.
+ */
+
+/**
+ * report.ts - Proof-of-reserves report
+ *
+ * This module turns a stored treasury snapshot into a report the compliance
+ * team can file instead of screenshots of the Analytics page:
+ * - Every T1 and T2 asset with its balance, USD price, price source and value
+ * - VUSD circulating supply (vusd.totalSupply()), total reserves and the
+ *   collateralization ratio
+ * - Self-backing: VUSD held through LP positions, which is not part of the
+ *   reserves, and the ratio if it were counted at face value
+ * - The block number and timestamp every figure was read at
+ *
+ * The report is available as JSON, CSV and a printable HTML page with a
+ * sign-off section. Each report carries the SHA-256 of its canonical JSON
+ * form, so a signed copy in any format can be matched to the exact figures.
+ */
+
+import { createHash } from "crypto";
+import type { TreasuryAsset, TreasurySnapshot } from "@shared/schema";
+
+export type ReportFormat = "json" | "csv" | "html";
+
+export const REPORT_FORMATS: ReportFormat[] = ["json", "csv", "html"];
+
+export interface ReportAsset {
+  tranche: "T1" | "T2";
+  symbol: string;
+  name: string;
+  address: string;
+  balance: number;
+  priceUsd: number | null; // Null when the asset could not be valued or is unpriced
+  priceSource: string;
+  valueUsd: number;
+  selfBackingUsd: number;
+  error: string | null;
+}
+
+export interface ReservesReport {
+  blockNumber: number;
+  timestamp: number; // Block timestamp, in seconds
+  generatedAt: number; // When the report was built, in seconds
+  status: TreasurySnapshot["status"];
+  circulatingSupply: number;
+  totalReserves: number;
+  t1Reserves: number;
+  t2Reserves: number;
+  collateralizationRatio: number;
+  excessReserves: number;
+  selfBacking: number; // VUSD held through LP positions, at face value
+  ratioWithSelfBacking: number;
+  assets: ReportAsset[];
+  sha256: string; // Hash of the report without this field
+}
+
+/**
+ * Describes where an asset's price came from. T1 stablecoins are valued 1:1.
+ */
+const describePriceSource = (asset: TreasuryAsset, tranche: ReportAsset["tranche"]): string => {
+  if (asset.error) return "unavailable";
+  if (asset.unpriced) return "unpriced";
+  if (tranche === "T1") return "1:1 (whitelisted stablecoin)";
+  const source = asset.priceSource ?? "unknown";
+  return asset.priceDisagreement ? `${source} (sources disagree)` : source;
+};
+
+const toReportAsset = (asset: TreasuryAsset, tranche: ReportAsset["tranche"]): ReportAsset => ({
+  tranche,
+  symbol: asset.symbol,
+  name: asset.name,
+  address: asset.address,
+  balance: asset.balance,
+  priceUsd: asset.error || asset.unpriced ? null : tranche === "T1" ? 1 : asset.balance > 0 ? asset.value / asset.balance : null,
+  priceSource: describePriceSource(asset, tranche),
+  valueUsd: asset.value,
+  selfBackingUsd: asset.selfBacking ?? 0,
+  error: asset.error
+});
+
+/**
+ * Builds the report for a snapshot.
+ *
+ * @param {TreasurySnapshot} snapshot - The snapshot to report on
+ * @returns {ReservesReport} The report with its SHA-256 digest
+ *
+ * @remarks
+ * T2 prices are derived from the stored value and balance, which is the price
+ * the indexer used for the valuation.
+ */
+export function buildReservesReport(snapshot: TreasurySnapshot): ReservesReport {
+  const report: Omit<ReservesReport, "sha256"> = {
+    blockNumber: snapshot.blockNumber,
+    timestamp: snapshot.timestamp,
+    generatedAt: Math.floor(Date.now() / 1000),
+    status: snapshot.status,
+    circulatingSupply: snapshot.circulatingSupply,
+    totalReserves: snapshot.totalValue,
+    t1Reserves: snapshot.t1Value,
+    t2Reserves: snapshot.t2Value,
+    collateralizationRatio: snapshot.collateralizationRatio,
+    excessReserves: snapshot.excessValue,
+    selfBacking: snapshot.selfBackingValue,
+    ratioWithSelfBacking: snapshot.circulatingSupply > 0
+      ? (snapshot.totalValue + snapshot.selfBackingValue) / snapshot.circulatingSupply
+      : 0,
+    assets: [
+      ...snapshot.t1Assets.map(asset => toReportAsset(asset, "T1")),
+      ...snapshot.t2Assets.map(asset => toReportAsset(asset, "T2"))
+    ]
+  };
+
+  const sha256 = createHash("sha256").update(JSON.stringify(report)).digest("hex");
+  return { ...report, sha256 };
+}
+
+/**
+ * Quotes a CSV field when it contains a separator, quote or line break.
+ */
+const csvField = (value: string | number | null): string => {
+  const text = value === null ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Renders the report as CSV: a header block of key/value rows, a blank line,
+ * then one row per asset.
+ */
+export function renderReportCsv(report: ReservesReport): string {
+  const summary: [string, string | number][] = [
+    ["block_number", report.blockNumber],
+    ["block_timestamp", new Date(report.timestamp * 1000).toISOString()],
+    ["generated_at", new Date(report.generatedAt * 1000).toISOString()],
+    ["status", report.status],
+    ["circulating_supply", report.circulatingSupply],
+    ["total_reserves_usd", report.totalReserves],
+    ["t1_reserves_usd", report.t1Reserves],
+    ["t2_reserves_usd", report.t2Reserves],
+    ["collateralization_ratio", report.collateralizationRatio],
+    ["excess_reserves_usd", report.excessReserves],
+    ["self_backing_vusd", report.selfBacking],
+    ["collateralization_ratio_with_self_backing", report.ratioWithSelfBacking],
+    ["sha256", report.sha256]
+  ];
+
+  const assetHeader = ["tranche", "symbol", "name", "address", "balance", "price_usd", "price_source", "value_usd", "self_backing_usd", "error"];
+  const assetRows = report.assets.map(asset => [
+    asset.tranche,
+    asset.symbol,
+    asset.name,
+    asset.address,
+    asset.balance,
+    asset.priceUsd,
+    asset.priceSource,
+    asset.valueUsd,
+    asset.selfBackingUsd,
+    asset.error
+  ]);
+
+  return [
+    ...summary.map(row => row.map(csvField).join(",")),
+    "",
+    assetHeader.join(","),
+    ...assetRows.map(row => row.map(csvField).join(","))
+  ].join("\n") + "\n";
+}
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const usd = (value: number): string =>
+  `$${value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/**
+ * Renders the report as a standalone HTML page laid out for printing or
+ * saving as PDF from the browser.
+ */
+export function renderReportHtml(report: ReservesReport): string {
+  const blockTime = new Date(report.timestamp * 1000).toUTCString();
+  const generated = new Date(report.generatedAt * 1000).toUTCString();
+
+  const assetRows = report.assets.map(asset => `
+      <tr>
+        <td>${asset.tranche}</td>
+        <td>${escapeHtml(asset.symbol)}<div class="muted mono">${escapeHtml(asset.address)}</div></td>
+        <td class="num">${asset.balance.toLocaleString("en-US", { maximumFractionDigits: 6 })}</td>
+        <td class="num">${asset.priceUsd === null ? "—" : usd(asset.priceUsd)}</td>
+        <td>${escapeHtml(asset.priceSource)}${asset.error ? `<div class="warn">${escapeHtml(asset.error)}</div>` : ""}</td>
+        <td class="num">${usd(asset.valueUsd)}</td>
+      </tr>`).join("");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>VUSD Proof of Reserves - Block ${report.blockNumber}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; color: #111; max-width: 900px; margin: 2rem auto; padding: 0 1rem; }
+    h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+    table { width: 100%; border-collapse: collapse; margin: 1rem 0; font-size: 0.875rem; }
+    th, td { border-bottom: 1px solid #ddd; padding: 0.5rem; text-align: left; vertical-align: top; }
+    th { background: #f5f5f5; }
+    .num { text-align: right; white-space: nowrap; }
+    .muted { color: #666; font-size: 0.75rem; }
+    .mono { font-family: ui-monospace, monospace; word-break: break-all; }
+    .warn { color: #b45309; font-size: 0.75rem; }
+    .signoff { display: flex; gap: 3rem; margin-top: 3rem; }
+    .signoff div { flex: 1; border-top: 1px solid #111; padding-top: 0.5rem; font-size: 0.875rem; }
+    @media print { body { margin: 0; } .no-print { display: none; } }
+  </style>
+</head>
+<body>
+  <button class="no-print" onclick="window.print()">Print / Save as PDF</button>
+  <h1>VUSD Proof of Reserves</h1>
+  <div class="muted">Block ${report.blockNumber} · ${escapeHtml(blockTime)} · generated ${escapeHtml(generated)}</div>
+  ${report.status === "partial" ? '<p class="warn">Some assets could not be valued and are excluded from the totals.</p>' : ""}
+
+  <table>
+    <tr><th>VUSD circulating supply</th><td class="num">${report.circulatingSupply.toLocaleString("en-US", { maximumFractionDigits: 2 })} VUSD</td></tr>
+    <tr><th>Total reserves</th><td class="num">${usd(report.totalReserves)}</td></tr>
+    <tr><th>T1 reserves (whitelisted stablecoins)</th><td class="num">${usd(report.t1Reserves)}</td></tr>
+    <tr><th>T2 reserves (other assets)</th><td class="num">${usd(report.t2Reserves)}</td></tr>
+    <tr><th>Collateralization ratio</th><td class="num">${(report.collateralizationRatio * 100).toFixed(2)}%</td></tr>
+    <tr><th>Excess reserves</th><td class="num">${usd(report.excessReserves)}</td></tr>
+    <tr><th>Self-backing VUSD in LP positions (not counted)</th><td class="num">${usd(report.selfBacking)}</td></tr>
+    <tr><th>Collateralization ratio including self-backing</th><td class="num">${(report.ratioWithSelfBacking * 100).toFixed(2)}%</td></tr>
+  </table>
+
+  <table>
+    <thead>
+      <tr><th>Tranche</th><th>Asset</th><th class="num">Balance</th><th class="num">Price</th><th>Price source</th><th class="num">Value</th></tr>
+    </thead>
+    <tbody>${assetRows}
+    </tbody>
+  </table>
+
+  <div class="muted">Report SHA-256: <span class="mono">${report.sha256}</span></div>
+
+  <div class="signoff">
+    <div>Prepared by, date</div>
+    <div>Reviewed and signed off by, date</div>
+  </div>
+</body>
+</html>
+`;
+}
@@ -5,15 +5,62 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
+import { createCache, sendCached } from "./cache";
+import { getVusdPriceHistory, MAX_HISTORY_DAYS } from "./priceHistory";
+import { startTreasuryIndexer } from "./treasury";
+import { startAssetDiscovery } from "./assetDiscovery";
+import { startCTokenDepositTracker } from "./cTokenDeposits";
+import { getTreasuryAlerts } from "./alerts";
+import { createPriceSources, marketData } from "./marketData";
+import { readPoolMarkets } from "./poolMarkets";
+import { getPegStatus, startPegMonitor } from "./pegMonitor";
+import { getMainnetProvider } from "./provider";
+import {
+  REPORT_FORMATS,
+  type ReportFormat,
+  buildReservesReport,
+  renderReportCsv,
+  renderReportHtml,
+} from "./report";
 
-// Simple in-memory cache for CoinGecko responses to avoid hitting rate limits
-type CacheEntry = {
-  data: any;
-  timestamp: number;
-};
-
-const apiCache: Record<string, CacheEntry> = {};
 const CACHE_TTL = 5 * 60 * 1000; // 5 minutes in milliseconds
+const HISTORY_CACHE_TTL = 30 * 60 * 1000; // 30 minutes in milliseconds; history changes slowly
+const STALE_IF_ERROR = 24 * 60 * 60 * 1000; // 1 day in milliseconds
+
+// Upstream responses (market data providers and RPC reads), cached to avoid
+// hitting rate limits and kept to serve while the upstream is failing
+const marketCache = createCache({
+  ttl: CACHE_TTL,
+  staleWhileRevalidate: CACHE_TTL,
+  staleIfError: STALE_IF_ERROR,
+  maxEntries: 500 // Mostly token price lookups, keyed by address set
+});
+const historyCache = createCache({
+  ttl: HISTORY_CACHE_TTL,
+  staleWhileRevalidate: HISTORY_CACHE_TTL,
+  staleIfError: STALE_IF_ERROR,
+  maxEntries: 50
+});
+
+const MAX_PRICE_ADDRESSES = 20; // Token addresses accepted per price request
+const MAX_HISTORY_POINTS = 1000; // Largest `points` accepted by /api/treasury/history
+
+/**
+ * Reads the optional `from` and `to` query parameters (unix seconds) of a
+ * history request. Missing bounds default to everything up to now.
+ *
+ * @returns The range, or null if a bound is invalid or from > to
+ */
+function parseTimeRange(req: Request): { from: number; to: number } | null {
+  const now = Math.floor(Date.now() / 1000);
+  const from = req.query.from === undefined ? 0 : Number(req.query.from);
+  const to = req.query.to === undefined ? now : Number(req.query.to);
+  
+  if (!Number.isInteger(from) || !Number.isInteger(to) || from < 0 || from > to) {
+    return null;
+  }
+  return { from, to };
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // API routes for the backend
@@ -28,58 +75,264 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
   
-  // API endpoint to fetch VUSD price data from CoinGecko
+  // API endpoint to fetch VUSD price data from the market data providers
   app.get('/api/market/vusd', async (req: Request, res: Response) => {
     try {
-      const cacheKey = 'vusd-price-data';
-      const now = Date.now();
+      sendCached(res, await marketCache.get('vusd-price-data', () => marketData.getVusdMarket()));
+    } catch (error) {
+      console.error('Error fetching VUSD price data:', error);
+      res.status(500).json({ 
+        error: 'Failed to fetch price data',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // VUSD price and volume history from the market data providers, stored so it
+  // survives provider outages, with gaps filled
+  app.get('/api/market/vusd/history', async (req: Request, res: Response) => {
+    try {
+      const days = req.query.days === undefined ? 7 : Number(req.query.days);
       
-      // Check cache first
-      if (apiCache[cacheKey] && now - apiCache[cacheKey].timestamp < CACHE_TTL) {
-        return res.json(apiCache[cacheKey].data);
+      if (!Number.isInteger(days) || days < 1 || days > MAX_HISTORY_DAYS) {
+        return res.status(400).json({
+          error: 'Invalid days',
+          message: `days must be an integer from 1 to ${MAX_HISTORY_DAYS}`
+        });
       }
       
-      // Fetch fresh data from CoinGecko
-      const coinId = 'vesper-vdollar';
-      const response = await fetch(
-        `https://api.coingecko.com/api/v3/coins/${coinId}?localization=false&tickers=false&community_data=false&developer_data=false`
-      );
+      sendCached(res, await historyCache.get(`vusd-history:${days}`, () => getVusdPriceHistory(days)));
+    } catch (error) {
+      console.error('Error fetching VUSD price history:', error);
+      res.status(500).json({
+        error: 'Failed to fetch price history',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // API endpoint to fetch USD prices of Ethereum tokens from the market data providers,
+  // used by the client's pricing module as a secondary source next to Chainlink
+  app.get('/api/market/prices', async (req: Request, res: Response) => {
+    try {
+      const addresses = String(req.query.addresses || '')
+        .split(',')
+        .map(address => address.trim().toLowerCase())
+        .filter(address => /^0x[0-9a-f]{40}$/.test(address));
       
-      if (!response.ok) {
-        throw new Error(`CoinGecko API error: ${response.status}`);
+      if (addresses.length === 0 || addresses.length > MAX_PRICE_ADDRESSES) {
+        return res.status(400).json({
+          error: 'Invalid addresses',
+          message: `Provide 1 to ${MAX_PRICE_ADDRESSES} comma-separated token addresses`
+        });
       }
       
-      const data = await response.json();
-      
-      // Extract and format the needed fields
-      const priceData = {
-        id: data.id,
-        symbol: data.symbol,
-        name: data.name,
-        image: data.image?.small,
-        current_price: data.market_data?.current_price?.usd,
-        market_cap: data.market_data?.market_cap?.usd,
-        price_change_24h: data.market_data?.price_change_percentage_24h,
-        volume_24h: data.market_data?.total_volume?.usd,
-        last_updated: data.last_updated,
-        contract_address: data.platforms?.ethereum
-      };
-      
-      // Cache the response
-      apiCache[cacheKey] = {
-        data: priceData,
-        timestamp: now
-      };
-      
-      res.json(priceData);
+      const cacheKey = `token-prices:${[...addresses].sort().join(',')}`;
+      sendCached(res, await marketCache.get(cacheKey, () => marketData.getTokenPrices(addresses)));
     } catch (error) {
-      console.error('Error fetching VUSD price data:', error);
-      res.status(500).json({ 
-        error: 'Failed to fetch price data',
+      console.error('Error fetching token prices:', error);
+      res.status(500).json({
+        error: 'Failed to fetch token prices',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Health of each market data provider, in failover order
+  app.get('/api/market/providers', (req, res) => {
+    res.json(marketData.getHealth());
+  });
+
+  // On-chain spot price, liquidity and price impact of the VUSD pools on Curve and SushiSwap
+  app.get('/api/market/pools', async (req: Request, res: Response) => {
+    try {
+      const provider = getMainnetProvider();
+      sendCached(res, await marketCache.get('vusd-pools', () => readPoolMarkets(provider, createPriceSources(provider))));
+    } catch (error) {
+      console.error('Error reading VUSD pool markets:', error);
+      res.status(500).json({
+        error: 'Failed to read pool markets',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Latest comparison of the VUSD pools with the mint/redeem band, with arbitrage hints
+  app.get('/api/market/peg', (req, res) => {
+    const status = getPegStatus();
+    
+    if (!status) {
+      return res.status(503).json({
+        error: 'No peg data yet',
+        message: 'The peg monitor has not completed its first check'
+      });
+    }
+    
+    res.json(status);
+  });
+
+  // Periods pools spent outside the mint/redeem band, with the same range parameters as the treasury history
+  app.get('/api/market/peg/events', async (req: Request, res: Response) => {
+    try {
+      const range = parseTimeRange(req);
+      
+      if (!range) {
+        return res.status(400).json({
+          error: 'Invalid range',
+          message: 'from and to must be unix timestamps in seconds with from <= to'
+        });
+      }
+      
+      res.json(await storage.getPegEvents(range.from, range.to));
+    } catch (error) {
+      console.error('Error reading peg events:', error);
+      res.status(500).json({
+        error: 'Failed to read peg events',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Latest treasury snapshot taken by the indexer
+  app.get('/api/treasury/latest', async (req: Request, res: Response) => {
+    try {
+      const snapshot = await storage.getLatestTreasurySnapshot();
+      
+      if (!snapshot) {
+        return res.status(503).json({
+          error: 'No treasury snapshot yet',
+          message: 'The treasury indexer has not completed its first run'
+        });
+      }
+      
+      res.json(snapshot);
+    } catch (error) {
+      console.error('Error reading treasury snapshot:', error);
+      res.status(500).json({
+        error: 'Failed to read treasury snapshot',
         message: error instanceof Error ? error.message : 'Unknown error'
       });
     }
   });
+  
+  // Treasury snapshots between two block timestamps (unix seconds), oldest first.
+  // Both bounds are optional and default to everything up to now. With `points`,
+  // the snapshots are thinned out evenly to at most that many, keeping the latest.
+  app.get('/api/treasury/history', async (req: Request, res: Response) => {
+    try {
+      const range = parseTimeRange(req);
+      const points = req.query.points === undefined ? null : Number(req.query.points);
+      
+      if (!range) {
+        return res.status(400).json({
+          error: 'Invalid range',
+          message: 'from and to must be unix timestamps in seconds with from <= to'
+        });
+      }
+      if (points !== null && (!Number.isInteger(points) || points < 2 || points > MAX_HISTORY_POINTS)) {
+        return res.status(400).json({
+          error: 'Invalid points',
+          message: `points must be an integer between 2 and ${MAX_HISTORY_POINTS}`
+        });
+      }
+      
+      const snapshots = await storage.getTreasurySnapshots(range.from, range.to);
+      if (points === null || snapshots.length <= points) {
+        return res.json(snapshots);
+      }
+      
+      const step = (snapshots.length - 1) / (points - 1);
+      res.json(Array.from({ length: points }, (_, i) => snapshots[Math.round(i * step)]));
+    } catch (error) {
+      console.error('Error reading treasury history:', error);
+      res.status(500).json({
+        error: 'Failed to read treasury history',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Whitelist and fee changes noticed by the indexer, with the same range parameters
+  app.get('/api/treasury/events', async (req: Request, res: Response) => {
+    try {
+      const range = parseTimeRange(req);
+      
+      if (!range) {
+        return res.status(400).json({
+          error: 'Invalid range',
+          message: 'from and to must be unix timestamps in seconds with from <= to'
+        });
+      }
+      
+      res.json(await storage.getGovernanceEvents(range.from, range.to));
+    } catch (error) {
+      console.error('Error reading governance events:', error);
+      res.status(500).json({
+        error: 'Failed to read governance events',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Treasury health alerts that are currently active, raised by the monitor after each snapshot
+  app.get('/api/treasury/alerts', (req, res) => {
+    res.json(getTreasuryAlerts());
+  });
+
+  // Proof-of-reserves report for the latest snapshot. JSON and CSV are sent as
+  // downloads; HTML is shown inline so it can be printed or saved as PDF.
+  app.get('/api/treasury/report', async (req: Request, res: Response) => {
+    try {
+      const format = (req.query.format ?? 'json') as ReportFormat;
+      
+      if (!REPORT_FORMATS.includes(format)) {
+        return res.status(400).json({
+          error: 'Invalid format',
+          message: `format must be one of ${REPORT_FORMATS.join(', ')}`
+        });
+      }
+      
+      const snapshot = await storage.getLatestTreasurySnapshot();
+      if (!snapshot) {
+        return res.status(503).json({
+          error: 'No treasury snapshot yet',
+          message: 'The treasury indexer has not completed its first run'
+        });
+      }
+      
+      const report = buildReservesReport(snapshot);
+      const filename = `vusd-reserves-${report.blockNumber}.${format}`;
+      
+      if (format === 'html') {
+        return res.type('html').send(renderReportHtml(report));
+      }
+      
+      res.attachment(filename);
+      if (format === 'csv') {
+        res.type('text/csv').send(renderReportCsv(report));
+      } else {
+        res.type('application/json').send(JSON.stringify(report, null, 2));
+      }
+    } catch (error) {
+      console.error('Error building reserves report:', error);
+      res.status(500).json({
+        error: 'Failed to build reserves report',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Value the treasury on a schedule so the endpoints above have data
+  startTreasuryIndexer();
+
+  // Compare the VUSD pools with the mint/redeem band on a schedule
+  startPegMonitor();
+
+  // Find tokens sent to the treasury on a schedule, for the indexer to value
+  startAssetDiscovery();
+
+  // Track deposits into the treasury's Compound positions, for their accrued interest
+  startCTokenDepositTracker();
 
   // Set up HTTP server
   const httpServer = createServer(app);
@@ -2,7 +2,32 @@
  * Copyright 2025 Hemi Labs. All rights reserved.
  */
 
-import { users, type User, type InsertUser } from "@shared/schema";
+import { and, asc, desc, eq, gte, isNull, lte, or, sql } from "drizzle-orm";
+import {
+  users,
+  treasurySnapshots,
+  governanceEvents,
+  treasuryTokens,
+  scanCursors,
+  cTokenDeposits,
+  pegEvents,
+  vusdPrices,
+  type User,
+  type InsertUser,
+  type TreasurySnapshot,
+  type InsertTreasurySnapshot,
+  type GovernanceEvent,
+  type InsertGovernanceEvent,
+  type TreasuryToken,
+  type InsertTreasuryToken,
+  type CTokenDeposit,
+  type InsertCTokenDeposit,
+  type PegEvent,
+  type InsertPegEvent,
+  type VusdPrice,
+  type InsertVusdPrice,
+} from "@shared/schema";
+import { createDatabase, type Database } from "./db";
 
 // modify the interface with any CRUD methods
 // you might need
@@ -11,15 +36,68 @@ export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  addTreasurySnapshot(snapshot: InsertTreasurySnapshot): Promise<TreasurySnapshot>;
+  getLatestTreasurySnapshot(): Promise<TreasurySnapshot | undefined>;
+  // Snapshots with a block timestamp between from and to (seconds, inclusive), oldest first
+  getTreasurySnapshots(from: number, to: number): Promise<TreasurySnapshot[]>;
+  addGovernanceEvent(event: InsertGovernanceEvent): Promise<GovernanceEvent>;
+  // Governance events between from and to (seconds, inclusive), oldest first
+  getGovernanceEvents(from: number, to: number): Promise<GovernanceEvent[]>;
+  getTreasuryTokens(): Promise<TreasuryToken[]>;
+  // Adds a discovered token; tokens already stored are left unchanged
+  addTreasuryToken(token: InsertTreasuryToken): Promise<void>;
+  // Last block a log scanner has scanned through, or null before its first scan
+  getScanCursor(name: string): Promise<number | null>;
+  setScanCursor(name: string, block: number): Promise<void>;
+  getCTokenDeposit(cToken: string): Promise<CTokenDeposit | undefined>;
+  // Stores a cToken's net deposits, replacing the stored ones
+  setCTokenDeposit(deposit: InsertCTokenDeposit): Promise<void>;
+  addPegEvent(event: InsertPegEvent): Promise<PegEvent>;
+  // Sets the end or the peak price of a recorded peg event
+  updatePegEvent(id: number, changes: Partial<Pick<PegEvent, "endedAt" | "peakPrice">>): Promise<void>;
+  // Peg events that overlap from..to (seconds, inclusive), oldest first; open events count as ongoing
+  getPegEvents(from: number, to: number): Promise<PegEvent[]>;
+  // Peg events that have not ended
+  getOpenPegEvents(): Promise<PegEvent[]>;
+  // Stores VUSD prices, replacing any stored at the same timestamps
+  addVusdPrices(prices: InsertVusdPrice[]): Promise<void>;
+  // VUSD prices between from and to (seconds, inclusive), oldest first
+  getVusdPrices(from: number, to: number): Promise<VusdPrice[]>;
 }
 
+// Snapshots kept in memory; about 35 days at one snapshot every 10 minutes
+const MAX_MEM_SNAPSHOTS = 5000;
+
+// VUSD prices kept in memory; a year of hourly prices plus a day of 5-minute ones
+const MAX_MEM_PRICES = 9000;
+
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private snapshots: TreasurySnapshot[];
+  private events: GovernanceEvent[];
+  private tokens: Map<string, TreasuryToken>;
+  private scanCursors: Map<string, number>;
+  private cTokenDeposits: Map<string, CTokenDeposit>;
+  private pegEvents: PegEvent[];
+  private prices: Map<number, VusdPrice>;
   currentId: number;
+  currentSnapshotId: number;
+  currentEventId: number;
+  currentPegEventId: number;
 
   constructor() {
     this.users = new Map();
+    this.snapshots = [];
+    this.events = [];
+    this.tokens = new Map();
+    this.scanCursors = new Map();
+    this.cTokenDeposits = new Map();
+    this.pegEvents = [];
+    this.prices = new Map();
     this.currentId = 1;
+    this.currentSnapshotId = 1;
+    this.currentEventId = 1;
+    this.currentPegEventId = 1;
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -38,6 +116,243 @@ export class MemStorage implements IStorage {
     this.users.set(id, user);
     return user;
   }
+
+  async addTreasurySnapshot(insertSnapshot: InsertTreasurySnapshot): Promise<TreasurySnapshot> {
+    const snapshot: TreasurySnapshot = {
+      ...insertSnapshot,
+      selfBackingValue: insertSnapshot.selfBackingValue ?? 0,
+      id: this.currentSnapshotId++
+    };
+    this.snapshots.push(snapshot);
+    this.snapshots.sort((a, b) => a.timestamp - b.timestamp);
+    if (this.snapshots.length > MAX_MEM_SNAPSHOTS) {
+      this.snapshots.splice(0, this.snapshots.length - MAX_MEM_SNAPSHOTS);
+    }
+    return snapshot;
+  }
+
+  async getLatestTreasurySnapshot(): Promise<TreasurySnapshot | undefined> {
+    return this.snapshots[this.snapshots.length - 1];
+  }
+
+  async getTreasurySnapshots(from: number, to: number): Promise<TreasurySnapshot[]> {
+    return this.snapshots.filter(
+      (snapshot) => snapshot.timestamp >= from && snapshot.timestamp <= to,
+    );
+  }
+
+  async addGovernanceEvent(insertEvent: InsertGovernanceEvent): Promise<GovernanceEvent> {
+    const event: GovernanceEvent = { ...insertEvent, id: this.currentEventId++ };
+    this.events.push(event);
+    this.events.sort((a, b) => a.timestamp - b.timestamp);
+    return event;
+  }
+
+  async getGovernanceEvents(from: number, to: number): Promise<GovernanceEvent[]> {
+    return this.events.filter(
+      (event) => event.timestamp >= from && event.timestamp <= to,
+    );
+  }
+
+  async getTreasuryTokens(): Promise<TreasuryToken[]> {
+    return Array.from(this.tokens.values());
+  }
+
+  async addTreasuryToken(insertToken: InsertTreasuryToken): Promise<void> {
+    if (!this.tokens.has(insertToken.address)) {
+      this.tokens.set(insertToken.address, { ...insertToken, pool: insertToken.pool ?? null });
+    }
+  }
+
+  async getScanCursor(name: string): Promise<number | null> {
+    return this.scanCursors.get(name) ?? null;
+  }
+
+  async setScanCursor(name: string, block: number): Promise<void> {
+    this.scanCursors.set(name, block);
+  }
+
+  async getCTokenDeposit(cToken: string): Promise<CTokenDeposit | undefined> {
+    return this.cTokenDeposits.get(cToken);
+  }
+
+  async setCTokenDeposit(deposit: InsertCTokenDeposit): Promise<void> {
+    this.cTokenDeposits.set(deposit.cToken, deposit);
+  }
+
+  async addPegEvent(insertEvent: InsertPegEvent): Promise<PegEvent> {
+    const event: PegEvent = { ...insertEvent, endedAt: insertEvent.endedAt ?? null, id: this.currentPegEventId++ };
+    this.pegEvents.push(event);
+    this.pegEvents.sort((a, b) => a.startedAt - b.startedAt);
+    return event;
+  }
+
+  async updatePegEvent(id: number, changes: Partial<Pick<PegEvent, "endedAt" | "peakPrice">>): Promise<void> {
+    const event = this.pegEvents.find((event) => event.id === id);
+    if (event) {
+      Object.assign(event, changes);
+    }
+  }
+
+  async getPegEvents(from: number, to: number): Promise<PegEvent[]> {
+    return this.pegEvents.filter(
+      (event) => event.startedAt <= to && (event.endedAt === null || event.endedAt >= from),
+    );
+  }
+
+  async getOpenPegEvents(): Promise<PegEvent[]> {
+    return this.pegEvents.filter((event) => event.endedAt === null);
+  }
+
+  async addVusdPrices(prices: InsertVusdPrice[]): Promise<void> {
+    for (const price of prices) {
+      this.prices.set(price.timestamp, price);
+    }
+    if (this.prices.size > MAX_MEM_PRICES) {
+      const oldest = Array.from(this.prices.keys()).sort((a, b) => a - b);
+      for (const timestamp of oldest.slice(0, this.prices.size - MAX_MEM_PRICES)) {
+        this.prices.delete(timestamp);
+      }
+    }
+  }
+
+  async getVusdPrices(from: number, to: number): Promise<VusdPrice[]> {
+    return Array.from(this.prices.values())
+      .filter((price) => price.timestamp >= from && price.timestamp <= to)
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async addTreasurySnapshot(insertSnapshot: InsertTreasurySnapshot): Promise<TreasurySnapshot> {
+    const [snapshot] = await this.db.insert(treasurySnapshots).values(insertSnapshot).returning();
+    return snapshot;
+  }
+
+  async getLatestTreasurySnapshot(): Promise<TreasurySnapshot | undefined> {
+    const [snapshot] = await this.db
+      .select()
+      .from(treasurySnapshots)
+      .orderBy(desc(treasurySnapshots.timestamp))
+      .limit(1);
+    return snapshot;
+  }
+
+  async getTreasurySnapshots(from: number, to: number): Promise<TreasurySnapshot[]> {
+    return this.db
+      .select()
+      .from(treasurySnapshots)
+      .where(and(gte(treasurySnapshots.timestamp, from), lte(treasurySnapshots.timestamp, to)))
+      .orderBy(asc(treasurySnapshots.timestamp));
+  }
+
+  async addGovernanceEvent(insertEvent: InsertGovernanceEvent): Promise<GovernanceEvent> {
+    const [event] = await this.db.insert(governanceEvents).values(insertEvent).returning();
+    return event;
+  }
+
+  async getGovernanceEvents(from: number, to: number): Promise<GovernanceEvent[]> {
+    return this.db
+      .select()
+      .from(governanceEvents)
+      .where(and(gte(governanceEvents.timestamp, from), lte(governanceEvents.timestamp, to)))
+      .orderBy(asc(governanceEvents.timestamp));
+  }
+
+  async getTreasuryTokens(): Promise<TreasuryToken[]> {
+    return this.db.select().from(treasuryTokens);
+  }
+
+  async addTreasuryToken(insertToken: InsertTreasuryToken): Promise<void> {
+    await this.db.insert(treasuryTokens).values(insertToken).onConflictDoNothing();
+  }
+
+  async getScanCursor(name: string): Promise<number | null> {
+    const [cursor] = await this.db.select().from(scanCursors).where(eq(scanCursors.name, name));
+    return cursor?.block ?? null;
+  }
+
+  async setScanCursor(name: string, block: number): Promise<void> {
+    await this.db
+      .insert(scanCursors)
+      .values({ name, block })
+      .onConflictDoUpdate({ target: scanCursors.name, set: { block } });
+  }
+
+  async getCTokenDeposit(cToken: string): Promise<CTokenDeposit | undefined> {
+    const [deposit] = await this.db.select().from(cTokenDeposits).where(eq(cTokenDeposits.cToken, cToken));
+    return deposit;
+  }
+
+  async setCTokenDeposit(deposit: InsertCTokenDeposit): Promise<void> {
+    await this.db
+      .insert(cTokenDeposits)
+      .values(deposit)
+      .onConflictDoUpdate({
+        target: cTokenDeposits.cToken,
+        set: { netDeposited: deposit.netDeposited, block: deposit.block },
+      });
+  }
+
+  async addPegEvent(insertEvent: InsertPegEvent): Promise<PegEvent> {
+    const [event] = await this.db.insert(pegEvents).values(insertEvent).returning();
+    return event;
+  }
+
+  async updatePegEvent(id: number, changes: Partial<Pick<PegEvent, "endedAt" | "peakPrice">>): Promise<void> {
+    await this.db.update(pegEvents).set(changes).where(eq(pegEvents.id, id));
+  }
+
+  async getPegEvents(from: number, to: number): Promise<PegEvent[]> {
+    return this.db
+      .select()
+      .from(pegEvents)
+      .where(and(lte(pegEvents.startedAt, to), or(isNull(pegEvents.endedAt), gte(pegEvents.endedAt, from))))
+      .orderBy(asc(pegEvents.startedAt));
+  }
+
+  async getOpenPegEvents(): Promise<PegEvent[]> {
+    return this.db.select().from(pegEvents).where(isNull(pegEvents.endedAt));
+  }
+
+  async addVusdPrices(prices: InsertVusdPrice[]): Promise<void> {
+    if (prices.length === 0) return;
+    await this.db
+      .insert(vusdPrices)
+      .values(prices)
+      .onConflictDoUpdate({
+        target: vusdPrices.timestamp,
+        set: { price: sql`excluded.price`, volume: sql`excluded.volume` },
+      });
+  }
+
+  async getVusdPrices(from: number, to: number): Promise<VusdPrice[]> {
+    return this.db
+      .select()
+      .from(vusdPrices)
+      .where(and(gte(vusdPrices.timestamp, from), lte(vusdPrices.timestamp, to)))
+      .orderBy(asc(vusdPrices.timestamp));
+  }
 }
 
-export const storage = new MemStorage();
+// Postgres when a database is provisioned, otherwise in memory
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DatabaseStorage(createDatabase(process.env.DATABASE_URL))
+  : new MemStorage();
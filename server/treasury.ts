@@ -0,0 +1,603 @@
+/**
+ * Copyright 2025 Hemi Labs. All rights reserved.
+ */
+
+/**
+ * treasury.ts - Treasury indexer
+ *
+ * This module values the VUSD treasury on the server and stores the result as
+ * snapshots, so browsers read one API response instead of making dozens of RPC
+ * calls, and the history of the collateralization ratio is kept.
+ *
+ * It implements specialized asset valuation logic for different asset types:
+ * - T1 Assets: Whitelisted stablecoins (USDC, USDT, DAI) at 1:1 value with USD,
+ *   with the Compound cToken position each one is deployed in
+ * - T2 Assets: Non-whitelisted assets like stETH and LP tokens with custom valuation logic.
+ *   Besides the known assets, every token discovered in transfers to the Treasury
+ *   (see assetDiscovery.ts) is valued, as are Curve LP tokens and Uniswap V3
+ *   positions (see lpValuation.ts); tokens without a price are listed as unpriced
+ *   and left out of the totals, and tokens no longer held are skipped
+ *
+ * When LP positions include VUSD, only the non-VUSD side is counted to avoid
+ * double-counting; the VUSD side is recorded as self-backing, so the ratio can
+ * also be shown with it included.
+ * T2 prices come from Chainlink first with CoinGecko as a cross-check, and every
+ * T2 asset records which source priced it.
+ *
+ * Each snapshot also records the whitelist and the mint and redeem fees, and the
+ * indexer stores a governance event whenever they differ from the previous snapshot.
+ *
+ * All reads of a snapshot are pinned to one block. An asset that cannot be
+ * valued is stored with an error and a value of 0, and marks the snapshot
+ * 'partial'; a failure to read the supply or the whitelist skips the snapshot.
+ */
+
+import { ethers } from 'ethers';
+import { CTOKEN_ABI, MINTER_ABI, REDEEMER_ABI, TREASURY_ABI, VUSD_ABI } from '@/abis';
+import {
+  MINTER_ADDRESS,
+  REDEEMER_ADDRESS,
+  TREASURY_ADDRESS,
+  VUSD_ADDRESS,
+  WETH_ADDRESS,
+} from '@/constants/contracts';
+import { SUPPORTED_TOKENS, Token } from '@/constants/tokens';
+import { AssetType, T2Asset } from '@/constants/treasuryAssets';
+import { NoPriceError, PriceResult, getPrice } from '@/lib/pricing';
+import type {
+  CTokenPosition,
+  InsertGovernanceEvent,
+  InsertTreasurySnapshot,
+  TreasuryAsset,
+  TreasurySnapshot,
+} from '@shared/schema';
+import { evaluateTreasuryAlerts } from './alerts';
+import { listT2Assets } from './assetDiscovery';
+import { readNetDeposited } from './cTokenDeposits';
+import {
+  listUniswapV3Positions,
+  valueCurveLp,
+  valueUniswapV2Lp,
+  valueUniswapV3Position
+} from './lpValuation';
+import { createPriceSources } from './marketData';
+import { getMainnetProvider } from './provider';
+import { storage } from './storage';
+
+// How often a snapshot is taken
+const SNAPSHOT_INTERVAL = 10 * 60 * 1000; // 10 minutes in milliseconds
+
+// Result of valuing a T2 asset, with the price that was used
+interface Valuation {
+  value: number;
+  balance: number;
+  selfBacking: number; // VUSD held through an LP position, at face value
+  pricing: PriceResult;
+}
+
+/**
+ * Short description of a failed asset read for display next to the asset.
+ */
+const describeAssetError = (error: unknown): string => {
+  if (ethers.isError(error, 'CALL_EXCEPTION')) return 'Contract call failed';
+  if (error instanceof Error && error.message) return error.message;
+  return 'Could not be valued';
+};
+
+/**
+ * Reads the Treasury's position in a Compound cToken.
+ * 
+ * @remarks
+ * The current exchange rate is read with a static call to
+ * exchangeRateCurrent(), so the underlying amount includes interest not yet
+ * accrued on-chain. Accrued interest is the underlying amount minus the net
+ * deposits tracked in cTokenDeposits.ts, and is null until those are scanned.
+ * Failures are recorded on the position so they do not affect the asset's value.
+ */
+const readCTokenPosition = async (
+  provider: ethers.Provider,
+  cTokenAddress: string,
+  token: Token,
+  treasuryAddress: string,
+  overrides: { blockTag: number }
+): Promise<CTokenPosition> => {
+  const cToken = new ethers.Contract(cTokenAddress, CTOKEN_ABI, provider);
+  
+  try {
+    const [symbol, cTokenDecimals, balance, currentRate, netDeposited]: [string, bigint, bigint, bigint, bigint | null] =
+      await Promise.all([
+        cToken.symbol(),
+        cToken.decimals(),
+        cToken.balanceOf(treasuryAddress, overrides),
+        cToken.exchangeRateCurrent.staticCall(overrides),
+        readNetDeposited(provider, cTokenAddress, token.address, overrides.blockTag),
+      ]);
+    
+    // Compound scales exchange rates by 1e18 and the decimal difference to the underlying
+    const one = ethers.parseUnits('1', 18);
+    const currentUnderlying = balance * currentRate / one;
+    
+    return {
+      address: cTokenAddress,
+      symbol,
+      underlying: token.address,
+      balance: parseFloat(ethers.formatUnits(balance, cTokenDecimals)),
+      exchangeRate: parseFloat(ethers.formatUnits(currentRate, 18 + token.decimals - Number(cTokenDecimals))),
+      underlyingAmount: parseFloat(ethers.formatUnits(currentUnderlying, token.decimals)),
+      accruedInterest: netDeposited === null
+        ? null
+        : parseFloat(ethers.formatUnits(currentUnderlying - netDeposited, token.decimals)),
+      error: null
+    };
+  } catch (error) {
+    console.error(`Error reading cToken position ${cTokenAddress}:`, error);
+    return {
+      address: cTokenAddress,
+      symbol: '',
+      underlying: token.address,
+      balance: 0,
+      exchangeRate: 0,
+      underlyingAmount: 0,
+      accruedInterest: null,
+      error: describeAssetError(error)
+    };
+  }
+};
+
+/**
+ * Calculates the USD value of staked ETH (stETH) assets in the treasury.
+ * 
+ * @async
+ * @param tokenContract - The stETH token contract instance
+ * @param tokenBalance - The raw balance of stETH tokens
+ * @param ethPrice - The current ETH price and the source it came from
+ * @param decimals - The number of decimals for the token
+ * @returns {Promise<Valuation>} The USD value, human-readable balance and ETH price used
+ * 
+ * @remarks
+ * This specialized function handles Lido stETH valuation by:
+ * 1. Converting raw token balance to a human-readable number
+ * 2. Using Lido's getPooledEthByShares method to determine the actual ETH equivalent
+ * 3. Multiplying by the current ETH price to get USD value
+ * 
+ * The stETH to ETH ratio changes over time as staking rewards accrue.
+ */
+const valueStakedEthAsset = async (
+  tokenContract: ethers.Contract,
+  tokenBalance: bigint,
+  ethPrice: PriceResult,
+  decimals: number
+): Promise<Valuation> => {
+  let balance = parseFloat(ethers.formatUnits(tokenBalance, decimals));
+  let ethEquivalent = balance; // Default 1:1
+  
+  // If Lido's specific conversion method is available, use it
+  if (tokenContract.getPooledEthByShares) {
+    try {
+      const result = await tokenContract.getPooledEthByShares(tokenBalance);
+      ethEquivalent = parseFloat(ethers.formatUnits(result, 18));
+    } catch (error) {
+      console.error('Error getting stETH exchange rate:', error);
+    }
+  }
+  
+  // Calculate USD value by multiplying ETH equivalent by ETH price
+  const value = ethEquivalent * ethPrice.usd;
+  
+  return { value, balance, selfBacking: 0, pricing: ethPrice };
+};
+
+/**
+ * Calculates the USD value of generic ERC20 tokens in the treasury.
+ * 
+ * @async
+ * @param tokenAddress - The token address
+ * @param tokenBalance - The raw balance of tokens
+ * @param priceOf - Prices a token by address (see lib/pricing)
+ * @param decimals - The number of decimals for the token
+ * @returns {Promise<Valuation>} The USD value, human-readable balance and the price used
+ * 
+ * @throws {Error} If no price source knows the token
+ */
+const valueGenericErc20Asset = async (
+  tokenAddress: string,
+  tokenBalance: bigint,
+  priceOf: (tokenAddress: string) => Promise<PriceResult>,
+  decimals: number
+): Promise<Valuation> => {
+  const balance = parseFloat(ethers.formatUnits(tokenBalance, decimals));
+  const pricing = await priceOf(tokenAddress);
+  
+  return { value: balance * pricing.usd, balance, selfBacking: 0, pricing };
+};
+
+/**
+ * Values every treasury asset at the latest block.
+ * 
+ * @async
+ * @param {ethers.Provider} provider - Mainnet provider
+ * @returns {Promise<InsertTreasurySnapshot>} The snapshot to store
+ * 
+ * @remarks
+ * This comprehensive function performs the following steps:
+ * 1. Pins the latest block so supply and balances are read at the same height
+ * 2. Fetches VUSD circulating supply
+ * 3. Retrieves and values all T1 assets (whitelisted stablecoins) and their cToken positions
+ * 4. Retrieves and values all T2 assets (non-whitelisted assets)
+ * 5. Calculates collateralization ratio and excess value
+ * 
+ * Each asset type uses specialized valuation logic appropriate to its nature:
+ * - Stablecoins: 1:1 with USD
+ * - stETH: Current ETH equivalent * ETH price
+ * - LP tokens: Owned share of each side at that token's decimals and price,
+ *   with the VUSD side recorded as self-backing (see lpValuation.ts)
+ * - Other tokens: Balance * oracle price
+ * 
+ * @throws {Error} If the block, the VUSD supply or the whitelist cannot be read
+ */
+export async function computeTreasurySnapshot(provider: ethers.Provider): Promise<InsertTreasurySnapshot> {
+  const treasury = new ethers.Contract(TREASURY_ADDRESS, TREASURY_ABI, provider);
+  const vusd = new ethers.Contract(VUSD_ADDRESS, VUSD_ABI, provider);
+  
+  // Read everything at one block so the ratio is not skewed by changes mid-fetch
+  const block = await provider.getBlock('latest');
+  if (!block) {
+    throw new Error("Latest block not available");
+  }
+  const overrides = { blockTag: block.number };
+  
+  const t1Assets: TreasuryAsset[] = [];
+  const t2Assets: TreasuryAsset[] = [];
+  
+  let t1Value = 0;
+  let t2Value = 0;
+  let selfBackingValue = 0;
+  
+  // Get VUSD circulating supply
+  const circulatingSupply = parseFloat(
+    ethers.formatUnits(await vusd.totalSupply(overrides), 18)
+  );
+  
+  const treasuryAddress = await treasury.getAddress();
+  
+  // Get T1 Treasury assets (whitelisted stablecoins)
+  const whitelistedTokens: string[] = await treasury.whitelistedTokens(overrides);
+  
+  // Governance settings, recorded so changes can be marked on the history
+  const minter = new ethers.Contract(MINTER_ADDRESS, MINTER_ABI, provider);
+  const redeemer = new ethers.Contract(REDEEMER_ADDRESS, REDEEMER_ABI, provider);
+  const [mintingFee, redeemFee]: bigint[] = await Promise.all([
+    minter.mintingFee(overrides),
+    redeemer.redeemFee(overrides),
+  ]);
+  
+  for (const tokenAddress of whitelistedTokens) {
+    const token = SUPPORTED_TOKENS.find(t => t.address.toLowerCase() === tokenAddress.toLowerCase());
+    
+    if (token) {
+      try {
+        const withdrawable = await treasury.withdrawable(tokenAddress, overrides);
+        const balance = parseFloat(ethers.formatUnits(withdrawable, token.decimals));
+        
+        // For whitelisted stablecoins, we assume 1:1 value with USD
+        const value = balance;
+        
+        // Whitelisted tokens are deposited into the Compound market mapped in cTokens()
+        const cTokenAddress: string = await treasury.cTokens(tokenAddress, overrides);
+        const deployments = cTokenAddress === ethers.ZeroAddress
+          ? []
+          : [await readCTokenPosition(provider, cTokenAddress, token, treasuryAddress, overrides)];
+        
+        t1Assets.push({
+          symbol: token.symbol,
+          name: token.name,
+          value,
+          balance,
+          address: tokenAddress,
+          error: null,
+          unpriced: false,
+          selfBacking: 0,
+          priceSource: null,
+          priceDisagreement: false,
+          deployments
+        });
+        
+        t1Value += value;
+      } catch (error) {
+        console.error(`Error fetching T1 asset ${token.symbol}:`, error);
+        t1Assets.push({
+          symbol: token.symbol,
+          name: token.name,
+          value: 0,
+          balance: 0,
+          address: tokenAddress,
+          error: describeAssetError(error),
+          unpriced: false,
+          selfBacking: 0,
+          priceSource: null,
+          priceDisagreement: false,
+          deployments: []
+        });
+      }
+    }
+  }
+  
+  // Add T2 assets (non-whitelisted assets)
+  // Chainlink (through the Treasury's oracle registry) first, market data providers as a cross-check
+  const priceSources = createPriceSources(provider);
+  const prices = new Map<string, Promise<PriceResult>>();
+  
+  // Each token is priced once per fetch, however many assets need it
+  const priceOf = (tokenAddress: string): Promise<PriceResult> => {
+    const key = tokenAddress.toLowerCase();
+    if (!prices.has(key)) {
+      prices.set(key, getPrice(priceSources, tokenAddress));
+    }
+    return prices.get(key)!;
+  };
+  
+  // Held but not valued: excluded from the totals without counting as a failure
+  const unpricedAsset = (t2Asset: T2Asset, balance: number): TreasuryAsset => ({
+    symbol: t2Asset.symbol,
+    name: t2Asset.name,
+    value: 0,
+    balance,
+    address: t2Asset.address,
+    error: null,
+    unpriced: true,
+    selfBacking: 0,
+    priceSource: null,
+    priceDisagreement: false,
+    deployments: []
+  });
+  
+  // The known T2 assets plus every token discovered in transfers to the Treasury
+  const cTokenList: string[] = await treasury.cTokenList(overrides);
+  const t2Candidates = await listT2Assets([...whitelistedTokens, ...cTokenList, VUSD_ADDRESS]);
+  
+  // Uniswap V3 positions are NFTs, listed from the position manager instead
+  try {
+    t2Candidates.push(...await listUniswapV3Positions(provider, treasuryAddress, overrides));
+  } catch (error) {
+    console.error('Error listing Uniswap V3 positions:', error);
+  }
+  
+  for (const t2Asset of t2Candidates) {
+    let formattedBalance = 0;
+    
+    try {
+      // Basic ERC20 ABI functions + any asset-specific functions
+      const combinedAbi = [
+        'function balanceOf(address owner) view returns (uint256)',
+        'function decimals() view returns (uint8)',
+        ...(t2Asset.extraAbi || [])
+      ];
+      
+      // Create contract instance for the token
+      const tokenContract = new ethers.Contract(
+        t2Asset.address,
+        combinedAbi,
+        provider
+      );
+      
+      // Get necessary data from blockchain; a position NFT counts as one position
+      const isPosition = t2Asset.assetType === AssetType.UNISWAP_V3_POSITION;
+      const tokenBalance: bigint = isPosition
+        ? BigInt(1)
+        : await tokenContract.balanceOf(treasuryAddress, overrides);
+      
+      // Skip tokens the Treasury received but no longer holds
+      if (tokenBalance === BigInt(0)) continue;
+      formattedBalance = parseFloat(ethers.formatUnits(tokenBalance, t2Asset.decimals));
+      
+      // Use the appropriate valuation function based on asset type
+      let result: Valuation | null;
+      
+      switch (t2Asset.assetType) {
+        case AssetType.STAKED_ETH:
+          result = await valueStakedEthAsset(
+            tokenContract,
+            tokenBalance,
+            await priceOf(WETH_ADDRESS),
+            t2Asset.decimals
+          );
+          break;
+          
+        case AssetType.LP_TOKEN:
+          result = {
+            ...await valueUniswapV2Lp(provider, t2Asset.address, tokenBalance, priceOf, overrides),
+            balance: formattedBalance
+          };
+          break;
+          
+        case AssetType.GENERIC_ERC20:
+          result = await valueGenericErc20Asset(
+            t2Asset.address,
+            tokenBalance,
+            priceOf,
+            t2Asset.decimals
+          );
+          break;
+          
+        case AssetType.CURVE_LP:
+          result = {
+            ...await valueCurveLp(provider, t2Asset.pool ?? t2Asset.address, tokenBalance, priceOf, overrides),
+            balance: formattedBalance
+          };
+          break;
+          
+        case AssetType.UNISWAP_V3_POSITION:
+          result = {
+            ...await valueUniswapV3Position(provider, t2Asset.tokenId!, priceOf, overrides),
+            balance: formattedBalance
+          };
+          break;
+          
+        case AssetType.UNPRICED:
+        default:
+          result = null;
+          break;
+      }
+      
+      if (!result) {
+        t2Assets.push(unpricedAsset(t2Asset, formattedBalance));
+        continue;
+      }
+      
+      const { value, selfBacking, pricing } = result;
+      
+      t2Assets.push({
+        symbol: t2Asset.symbol,
+        name: t2Asset.name,
+        value,
+        balance: formattedBalance,
+        address: t2Asset.address,
+        error: null,
+        unpriced: false,
+        selfBacking,
+        priceSource: pricing.source,
+        priceDisagreement: pricing.disagreement,
+        deployments: []
+      });
+      
+      t2Value += value;
+      selfBackingValue += selfBacking;
+      
+    } catch (error) {
+      // No price source knows the token (or the other side of its pool)
+      if (error instanceof NoPriceError) {
+        t2Assets.push(unpricedAsset(t2Asset, formattedBalance));
+        continue;
+      }
+      
+      console.error(`Error fetching T2 asset ${t2Asset.symbol}:`, error);
+      t2Assets.push({
+        symbol: t2Asset.symbol,
+        name: t2Asset.name,
+        value: 0,
+        balance: 0,
+        address: t2Asset.address,
+        error: describeAssetError(error),
+        unpriced: false,
+        selfBacking: 0,
+        priceSource: null,
+        priceDisagreement: false,
+        deployments: []
+      });
+    }
+  }
+  
+  // Calculate total value and collateralization ratio
+  const totalValue = t1Value + t2Value;
+  const collateralizationRatio = circulatingSupply > 0 ? totalValue / circulatingSupply : 0;
+  const excessValue = totalValue - circulatingSupply;
+  const hasAssetErrors = [...t1Assets, ...t2Assets].some(asset => asset.error !== null);
+  
+  return {
+    blockNumber: block.number,
+    timestamp: block.timestamp,
+    status: hasAssetErrors ? 'partial' : 'fresh',
+    totalValue,
+    t1Value,
+    t2Value,
+    circulatingSupply,
+    collateralizationRatio,
+    excessValue,
+    selfBackingValue,
+    t1Assets,
+    t2Assets,
+    whitelist: whitelistedTokens.map(address => ethers.getAddress(address)),
+    mintingFee: Number(mintingFee),
+    redeemFee: Number(redeemFee)
+  };
+}
+
+/**
+ * Lists the governance changes between two consecutive snapshots.
+ * 
+ * @param {TreasurySnapshot} previous - The last stored snapshot
+ * @param {InsertTreasurySnapshot} next - The snapshot about to be stored
+ * @returns {InsertGovernanceEvent[]} Whitelist and fee changes, dated at `next`
+ * 
+ * @remarks
+ * Changes are only seen at snapshot granularity, so an event's block is the
+ * first snapshot block after the change, not the block of the transaction.
+ */
+export function detectGovernanceEvents(
+  previous: TreasurySnapshot,
+  next: InsertTreasurySnapshot
+): InsertGovernanceEvent[] {
+  const at = { blockNumber: next.blockNumber, timestamp: next.timestamp };
+  const events: InsertGovernanceEvent[] = [];
+  
+  const symbolOf = (address: string) =>
+    SUPPORTED_TOKENS.find(t => t.address.toLowerCase() === address.toLowerCase())?.symbol ?? address;
+  const formatBps = (bps: number) => `${(bps / 100).toFixed(2)}%`;
+  
+  for (const address of next.whitelist) {
+    if (!previous.whitelist.includes(address)) {
+      events.push({ ...at, kind: 'whitelist-added', description: `${symbolOf(address)} whitelisted` });
+    }
+  }
+  for (const address of previous.whitelist) {
+    if (!next.whitelist.includes(address)) {
+      events.push({ ...at, kind: 'whitelist-removed', description: `${symbolOf(address)} removed from whitelist` });
+    }
+  }
+  
+  if (next.mintingFee !== previous.mintingFee) {
+    events.push({
+      ...at,
+      kind: 'minting-fee',
+      description: `Minting fee ${formatBps(previous.mintingFee)} → ${formatBps(next.mintingFee)}`
+    });
+  }
+  if (next.redeemFee !== previous.redeemFee) {
+    events.push({
+      ...at,
+      kind: 'redeem-fee',
+      description: `Redeem fee ${formatBps(previous.redeemFee)} → ${formatBps(next.redeemFee)}`
+    });
+  }
+  
+  return events;
+}
+
+/**
+ * Takes a snapshot now and then every SNAPSHOT_INTERVAL.
+ * 
+ * @remarks
+ * A run is skipped while the previous one is still in progress. Failed runs
+ * are logged and leave the latest stored snapshot in place. Governance changes
+ * since the previous snapshot are stored as events alongside the new snapshot,
+ * and each new snapshot is checked for health alerts (see alerts.ts).
+ */
+export function startTreasuryIndexer(): void {
+  const provider = getMainnetProvider();
+  let running = false;
+  
+  const takeSnapshot = async () => {
+    if (running) return;
+    running = true;
+    
+    try {
+      const snapshot = await computeTreasurySnapshot(provider);
+      const previous = await storage.getLatestTreasurySnapshot();
+      
+      if (previous) {
+        for (const event of detectGovernanceEvents(previous, snapshot)) {
+          await storage.addGovernanceEvent(event);
+        }
+      }
+      await storage.addTreasurySnapshot(snapshot);
+      await evaluateTreasuryAlerts(provider, snapshot);
+    } catch (error) {
+      console.error('Error taking treasury snapshot:', error);
+    } finally {
+      running = false;
+    }
+  };
+  
+  takeSnapshot();
+  setInterval(takeSnapshot, SNAPSHOT_INTERVAL);
+}
@@ -2,7 +2,7 @@
  * Copyright 2025 Hemi Labs. All rights reserved.
  */
 
-import { pgTable, text, serial, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, bigint, doublePrecision, jsonb, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -19,3 +19,267 @@ export const insertUserSchema = createInsertSchema(users).pick({
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+
+// Server market data providers, tried in the order configured in MARKET_DATA_PROVIDERS
+export type MarketDataProviderName = 'coingecko' | 'onchain' | 'fixture';
+
+// Where a T2 asset's USD price came from: Chainlink, or the market data provider that answered
+export type PriceSourceName = 'chainlink' | MarketDataProviderName;
+
+/**
+ * VUSD's current market data, as served by /api/market/vusd. Fields a
+ * provider cannot supply are null.
+ */
+export interface VusdMarketData {
+  id: string;
+  symbol: string;
+  name: string;
+  image?: string;
+  current_price: number;
+  market_cap: number;
+  price_change_24h: number | null; // Percent
+  volume_24h: number | null;
+  last_updated: string; // ISO date
+  contract_address: string;
+  source: MarketDataProviderName;
+  stale?: boolean; // Set when served from the cache because the providers failed
+}
+
+export interface MarketDataProviderHealth {
+  name: MarketDataProviderName;
+  healthy: boolean; // False while skipped after repeated failures
+  consecutiveFailures: number;
+  lastSuccess: number | null; // Milliseconds since epoch
+  lastFailure: number | null;
+  lastError: string | null;
+}
+
+/**
+ * A Compound cToken position held by the Treasury. Amounts are in the
+ * underlying token's units.
+ */
+export interface CTokenPosition {
+  address: string;
+  symbol: string;
+  underlying: string; // Underlying token address
+  balance: number; // cToken balance
+  exchangeRate: number; // Underlying tokens per cToken, including interest not yet accrued on-chain
+  underlyingAmount: number; // balance * exchangeRate
+  accruedInterest: number | null; // underlyingAmount minus net deposits; null until the deposits are scanned
+  error: string | null;
+}
+
+export interface TreasuryAsset {
+  symbol: string;
+  name: string;
+  value: number;
+  balance: number;
+  address: string;
+  error: string | null; // Why this asset could not be valued; its value is then 0
+  unpriced: boolean; // Held but no price source knows it; its value is then 0
+  selfBacking: number; // VUSD held through an LP position, in USD at face value; not part of value
+  priceSource: PriceSourceName | null; // Source of the price used (T2 only; T1 is valued 1:1)
+  priceDisagreement: boolean; // Whether the price sources differed by more than the threshold
+  deployments: CTokenPosition[]; // Compound positions backing a T1 asset; empty for T2
+}
+
+// Treasury valuations computed by the server's indexer, one row per run
+export const treasurySnapshots = pgTable("treasury_snapshots", {
+  id: serial("id").primaryKey(),
+  blockNumber: integer("block_number").notNull(),
+  timestamp: bigint("timestamp", { mode: "number" }).notNull(), // Block timestamp, in seconds
+  status: text("status").$type<'fresh' | 'partial'>().notNull(), // 'partial' when some assets could not be valued
+  totalValue: doublePrecision("total_value").notNull(),
+  t1Value: doublePrecision("t1_value").notNull(),
+  t2Value: doublePrecision("t2_value").notNull(),
+  circulatingSupply: doublePrecision("circulating_supply").notNull(),
+  collateralizationRatio: doublePrecision("collateralization_ratio").notNull(),
+  excessValue: doublePrecision("excess_value").notNull(),
+  selfBackingValue: doublePrecision("self_backing_value").notNull().default(0),
+  t1Assets: jsonb("t1_assets").$type<TreasuryAsset[]>().notNull(),
+  t2Assets: jsonb("t2_assets").$type<TreasuryAsset[]>().notNull(),
+  // Governance settings at the snapshot's block, compared between snapshots to detect changes
+  whitelist: jsonb("whitelist").$type<string[]>().notNull(), // Treasury whitelisted token addresses
+  mintingFee: integer("minting_fee").notNull(), // Basis points
+  redeemFee: integer("redeem_fee").notNull(), // Basis points
+}, (table) => [
+  index("treasury_snapshots_timestamp_idx").on(table.timestamp),
+]);
+
+export type InsertTreasurySnapshot = typeof treasurySnapshots.$inferInsert;
+export type TreasurySnapshot = typeof treasurySnapshots.$inferSelect;
+
+export type GovernanceEventKind = 'whitelist-added' | 'whitelist-removed' | 'minting-fee' | 'redeem-fee';
+
+// Governance changes noticed by the indexer, dated by the first snapshot that saw them
+export const governanceEvents = pgTable("governance_events", {
+  id: serial("id").primaryKey(),
+  blockNumber: integer("block_number").notNull(),
+  timestamp: bigint("timestamp", { mode: "number" }).notNull(), // Block timestamp, in seconds
+  kind: text("kind").$type<GovernanceEventKind>().notNull(),
+  description: text("description").notNull(),
+}, (table) => [
+  index("governance_events_timestamp_idx").on(table.timestamp),
+]);
+
+export type InsertGovernanceEvent = typeof governanceEvents.$inferInsert;
+export type GovernanceEvent = typeof governanceEvents.$inferSelect;
+
+// Tokens the asset discovery found in Transfer logs into the Treasury, with their classification
+export const treasuryTokens = pgTable("treasury_tokens", {
+  address: text("address").primaryKey(), // Checksummed token address
+  symbol: text("symbol").notNull(),
+  name: text("name").notNull(),
+  decimals: integer("decimals").notNull(),
+  assetType: text("asset_type").notNull(), // An AssetType from constants/treasuryAssets
+  pool: text("pool"), // Curve pool of a Curve LP token
+  firstSeenBlock: integer("first_seen_block").notNull(), // Block of the first transfer into the Treasury
+});
+
+export type InsertTreasuryToken = typeof treasuryTokens.$inferInsert;
+export type TreasuryToken = typeof treasuryTokens.$inferSelect;
+
+// Last block each log scanner has scanned through, so scans resume after a restart
+export const scanCursors = pgTable("scan_cursors", {
+  name: text("name").primaryKey(),
+  block: integer("block").notNull(),
+});
+
+// Underlying the Treasury has deposited into each Compound cToken, net of withdrawals
+export const cTokenDeposits = pgTable("ctoken_deposits", {
+  cToken: text("ctoken").primaryKey(), // Checksummed cToken address
+  netDeposited: text("net_deposited").notNull(), // Underlying base units, as a decimal string
+  block: integer("block").notNull(), // Last block whose transfers are included
+});
+
+export type InsertCTokenDeposit = typeof cTokenDeposits.$inferInsert;
+export type CTokenDeposit = typeof cTokenDeposits.$inferSelect;
+
+export type TreasuryAlertKind = 'collateralization' | 'concentration' | 'depeg';
+export type TreasuryAlertSeverity = 'warning' | 'critical';
+
+/**
+ * A treasury health alert raised by the server's monitor. Alerts stay active
+ * until an evaluation no longer breaches the threshold.
+ */
+export interface TreasuryAlert {
+  key: string; // Identifies the condition, e.g. 'depeg:<token address>'
+  kind: TreasuryAlertKind;
+  severity: TreasuryAlertSeverity;
+  message: string;
+  value: number; // Observed ratio, share or price
+  threshold: number; // Threshold that was crossed
+  since: number; // When the condition was first seen, in seconds
+  blockNumber: number; // Snapshot block of the latest evaluation
+}
+
+export interface TreasuryAlertsResponse {
+  alerts: TreasuryAlert[];
+  evaluatedAt: number | null; // Time of the latest evaluation, in seconds; null before the first
+}
+
+export type MarketVenue = 'curve' | 'sushiswap';
+
+export interface PoolPriceImpact {
+  amount: number; // VUSD sold
+  impact: number; // Shortfall of the execution price against the spot price, 0.01 = 1%
+}
+
+/**
+ * On-chain market data of a VUSD pool, read by the server at one block.
+ */
+export interface PoolMarketData {
+  id: string;
+  venue: MarketVenue;
+  name: string;
+  address: string | null; // Null when a Curve pool could not be resolved
+  url: string;
+  quoteSymbol: string; // The token VUSD is paired with
+  spotPrice: number; // USD per VUSD, from selling 1 VUSD into the pool
+  tvl: number; // USD value of both sides, VUSD at spotPrice
+  vusdReserve: number;
+  quoteReserve: number;
+  priceImpact: PoolPriceImpact[];
+  error: string | null; // Why the pool could not be read; the figures are then 0
+}
+
+export interface PoolMarketsResponse {
+  blockNumber: number;
+  timestamp: number; // Block timestamp, in seconds
+  pools: PoolMarketData[];
+  stale?: boolean; // Set when served from the cache because reading the pools failed
+}
+
+// Where a pool's VUSD price sits relative to the mint/redeem band
+export type PegPosition = 'above' | 'within' | 'below';
+
+/**
+ * The most profitable arbitrage against the Minter or Redeemer, after the
+ * mint or redeem fee, the pool's fee and price impact, and gas.
+ */
+export interface PegArbitrage {
+  action: 'mint-and-sell' | 'buy-and-redeem';
+  size: number; // VUSD minted and sold, or bought and redeemed
+  profit: number; // USD, after fees and gas
+  gasCost: number; // USD
+}
+
+export interface PoolPegStatus {
+  poolId: string;
+  name: string;
+  venue: MarketVenue;
+  sellPrice: number; // USD received for selling 1 VUSD into the pool
+  buyPrice: number; // USD paid for buying 1 VUSD from the pool
+  position: PegPosition;
+  arbitrage: PegArbitrage | null; // Null when within the band or not profitable after gas
+  error: string | null; // Why the pool could not be read; the prices are then 0
+}
+
+export interface PegStatusResponse {
+  blockNumber: number;
+  timestamp: number; // Block timestamp, in seconds
+  mintPrice: number; // USD cost of minting 1 VUSD with a $1 stablecoin, the top of the band
+  redeemPrice: number; // USD received for redeeming 1 VUSD, the bottom of the band
+  gasPrice: number; // Gwei
+  pools: PoolPegStatus[];
+}
+
+// Periods a pool's VUSD price spent outside the mint/redeem band, recorded by the peg monitor
+export const pegEvents = pgTable("peg_events", {
+  id: serial("id").primaryKey(),
+  poolId: text("pool_id").notNull(), // A VUSD_POOLS id
+  direction: text("direction").$type<Exclude<PegPosition, 'within'>>().notNull(),
+  startBlock: integer("start_block").notNull(),
+  startedAt: bigint("started_at", { mode: "number" }).notNull(), // Block timestamp, in seconds
+  endedAt: bigint("ended_at", { mode: "number" }), // Null while the pool is still outside the band
+  peakPrice: doublePrecision("peak_price").notNull(), // Price furthest from the band
+}, (table) => [
+  index("peg_events_started_at_idx").on(table.startedAt),
+]);
+
+export type InsertPegEvent = typeof pegEvents.$inferInsert;
+export type PegEvent = typeof pegEvents.$inferSelect;
+
+// VUSD market prices from CoinGecko, kept so history outlives CoinGecko's answers
+export const vusdPrices = pgTable("vusd_prices", {
+  timestamp: bigint("timestamp", { mode: "number" }).primaryKey(), // Seconds
+  price: doublePrecision("price").notNull(), // USD
+  volume: doublePrecision("volume").notNull(), // USD traded in the 24 hours before timestamp
+});
+
+export type InsertVusdPrice = typeof vusdPrices.$inferInsert;
+export type VusdPrice = typeof vusdPrices.$inferSelect;
+
+export interface VusdPricePoint {
+  timestamp: number; // Seconds, the start of the point's interval
+  price: number;
+  volume: number;
+  filled: boolean; // No price in this interval; carried forward from the previous one
+}
+
+export interface VusdPriceHistory {
+  days: number;
+  interval: number; // Seconds between points
+  points: VusdPricePoint[];
+  stale?: boolean; // Set when served from the cache because refreshing it failed
+}